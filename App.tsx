@@ -10,6 +10,7 @@ import {
   ActivityIndicator,
   Animated,
   Alert,
+  AppState,
   Text,
 } from "react-native";
 import * as Updates from "expo-updates";
@@ -24,8 +25,22 @@ import CategoryListScreen from "./src/screen/CategoryListScreen";
 import AddEditCategoryScreen from "./src/screen/AddEditCategoryScreen";
 import ProductListScreen from "./src/screen/ProductListScreen";
 import AddEditProductScreen from "./src/screen/AddEditProductScreen";
+import AuditLogScreen from "./src/screen/AuditLogScreen";
+import RecycleBinScreen from "./src/screen/RecycleBinScreen";
+import ImportScreen from "./src/screen/ImportScreen";
+import BackupsScreen from "./src/screen/BackupsScreen";
+import ReportExportScreen from "./src/screen/ReportExportScreen";
+import ShopDetailsScreen from "./src/screen/ShopDetailsScreen";
+import RehanAgingScreen from "./src/screen/RehanAgingScreen";
+import DashboardListScreen from "./src/screen/DashboardListScreen";
+import CashBookScreen from "./src/screen/CashBookScreen";
+import CustomerStatementScreen from "./src/screen/CustomerStatementScreen";
+import { DASHBOARD_TILE_TITLES } from "./src/services/DashboardService";
 import { RootStackParamList } from "./src/types/entry";
 import { initDatabase } from "./src/database/entryDatabase";
+import { MigrationError } from "./src/database/migrations";
+import { purgeExpiredItems } from "./src/services/RecycleBinService";
+import { runScheduledBackup } from "./src/services/BackupService";
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
@@ -71,7 +86,25 @@ export default function App() {
 
   useEffect(() => {
     // Initialize database on app start
-    initDatabase();
+    initDatabase()
+      .then(() => {
+        // Clear out records that have been in the recycle bin too long
+        purgeExpiredItems().catch((error) =>
+          console.error("Error purging recycle bin:", error),
+        );
+        // Take today's backup if it hasn't been taken yet
+        runScheduledBackup().catch((error) =>
+          console.error("Scheduled backup failed:", error),
+        );
+      })
+      .catch((error) => {
+        Alert.alert(
+          "Database Error",
+          error instanceof MigrationError
+            ? `The database update failed at version ${error.version}; earlier updates were kept. Please restart the app.`
+            : "Your data could not be upgraded to the latest version. Please restart the app.",
+        );
+      });
 
     // Check for updates
     checkForUpdates();
@@ -88,7 +121,19 @@ export default function App() {
       });
     }, 1000);
 
-    return () => clearTimeout(timer);
+    // The app can stay open for days, so check again whenever it comes back
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") {
+        runScheduledBackup().catch((error) =>
+          console.error("Scheduled backup failed:", error),
+        );
+      }
+    });
+
+    return () => {
+      clearTimeout(timer);
+      subscription.remove();
+    };
   }, [fadeAnim]);
 
   if (isLoading) {
@@ -181,6 +226,60 @@ export default function App() {
             component={AddEditProductScreen}
             options={{ title: "Product" }}
           />
+          <Stack.Screen
+            name="AuditLog"
+            component={AuditLogScreen}
+            options={{ title: "Audit Log" }}
+          />
+          <Stack.Screen
+            name="RecycleBin"
+            component={RecycleBinScreen}
+            options={{ title: "Recycle Bin" }}
+          />
+          <Stack.Screen
+            name="Import"
+            component={ImportScreen}
+            options={{ title: "Import Backup" }}
+          />
+          <Stack.Screen
+            name="Backups"
+            component={BackupsScreen}
+            options={{ title: "Backups" }}
+          />
+          <Stack.Screen
+            name="ReportExport"
+            component={ReportExportScreen}
+            options={{ title: "Export for Accounts" }}
+          />
+          <Stack.Screen
+            name="ShopDetails"
+            component={ShopDetailsScreen}
+            options={{ title: "Shop Details" }}
+          />
+          <Stack.Screen
+            name="RehanAging"
+            component={RehanAgingScreen}
+            options={{ title: "Rehan Aging" }}
+          />
+          <Stack.Screen
+            name="DashboardList"
+            component={DashboardListScreen}
+            options={({ route }) => ({
+              title: DASHBOARD_TILE_TITLES[route.params.tile],
+            })}
+          />
+          <Stack.Screen
+            name="CashBook"
+            component={CashBookScreen}
+            options={{ title: "Cash Book (Rojmel)" }}
+          />
+          <Stack.Screen
+            name="CustomerStatement"
+            component={CustomerStatementScreen}
+            options={({ route }) => ({
+              title: `Statement · ${route.params.userName}`,
+            })}
+          />
         </Stack.Navigator>
       </NavigationContainer>
     </SafeAreaProvider>
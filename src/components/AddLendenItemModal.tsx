@@ -0,0 +1,595 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { MakingChargeType, Metal, NewLendenItem } from "../types/entry";
+import { BhavData } from "../services/BhavService";
+import { getLiveBhav, getRatePerGram } from "../services/ValuationService";
+import {
+  MAKING_CHARGE_TYPE_LABELS,
+  priceLendenItem,
+} from "../services/BillingService";
+
+interface AddLendenItemModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onAdd: (item: NewLendenItem) => void;
+}
+
+// Common ornaments; anything else can be typed in
+const ITEM_TYPES = [
+  "Chain",
+  "Ring",
+  "Payal",
+  "Bangle",
+  "Earring",
+  "Necklace",
+  "Mangalsutra",
+  "Coin",
+];
+
+const PURITIES: Record<Metal, string[]> = {
+  gold: ["24K", "22K", "20K", "18K", "14K"],
+  silver: ["999", "925", "80%", "70%"],
+};
+
+const METALS: { label: string; value: Metal }[] = [
+  { label: "Gold", value: "gold" },
+  { label: "Silver", value: "silver" },
+];
+
+const MAKING_CHARGE_TYPES = Object.keys(
+  MAKING_CHARGE_TYPE_LABELS,
+) as MakingChargeType[];
+
+// Weights are entered in grams, up to milligrams; charges up to paise
+const parseDecimal = (text: string) => text.replace(/[^0-9.]/g, "");
+
+const AddLendenItemModal: React.FC<AddLendenItemModalProps> = ({
+  visible,
+  onClose,
+  onAdd,
+}) => {
+  const insets = useSafeAreaInsets();
+  const [description, setDescription] = useState("");
+  const [metal, setMetal] = useState<Metal>("gold");
+  const [purity, setPurity] = useState("22K");
+  const [grossWeight, setGrossWeight] = useState("");
+  const [netWeight, setNetWeight] = useState("");
+  const [rate, setRate] = useState("");
+  const [isRateEdited, setIsRateEdited] = useState(false);
+  const [makingChargeType, setMakingChargeType] =
+    useState<MakingChargeType>("perGram");
+  const [makingCharge, setMakingCharge] = useState("");
+  const [wastagePercent, setWastagePercent] = useState("");
+  const [stoneCharges, setStoneCharges] = useState("");
+  const [rates, setRates] = useState<BhavData | null>(null);
+  const [isLoadingRates, setIsLoadingRates] = useState(false);
+  const [ratesError, setRatesError] = useState<string | null>(null);
+
+  // Start empty every time the modal opens, with today's bhav for the rate
+  useEffect(() => {
+    if (visible) {
+      setDescription("");
+      setMetal("gold");
+      setPurity("22K");
+      setGrossWeight("");
+      setNetWeight("");
+      setRate("");
+      setIsRateEdited(false);
+      setMakingChargeType("perGram");
+      setMakingCharge("");
+      setWastagePercent("");
+      setStoneCharges("");
+      loadRates();
+    }
+  }, [visible]);
+
+  // Follow the bhav for the chosen metal and purity until the rate is typed
+  useEffect(() => {
+    if (rates && !isRateEdited) {
+      const ratePerGram = getRatePerGram(metal, purity || null, rates);
+      setRate(ratePerGram > 0 ? ratePerGram.toString() : "");
+    }
+  }, [rates, metal, purity, isRateEdited]);
+
+  const loadRates = async () => {
+    setIsLoadingRates(true);
+    setRatesError(null);
+    try {
+      setRates(await getLiveBhav());
+    } catch (error) {
+      console.error("Error loading bhav for bill line:", error);
+      setRatesError("Couldn't fetch today's bhav, enter the rate");
+    } finally {
+      setIsLoadingRates(false);
+    }
+  };
+
+  const gross = parseFloat(grossWeight);
+  const net = parseFloat(netWeight);
+  const rateNum = parseFloat(rate) || 0;
+  const isNetTooHeavy = gross > 0 && net > gross;
+
+  const line = {
+    description: description.trim(),
+    metal,
+    purity: purity.trim() || undefined,
+    grossWeight: gross > 0 ? gross : undefined,
+    // Without stones the net weight is the gross weight
+    netWeight: net > 0 ? net : gross > 0 ? gross : undefined,
+    rate: rateNum,
+    makingChargeType,
+    makingCharge: parseFloat(makingCharge) || undefined,
+    wastagePercent: parseFloat(wastagePercent) || undefined,
+    stoneCharges: parseFloat(stoneCharges) || undefined,
+  };
+  const price = priceLendenItem(line);
+  const canAdd =
+    line.description.length > 0 &&
+    !isNetTooHeavy &&
+    line.netWeight !== undefined &&
+    rateNum > 0;
+
+  const handleMetalChange = (value: Metal) => {
+    setMetal(value);
+    // A karat doesn't make sense for silver and vice versa
+    if (!PURITIES[value].includes(purity)) {
+      setPurity("");
+    }
+  };
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onAdd({ ...line, amount: price.total });
+    onClose();
+  };
+
+  const renderChip = (
+    label: string,
+    isActive: boolean,
+    onPress: () => void,
+  ) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isActive && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderPriceRow = (label: string, value: number) => (
+    <View style={styles.priceRow}>
+      <Text style={styles.priceLabel}>{label}</Text>
+      <Text style={styles.priceValue}>₹{value.toLocaleString()}</Text>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Add Bill Line</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.body}
+            contentContainerStyle={styles.bodyContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            {/* Description */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                Item <Text style={styles.required}>*</Text>
+              </Text>
+              <View style={styles.chipRow}>
+                {ITEM_TYPES.map((type) =>
+                  renderChip(type, description === type, () =>
+                    setDescription(type),
+                  ),
+                )}
+              </View>
+              <TextInput
+                style={styles.input}
+                placeholder="Or type a description"
+                placeholderTextColor="#999"
+                value={description}
+                onChangeText={setDescription}
+              />
+            </View>
+
+            {/* Metal */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                Metal <Text style={styles.required}>*</Text>
+              </Text>
+              <View style={styles.chipRow}>
+                {METALS.map((option) =>
+                  renderChip(option.label, metal === option.value, () =>
+                    handleMetalChange(option.value),
+                  ),
+                )}
+              </View>
+            </View>
+
+            {/* Purity */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                {metal === "gold" ? "Karat" : "Purity"}
+              </Text>
+              <View style={styles.chipRow}>
+                {PURITIES[metal].map((value) =>
+                  renderChip(value, purity === value, () =>
+                    setPurity(purity === value ? "" : value),
+                  ),
+                )}
+              </View>
+            </View>
+
+            {/* Weights */}
+            <View style={styles.row}>
+              <View style={[styles.inputGroup, styles.rowItem]}>
+                <Text style={styles.label}>Gross Wt (g)</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="0.000"
+                  placeholderTextColor="#999"
+                  value={grossWeight}
+                  onChangeText={(text) => setGrossWeight(parseDecimal(text))}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <View style={[styles.inputGroup, styles.rowItem]}>
+                <Text style={styles.label}>
+                  Net Wt (g) <Text style={styles.required}>*</Text>
+                </Text>
+                <TextInput
+                  style={[styles.input, isNetTooHeavy && styles.inputError]}
+                  placeholder={grossWeight || "0.000"}
+                  placeholderTextColor="#999"
+                  value={netWeight}
+                  onChangeText={(text) => setNetWeight(parseDecimal(text))}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            </View>
+            {isNetTooHeavy && (
+              <Text style={styles.errorText}>
+                Net weight can't be more than the gross weight
+              </Text>
+            )}
+
+            {/* Rate */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                Rate (₹ per gram) <Text style={styles.required}>*</Text>
+              </Text>
+              <TextInput
+                style={styles.input}
+                placeholder="0.00"
+                placeholderTextColor="#999"
+                value={rate}
+                onChangeText={(text) => {
+                  setRate(parseDecimal(text));
+                  setIsRateEdited(true);
+                }}
+                keyboardType="decimal-pad"
+              />
+              {isLoadingRates ? (
+                <ActivityIndicator
+                  style={styles.hintLoader}
+                  size="small"
+                  color="#007AFF"
+                />
+              ) : ratesError ? (
+                <Text style={styles.warningText}>{ratesError}</Text>
+              ) : (
+                rates &&
+                isRateEdited && (
+                  <TouchableOpacity onPress={() => setIsRateEdited(false)}>
+                    <Text style={styles.linkText}>Use today's bhav</Text>
+                  </TouchableOpacity>
+                )
+              )}
+            </View>
+
+            {/* Making charges */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Making Charges</Text>
+              <View style={styles.chipRow}>
+                {MAKING_CHARGE_TYPES.map((value) =>
+                  renderChip(
+                    MAKING_CHARGE_TYPE_LABELS[value],
+                    makingChargeType === value,
+                    () => setMakingChargeType(value),
+                  ),
+                )}
+              </View>
+              <TextInput
+                style={styles.input}
+                placeholder={makingChargeType === "percent" ? "0 %" : "₹ 0"}
+                placeholderTextColor="#999"
+                value={makingCharge}
+                onChangeText={(text) => setMakingCharge(parseDecimal(text))}
+                keyboardType="decimal-pad"
+              />
+            </View>
+
+            {/* Wastage and stones */}
+            <View style={styles.row}>
+              <View style={[styles.inputGroup, styles.rowItem]}>
+                <Text style={styles.label}>Wastage (%)</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="0"
+                  placeholderTextColor="#999"
+                  value={wastagePercent}
+                  onChangeText={(text) => setWastagePercent(parseDecimal(text))}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <View style={[styles.inputGroup, styles.rowItem]}>
+                <Text style={styles.label}>Stone Charges (₹)</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="0"
+                  placeholderTextColor="#999"
+                  value={stoneCharges}
+                  onChangeText={(text) => setStoneCharges(parseDecimal(text))}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            </View>
+
+            {/* Line total */}
+            <View style={styles.priceCard}>
+              {renderPriceRow("Metal", price.metalValue)}
+              {price.wastage > 0 && renderPriceRow("Wastage", price.wastage)}
+              {price.making > 0 && renderPriceRow("Making", price.making)}
+              {price.stoneCharges > 0 &&
+                renderPriceRow("Stones", price.stoneCharges)}
+              <View style={[styles.priceRow, styles.priceTotalRow]}>
+                <Text style={styles.priceTotalLabel}>Line Total</Text>
+                <Text style={styles.priceTotalValue}>
+                  ₹{price.total.toLocaleString()}
+                </Text>
+              </View>
+            </View>
+          </ScrollView>
+
+          <View
+            style={[
+              styles.footer,
+              { paddingBottom: Math.max(insets.bottom, 20) },
+            ]}
+          >
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.addButton, !canAdd && styles.addButtonDisabled]}
+              onPress={handleAdd}
+              disabled={!canAdd}
+            >
+              <Ionicons name="checkmark" size={20} color="#fff" />
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: "90%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#444",
+    marginBottom: 8,
+  },
+  required: {
+    color: "#FF3B30",
+  },
+  input: {
+    backgroundColor: "#F8F9FA",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    color: "#1A1A1A",
+  },
+  inputError: {
+    borderColor: "#C62828",
+  },
+  errorText: {
+    fontSize: 12,
+    color: "#C62828",
+    marginTop: -12,
+    marginBottom: 12,
+  },
+  warningText: {
+    fontSize: 13,
+    color: "#E65100",
+    marginTop: 6,
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#007AFF",
+    marginTop: 6,
+  },
+  hintLoader: {
+    alignSelf: "flex-start",
+    marginTop: 6,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#F8F9FA",
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+  },
+  chipActive: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#444",
+  },
+  chipTextActive: {
+    color: "#fff",
+  },
+  row: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  rowItem: {
+    flex: 1,
+  },
+  priceCard: {
+    backgroundColor: "#F8F9FA",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    padding: 14,
+  },
+  priceRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+  priceLabel: {
+    fontSize: 14,
+    color: "#666",
+  },
+  priceValue: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#1A1A1A",
+  },
+  priceTotalRow: {
+    marginTop: 6,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#E5E5E5",
+  },
+  priceTotalLabel: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  priceTotalValue: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#2E7D32",
+  },
+  footer: {
+    flexDirection: "row",
+    padding: 20,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F2F5",
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#F0F2F5",
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#666",
+  },
+  addButton: {
+    flex: 1,
+    flexDirection: "row",
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#2E7D32",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  addButtonDisabled: {
+    backgroundColor: "#A5D6A7",
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#fff",
+  },
+});
+
+export default AddLendenItemModal;
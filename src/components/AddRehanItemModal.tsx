@@ -0,0 +1,390 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Metal, NewRehanItem } from "../types/entry";
+
+interface AddRehanItemModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onAdd: (item: NewRehanItem) => void;
+}
+
+// Common ornaments; anything else can be typed in
+const ITEM_TYPES = [
+  "Chain",
+  "Ring",
+  "Payal",
+  "Bangle",
+  "Earring",
+  "Necklace",
+  "Mangalsutra",
+  "Coin",
+];
+
+const PURITIES: Record<Metal, string[]> = {
+  gold: ["24K", "22K", "20K", "18K", "14K"],
+  silver: ["999", "925", "80%", "70%"],
+};
+
+const METALS: { label: string; value: Metal }[] = [
+  { label: "Gold", value: "gold" },
+  { label: "Silver", value: "silver" },
+];
+
+// Weights are entered in grams, up to milligrams
+const parseWeight = (text: string) => text.replace(/[^0-9.]/g, "");
+
+const AddRehanItemModal: React.FC<AddRehanItemModalProps> = ({
+  visible,
+  onClose,
+  onAdd,
+}) => {
+  const insets = useSafeAreaInsets();
+  const [itemType, setItemType] = useState("");
+  const [metal, setMetal] = useState<Metal>("gold");
+  const [purity, setPurity] = useState("");
+  const [grossWeight, setGrossWeight] = useState("");
+  const [netWeight, setNetWeight] = useState("");
+  const [pieces, setPieces] = useState("1");
+
+  // Start empty every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setItemType("");
+      setMetal("gold");
+      setPurity("");
+      setGrossWeight("");
+      setNetWeight("");
+      setPieces("1");
+    }
+  }, [visible]);
+
+  const gross = parseFloat(grossWeight);
+  const net = parseFloat(netWeight);
+  const isNetTooHeavy = gross > 0 && net > gross;
+  const canAdd = itemType.trim().length > 0 && !isNetTooHeavy;
+
+  const handleMetalChange = (value: Metal) => {
+    setMetal(value);
+    // A karat doesn't make sense for silver and vice versa
+    if (!PURITIES[value].includes(purity)) {
+      setPurity("");
+    }
+  };
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onAdd({
+      itemType: itemType.trim(),
+      metal,
+      purity: purity.trim() || undefined,
+      grossWeight: gross > 0 ? gross : undefined,
+      // Without stones the net weight is the gross weight
+      netWeight: net > 0 ? net : gross > 0 ? gross : undefined,
+      pieces: Math.max(parseInt(pieces, 10) || 1, 1),
+    });
+    onClose();
+  };
+
+  const renderChip = (
+    label: string,
+    isActive: boolean,
+    onPress: () => void,
+  ) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isActive && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Add Pledged Item</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.body}
+            contentContainerStyle={styles.bodyContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            {/* Item Type */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                Item <Text style={styles.required}>*</Text>
+              </Text>
+              <View style={styles.chipRow}>
+                {ITEM_TYPES.map((type) =>
+                  renderChip(type, itemType === type, () => setItemType(type)),
+                )}
+              </View>
+              <TextInput
+                style={styles.input}
+                placeholder="Or type the item name"
+                placeholderTextColor="#999"
+                value={itemType}
+                onChangeText={setItemType}
+              />
+            </View>
+
+            {/* Metal */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                Metal <Text style={styles.required}>*</Text>
+              </Text>
+              <View style={styles.chipRow}>
+                {METALS.map((option) =>
+                  renderChip(option.label, metal === option.value, () =>
+                    handleMetalChange(option.value),
+                  ),
+                )}
+              </View>
+            </View>
+
+            {/* Purity */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                {metal === "gold" ? "Karat" : "Purity"}
+              </Text>
+              <View style={styles.chipRow}>
+                {PURITIES[metal].map((value) =>
+                  renderChip(value, purity === value, () =>
+                    setPurity(purity === value ? "" : value),
+                  ),
+                )}
+              </View>
+            </View>
+
+            {/* Weights */}
+            <View style={styles.row}>
+              <View style={[styles.inputGroup, styles.rowItem]}>
+                <Text style={styles.label}>Gross Wt (g)</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="0.000"
+                  placeholderTextColor="#999"
+                  value={grossWeight}
+                  onChangeText={(text) => setGrossWeight(parseWeight(text))}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <View style={[styles.inputGroup, styles.rowItem]}>
+                <Text style={styles.label}>Net Wt (g)</Text>
+                <TextInput
+                  style={[styles.input, isNetTooHeavy && styles.inputError]}
+                  placeholder={grossWeight || "0.000"}
+                  placeholderTextColor="#999"
+                  value={netWeight}
+                  onChangeText={(text) => setNetWeight(parseWeight(text))}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <View style={[styles.inputGroup, styles.piecesItem]}>
+                <Text style={styles.label}>Pieces</Text>
+                <TextInput
+                  style={styles.input}
+                  value={pieces}
+                  onChangeText={(text) =>
+                    setPieces(text.replace(/[^0-9]/g, ""))
+                  }
+                  keyboardType="numeric"
+                />
+              </View>
+            </View>
+            {isNetTooHeavy && (
+              <Text style={styles.errorText}>
+                Net weight can't be more than the gross weight
+              </Text>
+            )}
+          </ScrollView>
+
+          <View
+            style={[
+              styles.footer,
+              { paddingBottom: Math.max(insets.bottom, 20) },
+            ]}
+          >
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.addButton, !canAdd && styles.addButtonDisabled]}
+              onPress={handleAdd}
+              disabled={!canAdd}
+            >
+              <Ionicons name="checkmark" size={20} color="#fff" />
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: "90%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#444",
+    marginBottom: 8,
+  },
+  required: {
+    color: "#FF3B30",
+  },
+  input: {
+    backgroundColor: "#F8F9FA",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    color: "#1A1A1A",
+  },
+  inputError: {
+    borderColor: "#C62828",
+  },
+  errorText: {
+    fontSize: 12,
+    color: "#C62828",
+    marginTop: -12,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#F8F9FA",
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+  },
+  chipActive: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#444",
+  },
+  chipTextActive: {
+    color: "#fff",
+  },
+  row: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  rowItem: {
+    flex: 2,
+  },
+  piecesItem: {
+    flex: 1,
+  },
+  footer: {
+    flexDirection: "row",
+    padding: 20,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F2F5",
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#F0F2F5",
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#666",
+  },
+  addButton: {
+    flex: 1,
+    flexDirection: "row",
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#2E7D32",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  addButtonDisabled: {
+    backgroundColor: "#A5D6A7",
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#fff",
+  },
+});
+
+export default AddRehanItemModal;
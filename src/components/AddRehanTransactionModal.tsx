@@ -12,17 +12,27 @@ import {
 import { Ionicons } from "@expo/vector-icons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import CustomDatePicker from "./CustomDatePicker";
+import { calculateLtv } from "../services/ValuationService";
+
+// Current loan and collateral, to warn before a diya goes past the limit
+export interface RehanLtvCheck {
+  loanAmount: number; // Principal plus accrued interest
+  collateralValue: number;
+  limitPercent: number;
+}
 
 interface AddRehanTransactionModalProps {
   visible: boolean;
   onClose: () => void;
   onAdd: (amount: number, type: "jama" | "diya", date: Date) => void;
+  ltvCheck?: RehanLtvCheck | null;
 }
 
 const AddRehanTransactionModal: React.FC<AddRehanTransactionModalProps> = ({
   visible,
   onClose,
   onAdd,
+  ltvCheck,
 }) => {
   const insets = useSafeAreaInsets();
   const [amount, setAmount] = useState("");
@@ -50,8 +60,21 @@ const AddRehanTransactionModal: React.FC<AddRehanTransactionModalProps> = ({
     });
   };
 
+  // Loan-to-value after this top-up, if it goes past the limit
+  const amountNum = parseInt(amount, 10) || 0;
+  const projectedLtv =
+    ltvCheck && type === "diya" && amountNum > 0
+      ? calculateLtv(
+          ltvCheck.loanAmount + amountNum,
+          ltvCheck.collateralValue,
+        )
+      : null;
+  const isOverLimit =
+    ltvCheck != null &&
+    projectedLtv !== null &&
+    projectedLtv > ltvCheck.limitPercent;
+
   const handleAdd = () => {
-    const amountNum = parseInt(amount, 10);
     if (amountNum > 0) {
       onAdd(amountNum, type, selectedDate);
       onClose();
@@ -159,6 +182,17 @@ const AddRehanTransactionModal: React.FC<AddRehanTransactionModalProps> = ({
                 <Ionicons name="chevron-down" size={20} color="#999" />
               </TouchableOpacity>
             </View>
+
+            {isOverLimit && (
+              <View style={styles.warningBanner}>
+                <Ionicons name="warning" size={18} color="#E65100" />
+                <Text style={styles.warningText}>
+                  This takes the loan to {projectedLtv!.toFixed(1)}% of the
+                  pledged items' value, above the {ltvCheck!.limitPercent}%
+                  limit.
+                </Text>
+              </View>
+            )}
           </View>
 
           <View
@@ -259,6 +293,20 @@ const styles = StyleSheet.create({
   inputGroup: {
     marginBottom: 20,
   },
+  warningBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#FFF3E0",
+    borderRadius: 12,
+    padding: 12,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#E65100",
+    fontWeight: "500",
+  },
   label: {
     fontSize: 14,
     fontWeight: "600",
@@ -0,0 +1,230 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { AuditLogEntry, AuditEntity, AuditAction } from "../types/entry";
+
+interface AuditHistoryListProps {
+  entries: AuditLogEntry[];
+  emptyText?: string;
+}
+
+const ENTITY_LABELS: Record<AuditEntity, string> = {
+  user: "Customer",
+  rehan: "Rehan",
+  rehan_transaction: "Rehan transaction",
+  rehan_item: "Pledged item",
+  lenden: "Len-Den",
+  lenden_item: "Bill line",
+  jama_entry: "Jama entry",
+  invoice: "GST invoice",
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: "added",
+  update: "updated",
+  delete: "deleted",
+  close: "closed",
+  restore: "restored",
+  purge: "permanently deleted",
+};
+
+const ACTION_ICONS: Record<
+  AuditAction,
+  { name: keyof typeof Ionicons.glyphMap; color: string }
+> = {
+  create: { name: "add-circle", color: "#2E7D32" },
+  update: { name: "create", color: "#007AFF" },
+  delete: { name: "trash", color: "#C62828" },
+  close: { name: "checkmark-circle", color: "#E65100" },
+  restore: { name: "arrow-undo-circle", color: "#007AFF" },
+  purge: { name: "close-circle", color: "#C62828" },
+};
+
+// Columns that only link rows together and aren't worth showing
+const HIDDEN_FIELDS = ["id", "userId", "rehanId", "lendenId"];
+
+const MONEY_FIELDS = ["amount", "discount", "remaining", "jama", "baki"];
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "media" && typeof value === "string") {
+    try {
+      return `${JSON.parse(value).length} photos`;
+    } catch {
+      return value;
+    }
+  }
+  if (MONEY_FIELDS.includes(field) && typeof value === "number") {
+    return `₹${value.toLocaleString()}`;
+  }
+  if (
+    typeof value === "string" &&
+    (field.toLowerCase().includes("date") || field === "createdAt")
+  ) {
+    return new Date(value).toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  }
+  return String(value);
+};
+
+// Turn the before/after snapshots into readable "field: old → new" lines
+const describeChanges = (entry: AuditLogEntry): string[] => {
+  const before: Record<string, unknown> = entry.before
+    ? JSON.parse(entry.before)
+    : {};
+  const after: Record<string, unknown> = entry.after
+    ? JSON.parse(entry.after)
+    : {};
+
+  if (
+    entry.action === "create" ||
+    entry.action === "delete" ||
+    entry.action === "purge"
+  ) {
+    const row = entry.action === "create" ? after : before;
+    return Object.keys(row)
+      .filter((field) => !HIDDEN_FIELDS.includes(field))
+      .filter((field) => row[field] !== null && row[field] !== "")
+      .map((field) => `${field}: ${formatValue(field, row[field])}`);
+  }
+
+  const fields = Array.from(
+    new Set([...Object.keys(before), ...Object.keys(after)]),
+  );
+  return fields
+    .filter((field) => !HIDDEN_FIELDS.includes(field))
+    .filter(
+      (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]),
+    )
+    .map(
+      (field) =>
+        `${field}: ${formatValue(field, before[field])} → ${formatValue(
+          field,
+          after[field],
+        )}`,
+    );
+};
+
+const AuditHistoryList: React.FC<AuditHistoryListProps> = ({
+  entries,
+  emptyText = "No changes recorded yet",
+}) => {
+  if (entries.length === 0) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyText}>{emptyText}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {entries.map((entry) => {
+        const icon = ACTION_ICONS[entry.action];
+        const changes = describeChanges(entry);
+
+        return (
+          <View key={entry.id} style={styles.row}>
+            <Ionicons name={icon.name} size={20} color={icon.color} />
+            <View style={styles.rowContent}>
+              <View style={styles.rowHeader}>
+                <Text style={styles.title}>
+                  {ENTITY_LABELS[entry.entity]} #{entry.entityId}{" "}
+                  {ACTION_LABELS[entry.action]}
+                </Text>
+                <Text style={styles.timestamp}>
+                  {formatDateTime(entry.timestamp)}
+                </Text>
+              </View>
+              {changes.map((change, index) => (
+                <Text key={index} style={styles.changeText}>
+                  {change}
+                </Text>
+              ))}
+              {entry.reason && (
+                <Text style={styles.reasonText}>Reason: {entry.reason}</Text>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    overflow: "hidden",
+  },
+  emptyContainer: {
+    padding: 20,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    borderRadius: 12,
+    borderStyle: "dashed",
+  },
+  emptyText: {
+    color: "#999",
+    fontSize: 14,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  timestamp: {
+    fontSize: 11,
+    color: "#999",
+  },
+  changeText: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  reasonText: {
+    fontSize: 13,
+    color: "#E65100",
+    fontStyle: "italic",
+    marginTop: 4,
+  },
+});
+
+export default AuditHistoryList;
@@ -0,0 +1,347 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { MIN_BACKUP_PASSWORD_LENGTH } from "../services/ExportService";
+
+interface BackupPasswordModalProps {
+  visible: boolean;
+  // "set" asks for a new password (typed twice) before exporting,
+  // "enter" asks for the password of an encrypted backup being imported
+  mode: "set" | "enter";
+  onClose: () => void;
+  onSubmit: (password: string) => void;
+  onSkip?: () => void; // "set" mode only: export without a password
+  isBusy?: boolean;
+  error?: string | null;
+}
+
+const BackupPasswordModal: React.FC<BackupPasswordModalProps> = ({
+  visible,
+  mode,
+  onClose,
+  onSubmit,
+  onSkip,
+  isBusy = false,
+  error,
+}) => {
+  const insets = useSafeAreaInsets();
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+
+  // Start empty every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setPassword("");
+      setConfirm("");
+      setShowPassword(false);
+    }
+  }, [visible]);
+
+  const isSetMode = mode === "set";
+  const isTooShort = password.length < MIN_BACKUP_PASSWORD_LENGTH;
+  const isMismatch = isSetMode && confirm.length > 0 && confirm !== password;
+  const canSubmit = isSetMode
+    ? !isTooShort && confirm === password
+    : password.length > 0;
+
+  const handleSubmit = () => {
+    if (canSubmit && !isBusy) {
+      onSubmit(password);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>
+              {isSetMode ? "Protect Backup" : "Backup Password"}
+            </Text>
+            <TouchableOpacity onPress={onClose} disabled={isBusy}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.body}>
+            <Text style={styles.description}>
+              {isSetMode
+                ? "Set a password to encrypt the backup before sharing it. You will need this password to import it - it cannot be recovered if forgotten."
+                : "This backup is password protected. Enter the password that was set when it was exported."}
+            </Text>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Password</Text>
+              <View style={styles.passwordRow}>
+                <TextInput
+                  style={styles.passwordInput}
+                  placeholder={
+                    isSetMode
+                      ? `At least ${MIN_BACKUP_PASSWORD_LENGTH} characters`
+                      : "Enter password"
+                  }
+                  placeholderTextColor="#999"
+                  value={password}
+                  onChangeText={setPassword}
+                  secureTextEntry={!showPassword}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  autoFocus
+                  onSubmitEditing={isSetMode ? undefined : handleSubmit}
+                />
+                <TouchableOpacity
+                  style={styles.eyeButton}
+                  onPress={() => setShowPassword(!showPassword)}
+                >
+                  <Ionicons
+                    name={showPassword ? "eye-off" : "eye"}
+                    size={20}
+                    color="#666"
+                  />
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            {isSetMode && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Confirm Password</Text>
+                <TextInput
+                  style={[styles.input, isMismatch && styles.inputError]}
+                  placeholder="Type the password again"
+                  placeholderTextColor="#999"
+                  value={confirm}
+                  onChangeText={setConfirm}
+                  secureTextEntry={!showPassword}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  onSubmitEditing={handleSubmit}
+                />
+                {isMismatch && (
+                  <Text style={styles.errorText}>Passwords don't match</Text>
+                )}
+              </View>
+            )}
+
+            {error ? (
+              <View style={styles.errorBanner}>
+                <Ionicons name="alert-circle" size={18} color="#C62828" />
+                <Text style={styles.errorBannerText}>{error}</Text>
+              </View>
+            ) : null}
+
+            {isSetMode && onSkip && (
+              <TouchableOpacity
+                style={styles.skipButton}
+                onPress={onSkip}
+                disabled={isBusy}
+              >
+                <Text style={styles.skipButtonText}>
+                  Export without password
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View
+            style={[
+              styles.footer,
+              { paddingBottom: Math.max(insets.bottom, 20) },
+            ]}
+          >
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={onClose}
+              disabled={isBusy}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.submitButton,
+                (!canSubmit || isBusy) && styles.submitButtonDisabled,
+              ]}
+              onPress={handleSubmit}
+              disabled={!canSubmit || isBusy}
+            >
+              {isBusy ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <>
+                  <Ionicons
+                    name={isSetMode ? "lock-closed" : "lock-open"}
+                    size={18}
+                    color="#fff"
+                  />
+                  <Text style={styles.submitButtonText}>
+                    {isSetMode ? "Encrypt & Export" : "Unlock"}
+                  </Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  body: {
+    padding: 20,
+  },
+  description: {
+    fontSize: 14,
+    color: "#666",
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#444",
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: "#F8F9FA",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    color: "#1A1A1A",
+  },
+  inputError: {
+    borderColor: "#C62828",
+  },
+  passwordRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#F8F9FA",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+  },
+  passwordInput: {
+    flex: 1,
+    padding: 14,
+    fontSize: 16,
+    color: "#1A1A1A",
+  },
+  eyeButton: {
+    paddingHorizontal: 14,
+  },
+  errorText: {
+    fontSize: 12,
+    color: "#C62828",
+    marginTop: 6,
+  },
+  errorBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#FFEBEE",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 20,
+  },
+  errorBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#C62828",
+    fontWeight: "500",
+  },
+  skipButton: {
+    alignItems: "center",
+    paddingVertical: 4,
+  },
+  skipButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#007AFF",
+  },
+  footer: {
+    flexDirection: "row",
+    padding: 20,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F2F5",
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#F0F2F5",
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#666",
+  },
+  submitButton: {
+    flex: 1,
+    flexDirection: "row",
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#007AFF",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  submitButtonDisabled: {
+    backgroundColor: "#A8CCF5",
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#fff",
+  },
+});
+
+export default BackupPasswordModal;
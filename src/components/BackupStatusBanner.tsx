@@ -0,0 +1,101 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { LocalBackup } from "../services/BackupService";
+
+interface BackupStatusBannerProps {
+  backup: LocalBackup | null;
+  isStale: boolean;
+  onPress: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "today, 10:30 am" / "yesterday" / "5 days ago"
+const describeAge = (dateString: string) => {
+  const date = new Date(dateString);
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
+  if (date.getTime() >= startOfToday.getTime()) {
+    return `today, ${date.toLocaleTimeString("en-IN", {
+      hour: "2-digit",
+      minute: "2-digit",
+    })}`;
+  }
+  const days = Math.ceil((startOfToday.getTime() - date.getTime()) / DAY_MS);
+  return days === 1 ? "yesterday" : `${days} days ago`;
+};
+
+const BackupStatusBanner: React.FC<BackupStatusBannerProps> = ({
+  backup,
+  isStale,
+  onPress,
+}) => {
+  return (
+    <TouchableOpacity
+      style={[styles.container, isStale ? styles.stale : styles.fresh]}
+      onPress={onPress}
+      activeOpacity={0.8}
+    >
+      <Ionicons
+        name={isStale ? "warning" : "shield-checkmark"}
+        size={20}
+        color={isStale ? "#C62828" : "#2E7D32"}
+      />
+      <View style={styles.content}>
+        <Text style={[styles.title, isStale && styles.titleStale]}>
+          {backup
+            ? `Last backup: ${describeAge(backup.createdAt)}`
+            : "No backup yet"}
+        </Text>
+        {isStale && (
+          <Text style={styles.subtitle}>Tap to back up your data now</Text>
+        )}
+      </View>
+      <Ionicons
+        name="chevron-forward"
+        size={18}
+        color={isStale ? "#C62828" : "#2E7D32"}
+      />
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  fresh: {
+    backgroundColor: "#E8F5E9",
+    borderColor: "#C8E6C9",
+  },
+  stale: {
+    backgroundColor: "#FFEBEE",
+    borderColor: "#FFCDD2",
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#2E7D32",
+  },
+  titleStale: {
+    color: "#C62828",
+  },
+  subtitle: {
+    fontSize: 12,
+    color: "#C62828",
+    marginTop: 2,
+  },
+});
+
+export default BackupStatusBanner;
@@ -1,6 +1,8 @@
 import React from "react";
 import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
+import { LendenItem, NewLendenItem } from "../types/entry";
+import { priceLendenItem } from "../services/BillingService";
 
 interface JamaEntryDisplay {
   id?: number;
@@ -11,20 +13,27 @@ interface JamaEntryDisplay {
 interface BillTableProps {
   amount: number;
   discount: number;
+  items?: (LendenItem | NewLendenItem)[]; // Lines the amount is made of
   jamaEntries: JamaEntryDisplay[];
   onAddJama?: () => void;
   onDeleteJama?: (index: number) => void;
   onEditJama?: (index: number) => void;
+  onRemoveItem?: (index: number) => void;
   editable?: boolean;
 }
 
+const formatWeight = (grams: number) =>
+  `${grams.toLocaleString("en-IN", { maximumFractionDigits: 3 })} g`;
+
 const BillTable: React.FC<BillTableProps> = ({
   amount,
   discount,
+  items = [],
   jamaEntries,
   onAddJama,
   onDeleteJama,
   onEditJama,
+  onRemoveItem,
   editable = false,
 }) => {
   const remaining = amount - discount;
@@ -50,6 +59,48 @@ const BillTable: React.FC<BillTableProps> = ({
         <Text style={styles.headerText}>Bill Summary</Text>
       </View>
 
+      {/* Bill lines - weight × rate plus charges */}
+      {items.map((item, index) => {
+        const line = priceLendenItem(item);
+        const weight = item.netWeight ?? item.grossWeight ?? 0;
+        const charges = [
+          { label: "making", value: line.making },
+          { label: "wastage", value: line.wastage },
+          { label: "stones", value: line.stoneCharges },
+        ]
+          .filter((charge) => charge.value > 0)
+          .map((charge) => `${charge.label} ₹${charge.value.toLocaleString()}`);
+        return (
+          <View key={index} style={styles.itemRow}>
+            <View style={styles.itemInfo}>
+              <Text style={styles.itemName}>
+                {item.description}
+                {item.purity ? ` (${item.purity})` : ""}
+              </Text>
+              <Text style={styles.itemDetail}>
+                {formatWeight(weight)} × ₹{item.rate.toLocaleString()}/g
+              </Text>
+              {charges.length > 0 && (
+                <Text style={styles.itemDetail}>+ {charges.join(", ")}</Text>
+              )}
+            </View>
+            <View style={styles.jamaAmountContainer}>
+              <Text style={styles.value}>
+                ₹{item.amount.toLocaleString()}
+              </Text>
+              {editable && onRemoveItem && (
+                <TouchableOpacity
+                  style={styles.deleteButton}
+                  onPress={() => onRemoveItem(index)}
+                >
+                  <Ionicons name="close-circle" size={20} color="#FF3B30" />
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        );
+      })}
+
       {/* Amount Row */}
       <View style={styles.row}>
         <Text style={styles.label}>Amount</Text>
@@ -203,6 +254,29 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#1A1A1A",
   },
+  itemRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  itemDetail: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
   discountValue: {
     color: "#F9A825",
   },
@@ -0,0 +1,508 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { NewRehanSettlement, Rehan, RehanTransaction } from "../types/entry";
+import { calculateRehanInterest } from "../services/InterestService";
+import CustomDatePicker from "./CustomDatePicker";
+
+interface CloseRehanModalProps {
+  visible: boolean;
+  rehan: Rehan;
+  transactions: RehanTransaction[];
+  heldItemCount: number; // Items handed back on closing
+  onClose: () => void;
+  onSettle: (settlement: Omit<NewRehanSettlement, "rehanId">) => void;
+}
+
+type Step = "dues" | "settle";
+
+const CloseRehanModal: React.FC<CloseRehanModalProps> = ({
+  visible,
+  rehan,
+  transactions,
+  heldItemCount,
+  onClose,
+  onSettle,
+}) => {
+  const insets = useSafeAreaInsets();
+  const [step, setStep] = useState<Step>("dues");
+  const [selectedDate, setSelectedDate] = useState(new Date());
+  const [paid, setPaid] = useState("");
+  const [writeOff, setWriteOff] = useState(false);
+  const [reason, setReason] = useState("");
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  // Start from today's dues every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setStep("dues");
+      setSelectedDate(new Date());
+      setPaid("");
+      setWriteOff(false);
+      setReason("");
+    }
+  }, [visible]);
+
+  // Can't be backdated to before the last recorded transaction
+  const minDate = transactions.reduce((latest, t) => {
+    const date = new Date(t.date);
+    return date > latest ? date : latest;
+  }, new Date(rehan.openDate));
+
+  const summary = calculateRehanInterest(rehan, transactions, selectedDate);
+  const paidNum = parseInt(paid, 10) || 0;
+  const balance = summary.total - paidNum;
+  const isOverpaid = balance < 0;
+  const canClose =
+    !isOverpaid && (balance === 0 || (writeOff && reason.trim().length > 0));
+
+  const formatDisplayDate = (date: Date) => {
+    return date.toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const goToSettle = () => {
+    setPaid(summary.total.toString());
+    setWriteOff(false);
+    setStep("settle");
+  };
+
+  const handleClose = () => {
+    if (!canClose) return;
+    onSettle({
+      date: selectedDate.toISOString(),
+      paid: paidNum,
+      reason: reason.trim() || undefined,
+    });
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <View>
+              <Text style={styles.title}>Close Rehan</Text>
+              <Text style={styles.stepText}>
+                Step {step === "dues" ? 1 : 2} of 2 ·{" "}
+                {step === "dues" ? "Dues" : "Settlement"}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.body}
+            contentContainerStyle={styles.bodyContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            {step === "dues" ? (
+              <>
+                {/* Closing date */}
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Closing Date</Text>
+                  <TouchableOpacity
+                    style={styles.dateButton}
+                    onPress={() => setShowDatePicker(true)}
+                  >
+                    <Ionicons name="calendar" size={20} color="#007AFF" />
+                    <Text style={styles.dateButtonText}>
+                      {formatDisplayDate(selectedDate)}
+                    </Text>
+                    <Ionicons name="chevron-down" size={20} color="#999" />
+                  </TouchableOpacity>
+                </View>
+
+                {/* Dues on the closing date */}
+                <View style={styles.summaryCard}>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Principal</Text>
+                    <Text style={styles.summaryValue}>
+                      ₹{summary.principal.toLocaleString()}
+                    </Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Interest</Text>
+                    <Text style={styles.summaryValue}>
+                      ₹{summary.interest.toLocaleString()}
+                    </Text>
+                  </View>
+                  <View style={[styles.summaryRow, styles.summaryTotalRow]}>
+                    <Text style={styles.summaryTotalLabel}>Total Due</Text>
+                    <Text style={styles.summaryTotalValue}>
+                      ₹{summary.total.toLocaleString()}
+                    </Text>
+                  </View>
+                </View>
+
+                {heldItemCount > 0 && (
+                  <Text style={styles.infoText}>
+                    {heldItemCount} pledged item
+                    {heldItemCount === 1 ? "" : "s"} will be marked as handed
+                    back.
+                  </Text>
+                )}
+              </>
+            ) : (
+              <>
+                {/* Final jama */}
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Final Jama (₹)</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="0 if nothing was paid"
+                    placeholderTextColor="#999"
+                    value={paid}
+                    onChangeText={(text) =>
+                      setPaid(text.replace(/[^0-9]/g, ""))
+                    }
+                    keyboardType="numeric"
+                  />
+                  <Text style={styles.hintText}>
+                    Total due ₹{summary.total.toLocaleString()} on{" "}
+                    {formatDisplayDate(selectedDate)}
+                  </Text>
+                </View>
+
+                {isOverpaid && (
+                  <Text style={styles.errorText}>
+                    The jama is more than the total due.
+                  </Text>
+                )}
+
+                {/* Whatever is left must be written off with a reason */}
+                {balance > 0 && (
+                  <View style={styles.inputGroup}>
+                    <View style={styles.balanceRow}>
+                      <Text style={styles.balanceLabel}>Balance Left</Text>
+                      <Text style={styles.balanceValue}>
+                        ₹{balance.toLocaleString()}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      style={[
+                        styles.writeOffRow,
+                        writeOff && styles.writeOffRowActive,
+                      ]}
+                      onPress={() => setWriteOff(!writeOff)}
+                    >
+                      <Ionicons
+                        name={writeOff ? "checkbox" : "square-outline"}
+                        size={22}
+                        color={writeOff ? "#E65100" : "#999"}
+                      />
+                      <Text style={styles.writeOffText}>
+                        Waive / write off ₹{balance.toLocaleString()}
+                      </Text>
+                    </TouchableOpacity>
+                    {writeOff ? (
+                      <TextInput
+                        style={[styles.input, styles.reasonInput]}
+                        placeholder="Reason (required)"
+                        placeholderTextColor="#999"
+                        value={reason}
+                        onChangeText={setReason}
+                      />
+                    ) : (
+                      <Text style={styles.errorText}>
+                        The Rehan can't be closed while a balance remains.
+                      </Text>
+                    )}
+                  </View>
+                )}
+              </>
+            )}
+          </ScrollView>
+
+          <View
+            style={[
+              styles.footer,
+              { paddingBottom: Math.max(insets.bottom, 20) },
+            ]}
+          >
+            {step === "dues" ? (
+              <>
+                <TouchableOpacity
+                  style={styles.cancelButton}
+                  onPress={onClose}
+                >
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.primaryButton}
+                  onPress={goToSettle}
+                >
+                  <Text style={styles.primaryButtonText}>Next</Text>
+                  <Ionicons name="arrow-forward" size={20} color="#fff" />
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={styles.cancelButton}
+                  onPress={() => setStep("dues")}
+                >
+                  <Text style={styles.cancelButtonText}>Back</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.primaryButton,
+                    styles.closeButton,
+                    !canClose && styles.closeButtonDisabled,
+                  ]}
+                  onPress={handleClose}
+                  disabled={!canClose}
+                >
+                  <Ionicons name="checkmark-circle" size={20} color="#fff" />
+                  <Text style={styles.primaryButtonText}>Close Rehan</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+
+      <CustomDatePicker
+        visible={showDatePicker}
+        selectedDate={selectedDate}
+        onClose={() => setShowDatePicker(false)}
+        onDateSelect={(date) => {
+          setSelectedDate(date);
+          setShowDatePicker(false);
+        }}
+        minimumDate={minDate}
+        maximumDate={new Date()}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: "90%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  stepText: {
+    fontSize: 13,
+    color: "#999",
+    marginTop: 2,
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#444",
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: "#F8F9FA",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    color: "#1A1A1A",
+  },
+  reasonInput: {
+    marginTop: 10,
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 6,
+  },
+  infoText: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 10,
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#C62828",
+    marginTop: 6,
+    marginBottom: 10,
+  },
+  summaryCard: {
+    backgroundColor: "#F8F9FA",
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 20,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: "#666",
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  summaryTotalRow: {
+    marginTop: 6,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#E5E5E5",
+  },
+  summaryTotalLabel: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  summaryTotalValue: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#C62828",
+  },
+  balanceRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  balanceLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#444",
+  },
+  balanceValue: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#E65100",
+  },
+  writeOffRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+  },
+  writeOffRowActive: {
+    borderColor: "#E65100",
+    backgroundColor: "#FFF3E0",
+  },
+  writeOffText: {
+    flex: 1,
+    fontSize: 15,
+    color: "#1A1A1A",
+  },
+  dateButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: "#F0F7FF",
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#D0E4FF",
+  },
+  dateButtonText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  footer: {
+    flexDirection: "row",
+    padding: 20,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F2F5",
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#F0F2F5",
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#666",
+  },
+  primaryButton: {
+    flex: 1,
+    flexDirection: "row",
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#007AFF",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  closeButton: {
+    backgroundColor: "#F44336",
+  },
+  closeButtonDisabled: {
+    backgroundColor: "#F8A5A0",
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#fff",
+  },
+});
+
+export default CloseRehanModal;
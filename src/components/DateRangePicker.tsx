@@ -0,0 +1,230 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ReportDateRange } from "../database/entryDatabase";
+import CustomDatePicker from "./CustomDatePicker";
+
+interface DateRangePickerProps {
+  fromDate: Date;
+  toDate: Date;
+  onChange: (from: Date, to: Date) => void;
+}
+
+// Earliest date the range can start from
+const MIN_DATE = new Date(2000, 0, 1);
+
+interface RangePreset {
+  label: string;
+  getRange: () => [Date, Date];
+}
+
+// Financial year starts on 1 April
+const getFinancialYearStart = (date: Date) => {
+  const year = date.getFullYear();
+  return new Date(date.getMonth() >= 3 ? year : year - 1, 3, 1);
+};
+
+export const DATE_RANGE_PRESETS: RangePreset[] = [
+  {
+    label: "This Month",
+    getRange: () => {
+      const today = new Date();
+      return [new Date(today.getFullYear(), today.getMonth(), 1), today];
+    },
+  },
+  {
+    label: "Last Month",
+    getRange: () => {
+      const today = new Date();
+      return [
+        new Date(today.getFullYear(), today.getMonth() - 1, 1),
+        new Date(today.getFullYear(), today.getMonth(), 0),
+      ];
+    },
+  },
+  {
+    label: "This FY",
+    getRange: () => [getFinancialYearStart(new Date()), new Date()],
+  },
+  {
+    label: "Last FY",
+    getRange: () => {
+      const start = getFinancialYearStart(new Date());
+      return [
+        new Date(start.getFullYear() - 1, 3, 1),
+        new Date(start.getFullYear(), 2, 31),
+      ];
+    },
+  },
+  {
+    label: "All Time",
+    getRange: () => [MIN_DATE, new Date()],
+  },
+];
+
+/**
+ * Whole days: from the start of the first to the end of the last.
+ */
+export const toReportDateRange = (from: Date, to: Date): ReportDateRange => {
+  const start = new Date(from);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(to);
+  end.setHours(23, 59, 59, 999);
+  return { from: start.toISOString(), to: end.toISOString() };
+};
+
+const DateRangePicker: React.FC<DateRangePickerProps> = ({
+  fromDate,
+  toDate,
+  onChange,
+}) => {
+  const [activePreset, setActivePreset] = useState<string | null>(() => {
+    // Highlight the preset the starting range came from, if any
+    const match = DATE_RANGE_PRESETS.find((preset) => {
+      const [from, to] = preset.getRange();
+      return (
+        from.toDateString() === fromDate.toDateString() &&
+        to.toDateString() === toDate.toDateString()
+      );
+    });
+    return match ? match.label : null;
+  });
+  const [pickingField, setPickingField] = useState<"from" | "to" | null>(
+    null,
+  );
+
+  const formatDisplayDate = (date: Date) => {
+    return date.toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const handlePreset = (preset: RangePreset) => {
+    const [from, to] = preset.getRange();
+    onChange(from, to);
+    setActivePreset(preset.label);
+  };
+
+  const handleDateSelect = (date: Date) => {
+    if (pickingField === "from") {
+      onChange(date, date > toDate ? date : toDate);
+    } else {
+      onChange(date < fromDate ? date : fromDate, date);
+    }
+    setActivePreset(null);
+    setPickingField(null);
+  };
+
+  const renderDateButton = (field: "from" | "to", date: Date) => (
+    <TouchableOpacity
+      style={styles.dateButton}
+      onPress={() => setPickingField(field)}
+    >
+      <Text style={styles.dateLabel}>{field === "from" ? "From" : "To"}</Text>
+      <View style={styles.dateValueRow}>
+        <Ionicons name="calendar" size={18} color="#007AFF" />
+        <Text style={styles.dateValue}>{formatDisplayDate(date)}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <View style={styles.presetRow}>
+        {DATE_RANGE_PRESETS.map((preset) => (
+          <TouchableOpacity
+            key={preset.label}
+            style={[
+              styles.presetChip,
+              activePreset === preset.label && styles.presetChipActive,
+            ]}
+            onPress={() => handlePreset(preset)}
+          >
+            <Text
+              style={[
+                styles.presetText,
+                activePreset === preset.label && styles.presetTextActive,
+              ]}
+            >
+              {preset.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <View style={styles.dateRow}>
+        {renderDateButton("from", fromDate)}
+        {renderDateButton("to", toDate)}
+      </View>
+
+      <CustomDatePicker
+        visible={pickingField !== null}
+        selectedDate={pickingField === "to" ? toDate : fromDate}
+        onClose={() => setPickingField(null)}
+        onDateSelect={handleDateSelect}
+        minimumDate={MIN_DATE}
+        maximumDate={new Date()}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  presetRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  presetChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+  },
+  presetChipActive: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  presetText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#444",
+  },
+  presetTextActive: {
+    color: "#fff",
+  },
+  dateRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginBottom: 24,
+  },
+  dateButton: {
+    flex: 1,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    padding: 12,
+  },
+  dateLabel: {
+    fontSize: 12,
+    color: "#999",
+    marginBottom: 4,
+  },
+  dateValueRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  dateValue: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+});
+
+export default DateRangePicker;
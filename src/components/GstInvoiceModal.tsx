@@ -0,0 +1,446 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import {
+  GST_RATE_PERCENT,
+  GST_STATES,
+  InvoiceDetails,
+  amountInWords,
+  getGstinStateCode,
+  isValidGstin,
+  isValidPan,
+  splitGst,
+} from "../services/GstService";
+import CustomDatePicker from "./CustomDatePicker";
+
+interface GstInvoiceModalProps {
+  visible: boolean;
+  billAmount: number; // Bill amount less discount, GST included
+  billDate: string; // The invoice can't be dated before the bill
+  shopGstin: string;
+  lastGstin?: string | null; // From the customer's previous invoice
+  lastPan?: string | null;
+  onClose: () => void;
+  onCreate: (details: InvoiceDetails) => void;
+}
+
+// GSTIN and PAN are upper case letters and digits only
+const parseCode = (text: string) =>
+  text.toUpperCase().replace(/[^0-9A-Z]/g, "");
+
+const GstInvoiceModal: React.FC<GstInvoiceModalProps> = ({
+  visible,
+  billAmount,
+  billDate,
+  shopGstin,
+  lastGstin,
+  lastPan,
+  onClose,
+  onCreate,
+}) => {
+  const insets = useSafeAreaInsets();
+  const shopStateCode = getGstinStateCode(shopGstin) || "";
+  const [date, setDate] = useState(new Date());
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [gstin, setGstin] = useState("");
+  const [pan, setPan] = useState("");
+  const [stateCode, setStateCode] = useState("");
+
+  // Start from today, with the customer's details from their last invoice
+  useEffect(() => {
+    if (visible) {
+      setDate(new Date());
+      setGstin(lastGstin || "");
+      setPan(lastPan || "");
+      setStateCode(shopStateCode);
+    }
+  }, [visible]);
+
+  const formatDisplayDate = (value: Date) => {
+    return value.toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const isGstinInvalid = gstin.length > 0 && !isValidGstin(gstin);
+  const isPanInvalid = pan.length > 0 && !isValidPan(pan);
+  // A registered buyer's place of supply is the state of their GSTIN
+  const placeOfSupply = getGstinStateCode(gstin) || stateCode;
+  const isStateValid = placeOfSupply in GST_STATES;
+  const isInterState = placeOfSupply !== shopStateCode;
+  const breakup = splitGst(billAmount, isInterState);
+  const canCreate =
+    billAmount > 0 && !isGstinInvalid && !isPanInvalid && isStateValid;
+
+  const handleCreate = () => {
+    if (!canCreate) return;
+    onCreate({
+      date: date.toISOString(),
+      customerGstin: gstin || undefined,
+      customerPan: pan || undefined,
+      placeOfSupply,
+    });
+    onClose();
+  };
+
+  const renderRow = (label: string, value: number) => (
+    <View style={styles.summaryRow}>
+      <Text style={styles.summaryLabel}>{label}</Text>
+      <Text style={styles.summaryValue}>
+        ₹
+        {value.toLocaleString("en-IN", {
+          minimumFractionDigits: 2,
+          maximumFractionDigits: 2,
+        })}
+      </Text>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>GST Invoice</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.body}
+            contentContainerStyle={styles.bodyContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            {/* Invoice date */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Invoice Date</Text>
+              <TouchableOpacity
+                style={styles.dateButton}
+                onPress={() => setShowDatePicker(true)}
+              >
+                <Ionicons name="calendar" size={20} color="#007AFF" />
+                <Text style={styles.dateButtonText}>
+                  {formatDisplayDate(date)}
+                </Text>
+                <Ionicons name="chevron-down" size={20} color="#999" />
+              </TouchableOpacity>
+            </View>
+
+            {/* Buyer */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Customer GSTIN</Text>
+              <TextInput
+                style={[styles.input, isGstinInvalid && styles.inputError]}
+                placeholder="Leave empty for an unregistered buyer"
+                placeholderTextColor="#999"
+                value={gstin}
+                onChangeText={(text) => setGstin(parseCode(text))}
+                autoCapitalize="characters"
+                maxLength={15}
+              />
+              {isGstinInvalid && (
+                <Text style={styles.errorText}>
+                  Enter the full 15-character GSTIN
+                </Text>
+              )}
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Customer PAN</Text>
+              <TextInput
+                style={[styles.input, isPanInvalid && styles.inputError]}
+                placeholder="Optional"
+                placeholderTextColor="#999"
+                value={pan}
+                onChangeText={(text) => setPan(parseCode(text))}
+                autoCapitalize="characters"
+                maxLength={10}
+              />
+              {isPanInvalid && (
+                <Text style={styles.errorText}>
+                  A PAN is 5 letters, 4 digits and a letter
+                </Text>
+              )}
+            </View>
+
+            {/* Place of supply */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Place of Supply (State Code)</Text>
+              <TextInput
+                style={[
+                  styles.input,
+                  !isStateValid && styles.inputError,
+                  !!getGstinStateCode(gstin) && styles.inputDisabled,
+                ]}
+                placeholder={shopStateCode || "00"}
+                placeholderTextColor="#999"
+                value={placeOfSupply}
+                onChangeText={(text) =>
+                  setStateCode(text.replace(/[^0-9]/g, ""))
+                }
+                keyboardType="numeric"
+                maxLength={2}
+                editable={!getGstinStateCode(gstin)}
+              />
+              <Text style={isStateValid ? styles.hintText : styles.errorText}>
+                {isStateValid
+                  ? `${GST_STATES[placeOfSupply]} · ${
+                      isInterState ? "IGST" : "CGST + SGST"
+                    }`
+                  : "Unknown state code"}
+              </Text>
+            </View>
+
+            {/* Tax breakup */}
+            <View style={styles.summaryCard}>
+              {renderRow("Taxable Value", breakup.taxableValue)}
+              {isInterState ? (
+                renderRow(`IGST @ ${GST_RATE_PERCENT}%`, breakup.igst)
+              ) : (
+                <>
+                  {renderRow(`CGST @ ${GST_RATE_PERCENT / 2}%`, breakup.cgst)}
+                  {renderRow(`SGST @ ${GST_RATE_PERCENT / 2}%`, breakup.sgst)}
+                </>
+              )}
+              <View style={[styles.summaryRow, styles.summaryTotalRow]}>
+                <Text style={styles.summaryTotalLabel}>Invoice Total</Text>
+                <Text style={styles.summaryTotalValue}>
+                  ₹{breakup.total.toLocaleString("en-IN")}
+                </Text>
+              </View>
+              <Text style={styles.wordsText}>
+                {amountInWords(breakup.total)}
+              </Text>
+            </View>
+            <Text style={styles.hintText}>
+              The bill amount includes GST. The invoice takes the next number
+              of its financial year and can't be changed once issued.
+            </Text>
+          </ScrollView>
+
+          <View
+            style={[
+              styles.footer,
+              { paddingBottom: Math.max(insets.bottom, 20) },
+            ]}
+          >
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.createButton,
+                !canCreate && styles.createButtonDisabled,
+              ]}
+              onPress={handleCreate}
+              disabled={!canCreate}
+            >
+              <Ionicons name="receipt-outline" size={20} color="#fff" />
+              <Text style={styles.createButtonText}>Issue Invoice</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+
+      <CustomDatePicker
+        visible={showDatePicker}
+        selectedDate={date}
+        onClose={() => setShowDatePicker(false)}
+        onDateSelect={(value) => {
+          setDate(value);
+          setShowDatePicker(false);
+        }}
+        minimumDate={new Date(billDate)}
+        maximumDate={new Date()}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: "90%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#444",
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: "#F8F9FA",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    color: "#1A1A1A",
+  },
+  inputError: {
+    borderColor: "#C62828",
+  },
+  inputDisabled: {
+    color: "#666",
+  },
+  errorText: {
+    fontSize: 12,
+    color: "#C62828",
+    marginTop: 6,
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 6,
+  },
+  dateButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: "#F0F7FF",
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#D0E4FF",
+  },
+  dateButtonText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  summaryCard: {
+    backgroundColor: "#F8F9FA",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    padding: 14,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: "#666",
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#1A1A1A",
+  },
+  summaryTotalRow: {
+    marginTop: 6,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#E5E5E5",
+  },
+  summaryTotalLabel: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  summaryTotalValue: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#2E7D32",
+  },
+  wordsText: {
+    fontSize: 12,
+    fontStyle: "italic",
+    color: "#666",
+    marginTop: 8,
+  },
+  footer: {
+    flexDirection: "row",
+    padding: 20,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F2F5",
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#F0F2F5",
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#666",
+  },
+  createButton: {
+    flex: 1,
+    flexDirection: "row",
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#007AFF",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  createButtonDisabled: {
+    backgroundColor: "#A0C4FF",
+  },
+  createButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#fff",
+  },
+});
+
+export default GstInvoiceModal;
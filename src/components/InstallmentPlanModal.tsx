@@ -0,0 +1,362 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { InstallmentFrequency, InstallmentPlan } from "../types/entry";
+import { INSTALLMENT_FREQUENCY_LABELS } from "../services/InstallmentService";
+import CustomDatePicker from "./CustomDatePicker";
+
+interface InstallmentPlanModalProps {
+  visible: boolean;
+  plan: InstallmentPlan | null; // Current plan when editing
+  totalAmount: number; // Lenden remaining, to preview each installment
+  onClose: () => void;
+  onSave: (plan: InstallmentPlan) => void;
+  onRemove: () => void;
+}
+
+const FREQUENCIES = Object.keys(
+  INSTALLMENT_FREQUENCY_LABELS,
+) as InstallmentFrequency[];
+
+const InstallmentPlanModal: React.FC<InstallmentPlanModalProps> = ({
+  visible,
+  plan,
+  totalAmount,
+  onClose,
+  onSave,
+  onRemove,
+}) => {
+  const insets = useSafeAreaInsets();
+  const [count, setCount] = useState("");
+  const [frequency, setFrequency] = useState<InstallmentFrequency>("monthly");
+  const [firstDueDate, setFirstDueDate] = useState(new Date());
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  // Start from the current plan, or a blank monthly plan
+  useEffect(() => {
+    if (visible) {
+      setCount(plan ? plan.count.toString() : "");
+      setFrequency(plan ? plan.frequency : "monthly");
+      setFirstDueDate(plan ? new Date(plan.firstDueDate) : new Date());
+    }
+  }, [visible]);
+
+  const minDate = new Date();
+  minDate.setFullYear(minDate.getFullYear() - 15);
+  const maxDate = new Date();
+  maxDate.setFullYear(maxDate.getFullYear() + 5);
+
+  const countNum = parseInt(count, 10) || 0;
+
+  const formatDisplayDate = (date: Date) => {
+    return date.toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const handleSave = () => {
+    if (countNum > 0) {
+      onSave({
+        count: countNum,
+        frequency,
+        firstDueDate: firstDueDate.toISOString(),
+      });
+      onClose();
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>
+              {plan ? "Edit Installment Plan" : "Set Installment Plan"}
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.body}>
+            {/* Number of installments */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                Installments <Text style={styles.required}>*</Text>
+              </Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Number of installments"
+                placeholderTextColor="#999"
+                value={count}
+                onChangeText={(text) => setCount(text.replace(/[^0-9]/g, ""))}
+                keyboardType="numeric"
+              />
+              {countNum > 0 && (
+                <Text style={styles.hintText}>
+                  ₹{Math.floor(totalAmount / countNum).toLocaleString()} each
+                  on ₹{totalAmount.toLocaleString()}
+                </Text>
+              )}
+            </View>
+
+            {/* Frequency */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Frequency</Text>
+              <View style={styles.chipRow}>
+                {FREQUENCIES.map((value) => (
+                  <TouchableOpacity
+                    key={value}
+                    style={[
+                      styles.chip,
+                      frequency === value && styles.chipActive,
+                    ]}
+                    onPress={() => setFrequency(value)}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        frequency === value && styles.chipTextActive,
+                      ]}
+                    >
+                      {INSTALLMENT_FREQUENCY_LABELS[value]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {/* First due date */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>First Due Date</Text>
+              <TouchableOpacity
+                style={styles.dateButton}
+                onPress={() => setShowDatePicker(true)}
+              >
+                <Ionicons name="calendar" size={20} color="#007AFF" />
+                <Text style={styles.dateButtonText}>
+                  {formatDisplayDate(firstDueDate)}
+                </Text>
+                <Ionicons name="chevron-down" size={20} color="#999" />
+              </TouchableOpacity>
+            </View>
+
+            {plan && (
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={() => {
+                  onRemove();
+                  onClose();
+                }}
+              >
+                <Ionicons name="trash-outline" size={18} color="#C62828" />
+                <Text style={styles.removeButtonText}>Remove Plan</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View
+            style={[
+              styles.footer,
+              { paddingBottom: Math.max(insets.bottom, 20) },
+            ]}
+          >
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.saveButton,
+                countNum === 0 && styles.saveButtonDisabled,
+              ]}
+              onPress={handleSave}
+              disabled={countNum === 0}
+            >
+              <Ionicons name="checkmark" size={20} color="#fff" />
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+
+      <CustomDatePicker
+        visible={showDatePicker}
+        selectedDate={firstDueDate}
+        onClose={() => setShowDatePicker(false)}
+        onDateSelect={(date) => {
+          setFirstDueDate(date);
+          setShowDatePicker(false);
+        }}
+        minimumDate={minDate}
+        maximumDate={maxDate}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  body: {
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#444",
+    marginBottom: 8,
+  },
+  required: {
+    color: "#FF3B30",
+  },
+  input: {
+    backgroundColor: "#F8F9FA",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    color: "#1A1A1A",
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 6,
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#F8F9FA",
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+  },
+  chipActive: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#444",
+  },
+  chipTextActive: {
+    color: "#fff",
+  },
+  dateButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: "#F0F7FF",
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#D0E4FF",
+  },
+  dateButtonText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  removeButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 10,
+  },
+  removeButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#C62828",
+  },
+  footer: {
+    flexDirection: "row",
+    padding: 20,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F2F5",
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#F0F2F5",
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#666",
+  },
+  saveButton: {
+    flex: 1,
+    flexDirection: "row",
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#007AFF",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  saveButtonDisabled: {
+    backgroundColor: "#A0C4FF",
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#fff",
+  },
+});
+
+export default InstallmentPlanModal;
@@ -0,0 +1,198 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import {
+  INSTALLMENT_STATUS_LABELS,
+  Installment,
+  InstallmentStatus,
+} from "../services/InstallmentService";
+
+interface InstallmentScheduleTableProps {
+  installments: Installment[];
+}
+
+const STATUS_COLORS: Record<
+  InstallmentStatus,
+  { background: string; text: string }
+> = {
+  onTime: { background: "#E8F5E9", text: "#2E7D32" },
+  late: { background: "#FFF3E0", text: "#E65100" },
+  missed: { background: "#FFEBEE", text: "#C62828" },
+  upcoming: { background: "#F0F2F5", text: "#666" },
+};
+
+const InstallmentScheduleTable: React.FC<InstallmentScheduleTableProps> = ({
+  installments,
+}) => {
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "2-digit",
+    });
+  };
+
+  const counts: Record<InstallmentStatus, number> = {
+    onTime: 0,
+    late: 0,
+    missed: 0,
+    upcoming: 0,
+  };
+  for (const installment of installments) {
+    counts[installment.status] += 1;
+  }
+
+  return (
+    <View>
+      <View style={styles.countsRow}>
+        {(Object.keys(counts) as InstallmentStatus[]).map((status) => (
+          <View key={status} style={styles.countItem}>
+            <Text
+              style={[styles.countValue, { color: STATUS_COLORS[status].text }]}
+            >
+              {counts[status]}
+            </Text>
+            <Text style={styles.countLabel}>
+              {INSTALLMENT_STATUS_LABELS[status]}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.container}>
+        <View style={styles.headerRow}>
+          <Text style={[styles.headerCell, styles.numberCol]}>#</Text>
+          <Text style={[styles.headerCell, styles.dateCol]}>Due</Text>
+          <Text style={[styles.headerCell, styles.amountCol]}>Amount</Text>
+          <Text style={[styles.headerCell, styles.statusCol]}>Status</Text>
+        </View>
+
+        {installments.map((installment) => {
+          const colors = STATUS_COLORS[installment.status];
+          const isPartlyPaid =
+            installment.paidDate === null && installment.paid > 0;
+          return (
+            <View key={installment.number} style={styles.row}>
+              <Text style={[styles.cell, styles.numberCol]}>
+                {installment.number}
+              </Text>
+              <Text style={[styles.cell, styles.dateCol]}>
+                {formatDate(installment.dueDate)}
+              </Text>
+              <View style={styles.amountCol}>
+                <Text style={[styles.cell, styles.amountText]}>
+                  ₹{installment.amount.toLocaleString()}
+                </Text>
+                {isPartlyPaid && (
+                  <Text style={styles.subText}>
+                    ₹{installment.paid.toLocaleString()} paid
+                  </Text>
+                )}
+              </View>
+              <View style={styles.statusCol}>
+                <View
+                  style={[styles.badge, { backgroundColor: colors.background }]}
+                >
+                  <Text style={[styles.badgeText, { color: colors.text }]}>
+                    {INSTALLMENT_STATUS_LABELS[installment.status]}
+                  </Text>
+                </View>
+                {installment.paidDate && (
+                  <Text style={styles.subText}>
+                    {formatDate(installment.paidDate)}
+                  </Text>
+                )}
+              </View>
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  countsRow: {
+    flexDirection: "row",
+    marginBottom: 12,
+  },
+  countItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  countValue: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  countLabel: {
+    fontSize: 11,
+    color: "#999",
+    marginTop: 2,
+  },
+  container: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    overflow: "hidden",
+  },
+  headerRow: {
+    flexDirection: "row",
+    backgroundColor: "#F8F9FA",
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E5E5",
+  },
+  row: {
+    flexDirection: "row",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+    alignItems: "center",
+  },
+  headerCell: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#666",
+  },
+  cell: {
+    fontSize: 14,
+    color: "#1A1A1A",
+  },
+  numberCol: {
+    flex: 1,
+  },
+  dateCol: {
+    flex: 3,
+  },
+  amountCol: {
+    flex: 3,
+    alignItems: "flex-end",
+    textAlign: "right",
+  },
+  amountText: {
+    fontWeight: "600",
+  },
+  statusCol: {
+    flex: 3,
+    alignItems: "flex-end",
+    textAlign: "right",
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: "600",
+  },
+  subText: {
+    fontSize: 11,
+    color: "#999",
+    marginTop: 2,
+  },
+});
+
+export default InstallmentScheduleTable;
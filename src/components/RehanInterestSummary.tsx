@@ -0,0 +1,136 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { InterestMode } from "../types/entry";
+import { InterestSummary } from "../services/InterestService";
+
+interface RehanInterestSummaryProps {
+  summary: InterestSummary;
+  interestRate: number;
+  interestMode: InterestMode;
+}
+
+const RehanInterestSummary: React.FC<RehanInterestSummaryProps> = ({
+  summary,
+  interestRate,
+  interestMode,
+}) => {
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Ionicons name="trending-up" size={18} color="#007AFF" />
+        <Text style={styles.headerText}>Interest</Text>
+        <Text style={styles.rateText}>
+          {interestRate}% / month ·{" "}
+          {interestMode === "compound" ? "Compound" : "Simple"}
+        </Text>
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Principal Outstanding</Text>
+        <Text style={styles.value}>
+          ₹{summary.principal.toLocaleString()}
+        </Text>
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Accrued Interest</Text>
+        <Text style={[styles.value, styles.interestValue]}>
+          +₹{summary.interest.toLocaleString()}
+        </Text>
+      </View>
+
+      <View style={[styles.row, styles.totalRow]}>
+        <Text style={[styles.label, styles.totalLabel]}>TOTAL PAYABLE</Text>
+        <Text style={[styles.value, styles.totalValue]}>
+          ₹{summary.total.toLocaleString()}
+        </Text>
+      </View>
+
+      <Text style={styles.asOfText}>As of {formatDate(summary.asOf)}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    overflow: "hidden",
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#F0F7FF",
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E5E5",
+  },
+  headerText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#007AFF",
+  },
+  rateText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#666",
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  label: {
+    fontSize: 14,
+    color: "#666",
+  },
+  value: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  interestValue: {
+    color: "#E65100",
+  },
+  totalRow: {
+    backgroundColor: "#FFEBEE",
+  },
+  totalLabel: {
+    fontWeight: "700",
+    color: "#C62828",
+  },
+  totalValue: {
+    fontSize: 17,
+    fontWeight: "800",
+    color: "#C62828",
+  },
+  asOfText: {
+    fontSize: 11,
+    color: "#999",
+    textAlign: "right",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+});
+
+export default RehanInterestSummary;
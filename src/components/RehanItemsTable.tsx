@@ -0,0 +1,252 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity, Image } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Metal, NewRehanItem, RehanItem } from "../types/entry";
+
+interface RehanItemsTableProps {
+  items: (NewRehanItem | RehanItem)[];
+  onRemoveItem?: (index: number) => void; // Omit for a read-only list
+  isLoading?: boolean;
+}
+
+const METAL_LABELS: Record<Metal, string> = {
+  gold: "Gold",
+  silver: "Silver",
+};
+
+// Released items were handed back before the Rehan was closed
+const getReleasedAt = (item: NewRehanItem | RehanItem) =>
+  "releasedAt" in item ? item.releasedAt || null : null;
+
+// First photo taken when the item was handed back, if any
+const getReleasePhoto = (item: NewRehanItem | RehanItem): string | null => {
+  if (!("releaseMedia" in item) || !item.releaseMedia) return null;
+  try {
+    const paths = JSON.parse(item.releaseMedia);
+    return Array.isArray(paths) && typeof paths[0] === "string"
+      ? paths[0]
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const formatWeight = (grams: number) =>
+  `${grams.toLocaleString("en-IN", { maximumFractionDigits: 3 })} g`;
+
+const RehanItemsTable: React.FC<RehanItemsTableProps> = ({
+  items,
+  onRemoveItem,
+  isLoading = false,
+}) => {
+  if (items.length === 0) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyText}>No items added</Text>
+      </View>
+    );
+  }
+
+  // Net weight of each metal still held, falling back to gross where net
+  // wasn't entered
+  const totals: Record<Metal, number> = { gold: 0, silver: 0 };
+  let totalPieces = 0;
+  let releasedCount = 0;
+  for (const item of items) {
+    if (getReleasedAt(item)) {
+      releasedCount += 1;
+      continue;
+    }
+    totals[item.metal] += item.netWeight ?? item.grossWeight ?? 0;
+    totalPieces += item.pieces || 1;
+  }
+  const totalWeights = (Object.keys(totals) as Metal[])
+    .filter((metal) => totals[metal] > 0)
+    .map((metal) => `${METAL_LABELS[metal]} ${formatWeight(totals[metal])}`);
+
+  return (
+    <View style={styles.container}>
+      {items.map((item, index) => {
+        const pieces = item.pieces || 1;
+        const details = [
+          METAL_LABELS[item.metal],
+          item.purity,
+          pieces > 1 ? `${pieces} pcs` : null,
+        ].filter(Boolean);
+
+        const releasedAt = getReleasedAt(item);
+        const releasePhoto = getReleasePhoto(item);
+
+        return (
+          <View
+            key={"id" in item ? item.id : index}
+            style={[styles.row, releasedAt ? styles.releasedRow : null]}
+          >
+            <View
+              style={[
+                styles.metalDot,
+                item.metal === "gold" ? styles.goldDot : styles.silverDot,
+              ]}
+            />
+            <View style={styles.itemInfo}>
+              <Text style={styles.itemType}>{item.itemType}</Text>
+              <Text style={styles.itemDetails}>{details.join(" · ")}</Text>
+              {releasedAt && (
+                <Text style={styles.releasedText}>
+                  Released{" "}
+                  {new Date(releasedAt).toLocaleDateString("en-IN", {
+                    day: "2-digit",
+                    month: "short",
+                    year: "numeric",
+                  })}
+                </Text>
+              )}
+            </View>
+            {releasePhoto && (
+              <Image
+                source={{ uri: releasePhoto }}
+                style={styles.releasePhoto}
+              />
+            )}
+            <View style={styles.weightInfo}>
+              <Text style={styles.netWeight}>
+                {item.netWeight != null ? formatWeight(item.netWeight) : "—"}
+              </Text>
+              {item.grossWeight != null &&
+                item.grossWeight !== item.netWeight && (
+                  <Text style={styles.grossWeight}>
+                    Gross {formatWeight(item.grossWeight)}
+                  </Text>
+                )}
+            </View>
+            {onRemoveItem && (
+              <TouchableOpacity
+                onPress={() => onRemoveItem(index)}
+                disabled={isLoading}
+                style={styles.deleteButton}
+              >
+                <Ionicons name="trash-outline" size={18} color="#FF3B30" />
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+
+      <View style={styles.totalRow}>
+        <Text style={styles.totalLabel}>
+          {totalPieces} piece{totalPieces !== 1 ? "s" : ""}
+          {releasedCount > 0 ? ` held · ${releasedCount} released` : ""}
+        </Text>
+        <Text style={styles.totalValue}>
+          {totalWeights.join("  ·  ") || "—"}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    overflow: "hidden",
+  },
+  emptyContainer: {
+    padding: 20,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    borderRadius: 12,
+    borderStyle: "dashed",
+  },
+  emptyText: {
+    color: "#999",
+    fontSize: 14,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  releasedRow: {
+    opacity: 0.5,
+  },
+  releasedText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#2E7D32",
+    marginTop: 2,
+  },
+  releasePhoto: {
+    width: 36,
+    height: 36,
+    borderRadius: 6,
+  },
+  metalDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  goldDot: {
+    backgroundColor: "#D4A017",
+  },
+  silverDot: {
+    backgroundColor: "#A0A4A8",
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemType: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  itemDetails: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
+  weightInfo: {
+    alignItems: "flex-end",
+  },
+  netWeight: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  grossWeight: {
+    fontSize: 11,
+    color: "#999",
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 4,
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    backgroundColor: "#F8F9FA",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  totalLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#666",
+  },
+  totalValue: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+});
+
+export default RehanItemsTable;
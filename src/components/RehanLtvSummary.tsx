@@ -0,0 +1,243 @@
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  CollateralValuation,
+  calculateLtv,
+} from "../services/ValuationService";
+
+interface RehanLtvSummaryProps {
+  loanAmount: number; // Principal plus accrued interest
+  valuation: CollateralValuation | null;
+  limitPercent: number;
+  isLoading?: boolean;
+  error?: string | null;
+  onRetry?: () => void;
+}
+
+const formatGrams = (grams: number) =>
+  `${grams.toLocaleString("en-IN", { maximumFractionDigits: 3 })} g`;
+
+const RehanLtvSummary: React.FC<RehanLtvSummaryProps> = ({
+  loanAmount,
+  valuation,
+  limitPercent,
+  isLoading = false,
+  error,
+  onRetry,
+}) => {
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.messageRow}>
+          <ActivityIndicator size="small" color="#007AFF" />
+          <Text style={styles.messageText}>Fetching today's bhav...</Text>
+        </View>
+      );
+    }
+    if (error) {
+      return (
+        <View style={styles.messageRow}>
+          <Ionicons name="cloud-offline-outline" size={18} color="#999" />
+          <Text style={styles.messageText}>{error}</Text>
+          {onRetry && (
+            <TouchableOpacity onPress={onRetry}>
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+    if (!valuation || valuation.weighedItems === 0) {
+      return (
+        <View style={styles.messageRow}>
+          <Ionicons name="scale-outline" size={18} color="#999" />
+          <Text style={styles.messageText}>
+            No item weights recorded for this rehan
+          </Text>
+        </View>
+      );
+    }
+
+    const ltv = calculateLtv(loanAmount, valuation.value);
+    const isOverLimit = ltv !== null && ltv > limitPercent;
+
+    return (
+      <>
+        {valuation.goldFineWeight > 0 && (
+          <View style={styles.row}>
+            <Text style={styles.label}>Fine Gold</Text>
+            <Text style={styles.value}>
+              {formatGrams(valuation.goldFineWeight)}
+            </Text>
+          </View>
+        )}
+        {valuation.silverFineWeight > 0 && (
+          <View style={styles.row}>
+            <Text style={styles.label}>Fine Silver</Text>
+            <Text style={styles.value}>
+              {formatGrams(valuation.silverFineWeight)}
+            </Text>
+          </View>
+        )}
+        <View style={styles.row}>
+          <Text style={styles.label}>Collateral Value</Text>
+          <Text style={styles.value}>
+            ₹{valuation.value.toLocaleString()}
+          </Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.label}>Loan Balance</Text>
+          <Text style={styles.value}>₹{loanAmount.toLocaleString()}</Text>
+        </View>
+        <View
+          style={[
+            styles.row,
+            styles.ltvRow,
+            isOverLimit ? styles.ltvRowOver : styles.ltvRowOk,
+          ]}
+        >
+          <Text
+            style={[
+              styles.label,
+              styles.ltvLabel,
+              isOverLimit ? styles.overText : styles.okText,
+            ]}
+          >
+            LTV (limit {limitPercent}%)
+          </Text>
+          <Text
+            style={[
+              styles.ltvValue,
+              isOverLimit ? styles.overText : styles.okText,
+            ]}
+          >
+            {ltv !== null ? `${ltv.toFixed(1)}%` : "—"}
+          </Text>
+        </View>
+        {valuation.ratesUpdatedAt && (
+          <Text style={styles.asOfText}>
+            Bhav as of {formatDateTime(valuation.ratesUpdatedAt)}
+          </Text>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Ionicons name="shield-checkmark" size={18} color="#B8860B" />
+        <Text style={styles.headerText}>Loan to Value</Text>
+      </View>
+      {renderBody()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    overflow: "hidden",
+    marginTop: 12,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#FFF8E1",
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E5E5",
+  },
+  headerText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#B8860B",
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  label: {
+    fontSize: 14,
+    color: "#666",
+  },
+  value: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  ltvRow: {
+    borderBottomWidth: 0,
+  },
+  ltvRowOk: {
+    backgroundColor: "#E8F5E9",
+  },
+  ltvRowOver: {
+    backgroundColor: "#FFEBEE",
+  },
+  ltvLabel: {
+    fontWeight: "700",
+  },
+  ltvValue: {
+    fontSize: 17,
+    fontWeight: "800",
+  },
+  okText: {
+    color: "#2E7D32",
+  },
+  overText: {
+    color: "#C62828",
+  },
+  messageRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    padding: 14,
+  },
+  messageText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#666",
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#007AFF",
+  },
+  asOfText: {
+    fontSize: 11,
+    color: "#999",
+    textAlign: "right",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+});
+
+export default RehanLtvSummary;
@@ -0,0 +1,469 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Image,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import * as ImagePicker from "expo-image-picker";
+import { RehanItem } from "../types/entry";
+import CustomDatePicker from "./CustomDatePicker";
+
+interface ReleaseItemsModalProps {
+  visible: boolean;
+  items: RehanItem[]; // Items still held
+  principal: number; // Principal outstanding before the release
+  onClose: () => void;
+  onRelease: (
+    itemIds: number[],
+    amount: number,
+    date: Date,
+    photoUri: string | null,
+  ) => void;
+}
+
+const formatWeight = (grams: number) =>
+  `${grams.toLocaleString("en-IN", { maximumFractionDigits: 3 })} g`;
+
+const ReleaseItemsModal: React.FC<ReleaseItemsModalProps> = ({
+  visible,
+  items,
+  principal,
+  onClose,
+  onRelease,
+}) => {
+  const insets = useSafeAreaInsets();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [amount, setAmount] = useState("");
+  const [selectedDate, setSelectedDate] = useState(new Date());
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  // Start empty every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setSelectedIds([]);
+      setAmount("");
+      setSelectedDate(new Date());
+      setPhotoUri(null);
+    }
+  }, [visible]);
+
+  const minDate = new Date();
+  minDate.setFullYear(minDate.getFullYear() - 15);
+
+  const amountNum = parseInt(amount, 10) || 0;
+  const releasesAll =
+    selectedIds.length > 0 && selectedIds.length === items.length;
+
+  const formatDisplayDate = (date: Date) => {
+    return date.toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const toggleItem = (id: number) => {
+    setSelectedIds((current) =>
+      current.includes(id)
+        ? current.filter((selected) => selected !== id)
+        : [...current, id],
+    );
+  };
+
+  const pickPhoto = async (source: "camera" | "library") => {
+    const permission =
+      source === "camera"
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (permission.status !== "granted") {
+      Alert.alert(
+        "Permission Required",
+        source === "camera"
+          ? "Camera permission is required."
+          : "Media library permission is required.",
+      );
+      return;
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: "images",
+      allowsEditing: true,
+      quality: 1,
+    };
+    const result =
+      source === "camera"
+        ? await ImagePicker.launchCameraAsync(options)
+        : await ImagePicker.launchImageLibraryAsync(options);
+
+    if (!result.canceled && result.assets[0]) {
+      setPhotoUri(result.assets[0].uri);
+    }
+  };
+
+  const handleRelease = () => {
+    if (selectedIds.length === 0) return;
+    if (amountNum > principal) {
+      Alert.alert(
+        "Check Amount",
+        `The jama is more than the ₹${principal.toLocaleString()} principal outstanding.`,
+      );
+      return;
+    }
+    onRelease(selectedIds, amountNum, selectedDate, photoUri);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Release Items</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.body}
+            contentContainerStyle={styles.bodyContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            {/* Items to hand back */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                Items to release <Text style={styles.required}>*</Text>
+              </Text>
+              {items.map((item) => {
+                const isSelected = selectedIds.includes(item.id);
+                const weight = item.netWeight ?? item.grossWeight;
+                return (
+                  <TouchableOpacity
+                    key={item.id}
+                    style={[styles.itemRow, isSelected && styles.itemRowActive]}
+                    onPress={() => toggleItem(item.id)}
+                  >
+                    <Ionicons
+                      name={isSelected ? "checkbox" : "square-outline"}
+                      size={22}
+                      color={isSelected ? "#007AFF" : "#999"}
+                    />
+                    <Text style={styles.itemText}>
+                      {item.itemType}
+                      {item.pieces > 1 ? ` × ${item.pieces}` : ""}
+                    </Text>
+                    {weight != null && (
+                      <Text style={styles.itemWeight}>
+                        {formatWeight(weight)}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+              {releasesAll && (
+                <Text style={styles.hintText}>
+                  Every item goes back; close the Rehan once it is settled.
+                </Text>
+              )}
+            </View>
+
+            {/* Jama received with the release */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Jama Amount (₹)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="0 if nothing was paid"
+                placeholderTextColor="#999"
+                value={amount}
+                onChangeText={(text) => setAmount(text.replace(/[^0-9]/g, ""))}
+                keyboardType="numeric"
+              />
+              <Text style={styles.hintText}>
+                Principal after release: ₹
+                {Math.max(principal - amountNum, 0).toLocaleString()}
+              </Text>
+            </View>
+
+            {/* Release date */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Release Date</Text>
+              <TouchableOpacity
+                style={styles.dateButton}
+                onPress={() => setShowDatePicker(true)}
+              >
+                <Ionicons name="calendar" size={20} color="#007AFF" />
+                <Text style={styles.dateButtonText}>
+                  {formatDisplayDate(selectedDate)}
+                </Text>
+                <Ionicons name="chevron-down" size={20} color="#999" />
+              </TouchableOpacity>
+            </View>
+
+            {/* Optional photo of the items handed back */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Release Photo</Text>
+              {photoUri ? (
+                <View style={styles.photoContainer}>
+                  <Image source={{ uri: photoUri }} style={styles.photo} />
+                  <TouchableOpacity
+                    style={styles.removePhotoButton}
+                    onPress={() => setPhotoUri(null)}
+                  >
+                    <Ionicons name="close-circle" size={24} color="#FF3B30" />
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <View style={styles.photoButtons}>
+                  <TouchableOpacity
+                    style={styles.photoButton}
+                    onPress={() => pickPhoto("camera")}
+                  >
+                    <Ionicons name="camera" size={18} color="#007AFF" />
+                    <Text style={styles.photoButtonText}>Camera</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.photoButton}
+                    onPress={() => pickPhoto("library")}
+                  >
+                    <Ionicons name="images" size={18} color="#007AFF" />
+                    <Text style={styles.photoButtonText}>Gallery</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          </ScrollView>
+
+          <View
+            style={[
+              styles.footer,
+              { paddingBottom: Math.max(insets.bottom, 20) },
+            ]}
+          >
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.releaseButton,
+                selectedIds.length === 0 && styles.releaseButtonDisabled,
+              ]}
+              onPress={handleRelease}
+              disabled={selectedIds.length === 0}
+            >
+              <Ionicons name="checkmark" size={20} color="#fff" />
+              <Text style={styles.releaseButtonText}>
+                Release
+                {selectedIds.length > 0 ? ` (${selectedIds.length})` : ""}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+
+      <CustomDatePicker
+        visible={showDatePicker}
+        selectedDate={selectedDate}
+        onClose={() => setShowDatePicker(false)}
+        onDateSelect={(date) => {
+          setSelectedDate(date);
+          setShowDatePicker(false);
+        }}
+        minimumDate={minDate}
+        maximumDate={new Date()}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: "90%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#444",
+    marginBottom: 8,
+  },
+  required: {
+    color: "#FF3B30",
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    marginBottom: 8,
+  },
+  itemRowActive: {
+    backgroundColor: "#F0F7FF",
+    borderColor: "#D0E4FF",
+  },
+  itemText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  itemWeight: {
+    fontSize: 13,
+    color: "#666",
+  },
+  input: {
+    backgroundColor: "#F8F9FA",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    color: "#1A1A1A",
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 6,
+  },
+  dateButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: "#F0F7FF",
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#D0E4FF",
+  },
+  dateButtonText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  photoButtons: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  photoButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: "#F0F7FF",
+  },
+  photoButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#007AFF",
+  },
+  photoContainer: {
+    alignSelf: "flex-start",
+  },
+  photo: {
+    width: 120,
+    height: 120,
+    borderRadius: 12,
+  },
+  removePhotoButton: {
+    position: "absolute",
+    top: -8,
+    right: -8,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+  },
+  footer: {
+    flexDirection: "row",
+    padding: 20,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F2F5",
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#F0F2F5",
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#666",
+  },
+  releaseButton: {
+    flex: 1,
+    flexDirection: "row",
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#2E7D32",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  releaseButtonDisabled: {
+    backgroundColor: "#A5D6A7",
+  },
+  releaseButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#fff",
+  },
+});
+
+export default ReleaseItemsModal;
@@ -0,0 +1,377 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import {
+  Reminder,
+  ReminderChannel,
+  ReminderLanguage,
+  User,
+} from "../types/entry";
+import { getRemindersByUserId } from "../database/entryDatabase";
+import { getSettings } from "../storage/settingsStorage";
+import {
+  REMINDER_CHANNEL_LABELS,
+  REMINDER_LANGUAGES,
+  ReminderDetails,
+  buildReminderMessage,
+  sendReminder,
+} from "../services/ReminderService";
+
+interface ReminderModalProps {
+  visible: boolean;
+  user: User;
+  lendenBaki: number;
+  rehanAmount: number;
+  onClose: () => void;
+  onSent: () => void;
+}
+
+// Only the latest few reminders are listed
+const HISTORY_LIMIT = 5;
+
+const ReminderModal: React.FC<ReminderModalProps> = ({
+  visible,
+  user,
+  lendenBaki,
+  rehanAmount,
+  onClose,
+  onSent,
+}) => {
+  const insets = useSafeAreaInsets();
+  const [language, setLanguage] = useState<ReminderLanguage>("hi");
+  const [message, setMessage] = useState("");
+  const [details, setDetails] = useState<ReminderDetails | null>(null);
+  const [history, setHistory] = useState<Reminder[]>([]);
+  const [sendingChannel, setSendingChannel] =
+    useState<ReminderChannel | null>(null);
+
+  // Fill the template afresh every time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    const load = async () => {
+      const [settings, reminders] = await Promise.all([
+        getSettings(),
+        getRemindersByUserId(user.id),
+      ]);
+      const filled: ReminderDetails = {
+        customerName: user.name,
+        shopName: settings.shopName,
+        shopPhone: settings.shopPhone,
+        lendenBaki,
+        rehanAmount,
+      };
+      setDetails(filled);
+      setMessage(buildReminderMessage(language, filled));
+      setHistory(reminders.slice(0, HISTORY_LIMIT));
+    };
+    load();
+  }, [visible]);
+
+  const handleLanguageChange = (value: ReminderLanguage) => {
+    setLanguage(value);
+    if (details) setMessage(buildReminderMessage(value, details));
+  };
+
+  const handleSend = async (channel: ReminderChannel) => {
+    if (!message.trim()) return;
+    setSendingChannel(channel);
+    try {
+      await sendReminder(
+        {
+          userId: user.id,
+          channel,
+          language,
+          message: message.trim(),
+          lendenBaki,
+          rehanAmount,
+        },
+        user.mobileNumber,
+      );
+      onSent();
+      onClose();
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to send the reminder");
+    } finally {
+      setSendingChannel(null);
+    }
+  };
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const renderSendButton = (
+    channel: ReminderChannel,
+    icon: keyof typeof Ionicons.glyphMap,
+    color: string,
+  ) => (
+    <TouchableOpacity
+      style={[
+        styles.sendButton,
+        { backgroundColor: color },
+        (sendingChannel !== null || !message.trim()) &&
+          styles.sendButtonDisabled,
+      ]}
+      onPress={() => handleSend(channel)}
+      disabled={sendingChannel !== null || !message.trim()}
+    >
+      {sendingChannel === channel ? (
+        <ActivityIndicator size="small" color="#fff" />
+      ) : (
+        <Ionicons name={icon} size={20} color="#fff" />
+      )}
+      <Text style={styles.sendButtonText}>
+        {REMINDER_CHANNEL_LABELS[channel]}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Send Reminder</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.body}
+            contentContainerStyle={styles.bodyContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={styles.chipRow}>
+              {REMINDER_LANGUAGES.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.chip,
+                    language === option.value && styles.chipActive,
+                  ]}
+                  onPress={() => handleLanguageChange(option.value)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      language === option.value && styles.chipTextActive,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TextInput
+              style={styles.messageInput}
+              value={message}
+              onChangeText={setMessage}
+              multiline
+              textAlignVertical="top"
+            />
+            {!user.mobileNumber && (
+              <Text style={styles.hintText}>
+                No mobile number saved; you'll pick the contact in the app.
+              </Text>
+            )}
+
+            {history.length > 0 && (
+              <View style={styles.history}>
+                <Text style={styles.historyTitle}>Previous Reminders</Text>
+                {history.map((reminder) => (
+                  <View key={reminder.id} style={styles.historyRow}>
+                    <Ionicons
+                      name={
+                        reminder.channel === "whatsapp"
+                          ? "logo-whatsapp"
+                          : "chatbubble-outline"
+                      }
+                      size={16}
+                      color="#666"
+                    />
+                    <Text style={styles.historyText}>
+                      {formatDateTime(reminder.sentAt)} ·{" "}
+                      {REMINDER_CHANNEL_LABELS[reminder.channel]}
+                    </Text>
+                    <Text style={styles.historyAmount}>
+                      ₹
+                      {(
+                        reminder.lendenBaki + reminder.rehanAmount
+                      ).toLocaleString()}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </ScrollView>
+
+          <View
+            style={[
+              styles.footer,
+              { paddingBottom: Math.max(insets.bottom, 20) },
+            ]}
+          >
+            {renderSendButton("sms", "chatbubble-outline", "#007AFF")}
+            {renderSendButton("whatsapp", "logo-whatsapp", "#25D366")}
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: "90%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    padding: 20,
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#F8F9FA",
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+  },
+  chipActive: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#444",
+  },
+  chipTextActive: {
+    color: "#fff",
+  },
+  messageInput: {
+    backgroundColor: "#F8F9FA",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 15,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    color: "#1A1A1A",
+    minHeight: 180,
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#E65100",
+    marginTop: 8,
+  },
+  history: {
+    marginTop: 20,
+  },
+  historyTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+    textTransform: "uppercase",
+    marginBottom: 8,
+  },
+  historyRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  historyText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#444",
+  },
+  historyAmount: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  footer: {
+    flexDirection: "row",
+    padding: 20,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F2F5",
+  },
+  sendButton: {
+    flex: 1,
+    flexDirection: "row",
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  sendButtonDisabled: {
+    opacity: 0.6,
+  },
+  sendButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#fff",
+  },
+});
+
+export default ReminderModal;
@@ -0,0 +1,574 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import {
+  InterestMode,
+  NewRehanRenewal,
+  Rehan,
+  RehanItem,
+  RehanTransaction,
+} from "../types/entry";
+import { calculateRehanInterest } from "../services/InterestService";
+import CustomDatePicker from "./CustomDatePicker";
+
+type RenewalDetails = Omit<NewRehanRenewal, "rehanId" | "media">;
+
+interface RenewRehanModalProps {
+  visible: boolean;
+  rehan: Rehan;
+  transactions: RehanTransaction[];
+  items: RehanItem[]; // Items still held
+  onClose: () => void;
+  onRenew: (renewal: RenewalDetails, keepPhotos: boolean) => void;
+}
+
+const INTEREST_MODES: { label: string; value: InterestMode }[] = [
+  { label: "Simple", value: "simple" },
+  { label: "Compound", value: "compound" },
+];
+
+const formatWeight = (grams: number) =>
+  `${grams.toLocaleString("en-IN", { maximumFractionDigits: 3 })} g`;
+
+const RenewRehanModal: React.FC<RenewRehanModalProps> = ({
+  visible,
+  rehan,
+  transactions,
+  items,
+  onClose,
+  onRenew,
+}) => {
+  const insets = useSafeAreaInsets();
+  const [selectedDate, setSelectedDate] = useState(new Date());
+  const [paid, setPaid] = useState("");
+  const [newPrincipal, setNewPrincipal] = useState("");
+  const [interestRate, setInterestRate] = useState("");
+  const [interestMode, setInterestMode] = useState<InterestMode>("simple");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [keepPhotos, setKeepPhotos] = useState(true);
+  const [note, setNote] = useState("");
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  // Carry everything over on the same terms unless changed
+  useEffect(() => {
+    if (visible) {
+      setSelectedDate(new Date());
+      setPaid("");
+      setNewPrincipal("");
+      setInterestRate(rehan.interestRate ? rehan.interestRate.toString() : "");
+      setInterestMode(rehan.interestMode || "simple");
+      setSelectedIds(items.map((item) => item.id));
+      setKeepPhotos(true);
+      setNote("");
+    }
+  }, [visible]);
+
+  // Can't be backdated to before the last recorded transaction
+  const minDate = transactions.reduce((latest, t) => {
+    const date = new Date(t.date);
+    return date > latest ? date : latest;
+  }, new Date(rehan.openDate));
+
+  const summary = calculateRehanInterest(rehan, transactions, selectedDate);
+  const paidNum = parseInt(paid, 10) || 0;
+  const dueAfterPayment = Math.max(summary.total - paidNum, 0);
+  // Interest not paid now is capitalised into the new principal by default
+  const carriedForward = newPrincipal
+    ? parseInt(newPrincipal, 10) || 0
+    : dueAfterPayment;
+  const waived = dueAfterPayment - carriedForward;
+  const canRenew = carriedForward > 0;
+
+  const formatDisplayDate = (date: Date) => {
+    return date.toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const toggleItem = (id: number) => {
+    setSelectedIds((current) =>
+      current.includes(id)
+        ? current.filter((selected) => selected !== id)
+        : [...current, id],
+    );
+  };
+
+  const handleRenew = () => {
+    if (!canRenew) return;
+    if (paidNum > summary.total) {
+      Alert.alert(
+        "Check Amount",
+        `The payment is more than the ₹${summary.total.toLocaleString()} due.`,
+      );
+      return;
+    }
+    if (waived < 0) {
+      Alert.alert(
+        "Check Principal",
+        `The new principal can't be more than the ₹${dueAfterPayment.toLocaleString()} left after payment. Give more as a diya on the new Rehan.`,
+      );
+      return;
+    }
+    onRenew(
+      {
+        date: selectedDate.toISOString(),
+        paid: paidNum,
+        carriedForward,
+        note: note.trim() || undefined,
+        interestRate: parseFloat(interestRate) || 0,
+        interestMode,
+        itemIds: selectedIds,
+      },
+      keepPhotos,
+    );
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Renew Rehan</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.body}
+            contentContainerStyle={styles.bodyContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            {/* Renewal date */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Renewal Date</Text>
+              <TouchableOpacity
+                style={styles.dateButton}
+                onPress={() => setShowDatePicker(true)}
+              >
+                <Ionicons name="calendar" size={20} color="#007AFF" />
+                <Text style={styles.dateButtonText}>
+                  {formatDisplayDate(selectedDate)}
+                </Text>
+                <Ionicons name="chevron-down" size={20} color="#999" />
+              </TouchableOpacity>
+            </View>
+
+            {/* Dues on the renewal date */}
+            <View style={styles.summaryCard}>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Principal</Text>
+                <Text style={styles.summaryValue}>
+                  ₹{summary.principal.toLocaleString()}
+                </Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Interest</Text>
+                <Text style={styles.summaryValue}>
+                  ₹{summary.interest.toLocaleString()}
+                </Text>
+              </View>
+              <View style={[styles.summaryRow, styles.summaryTotalRow]}>
+                <Text style={styles.summaryTotalLabel}>Total Due</Text>
+                <Text style={styles.summaryTotalValue}>
+                  ₹{summary.total.toLocaleString()}
+                </Text>
+              </View>
+            </View>
+
+            {/* Cash paid now */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Paid Now (₹)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="0 to capitalise the interest"
+                placeholderTextColor="#999"
+                value={paid}
+                onChangeText={(text) => setPaid(text.replace(/[^0-9]/g, ""))}
+                keyboardType="numeric"
+              />
+            </View>
+
+            {/* Principal of the new Rehan */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>New Principal (₹)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={dueAfterPayment.toString()}
+                placeholderTextColor="#999"
+                value={newPrincipal}
+                onChangeText={(text) =>
+                  setNewPrincipal(text.replace(/[^0-9]/g, ""))
+                }
+                keyboardType="numeric"
+              />
+              {waived > 0 && (
+                <Text style={styles.hintText}>
+                  ₹{waived.toLocaleString()} will be waived
+                </Text>
+              )}
+            </View>
+
+            {/* Terms of the new Rehan */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Interest Rate (% per month)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. 2"
+                placeholderTextColor="#999"
+                value={interestRate}
+                onChangeText={(text) =>
+                  setInterestRate(text.replace(/[^0-9.]/g, ""))
+                }
+                keyboardType="decimal-pad"
+              />
+              <View style={styles.chipRow}>
+                {INTEREST_MODES.map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.chip,
+                      interestMode === option.value && styles.chipActive,
+                    ]}
+                    onPress={() => setInterestMode(option.value)}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        interestMode === option.value && styles.chipTextActive,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {/* Items carried over; the rest are handed back */}
+            {items.length > 0 && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Items Carried Forward</Text>
+                {items.map((item) => {
+                  const isSelected = selectedIds.includes(item.id);
+                  const weight = item.netWeight ?? item.grossWeight;
+                  return (
+                    <TouchableOpacity
+                      key={item.id}
+                      style={[
+                        styles.itemRow,
+                        isSelected && styles.itemRowActive,
+                      ]}
+                      onPress={() => toggleItem(item.id)}
+                    >
+                      <Ionicons
+                        name={isSelected ? "checkbox" : "square-outline"}
+                        size={22}
+                        color={isSelected ? "#007AFF" : "#999"}
+                      />
+                      <Text style={styles.itemText}>
+                        {item.itemType}
+                        {item.pieces > 1 ? ` × ${item.pieces}` : ""}
+                      </Text>
+                      {weight != null && (
+                        <Text style={styles.itemWeight}>
+                          {formatWeight(weight)}
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+                {selectedIds.length < items.length && (
+                  <Text style={styles.hintText}>
+                    Unticked items are marked as released to the customer.
+                  </Text>
+                )}
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={styles.itemRow}
+              onPress={() => setKeepPhotos(!keepPhotos)}
+            >
+              <Ionicons
+                name={keepPhotos ? "checkbox" : "square-outline"}
+                size={22}
+                color={keepPhotos ? "#007AFF" : "#999"}
+              />
+              <Text style={styles.itemText}>Copy photos to the new Rehan</Text>
+            </TouchableOpacity>
+
+            {/* Note kept with the settlement */}
+            <View style={[styles.inputGroup, styles.noteGroup]}>
+              <Text style={styles.label}>Note</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Optional"
+                placeholderTextColor="#999"
+                value={note}
+                onChangeText={setNote}
+              />
+            </View>
+          </ScrollView>
+
+          <View
+            style={[
+              styles.footer,
+              { paddingBottom: Math.max(insets.bottom, 20) },
+            ]}
+          >
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.renewButton,
+                !canRenew && styles.renewButtonDisabled,
+              ]}
+              onPress={handleRenew}
+              disabled={!canRenew}
+            >
+              <Ionicons name="refresh" size={20} color="#fff" />
+              <Text style={styles.renewButtonText}>Renew</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+
+      <CustomDatePicker
+        visible={showDatePicker}
+        selectedDate={selectedDate}
+        onClose={() => setShowDatePicker(false)}
+        onDateSelect={(date) => {
+          setSelectedDate(date);
+          setShowDatePicker(false);
+        }}
+        minimumDate={minDate}
+        maximumDate={new Date()}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: "90%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  noteGroup: {
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#444",
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: "#F8F9FA",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    color: "#1A1A1A",
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#E65100",
+    marginTop: 6,
+  },
+  summaryCard: {
+    backgroundColor: "#F8F9FA",
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 20,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: "#666",
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  summaryTotalRow: {
+    marginTop: 6,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#E5E5E5",
+  },
+  summaryTotalLabel: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  summaryTotalValue: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#C62828",
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 10,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#F8F9FA",
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+  },
+  chipActive: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#444",
+  },
+  chipTextActive: {
+    color: "#fff",
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    marginBottom: 8,
+  },
+  itemRowActive: {
+    borderColor: "#007AFF",
+    backgroundColor: "#F0F7FF",
+  },
+  itemText: {
+    flex: 1,
+    fontSize: 15,
+    color: "#1A1A1A",
+  },
+  itemWeight: {
+    fontSize: 13,
+    color: "#666",
+  },
+  dateButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: "#F0F7FF",
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#D0E4FF",
+  },
+  dateButtonText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  footer: {
+    flexDirection: "row",
+    padding: 20,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F2F5",
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#F0F2F5",
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#666",
+  },
+  renewButton: {
+    flex: 1,
+    flexDirection: "row",
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#007AFF",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  renewButtonDisabled: {
+    backgroundColor: "#A0C4FF",
+  },
+  renewButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#fff",
+  },
+});
+
+export default RenewRehanModal;
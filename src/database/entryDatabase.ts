@@ -4,11 +4,28 @@ import {
   NewUser,
   Rehan,
   NewRehan,
+  RehanItem,
+  NewRehanItem,
+  InterestMode,
   Lenden,
   NewLenden,
+  LendenItem,
+  NewLendenItem,
   JamaEntry,
   NewJamaEntry,
+  Invoice,
+  NewInvoice,
+  InstallmentPlan,
+  AuditEntity,
+  AuditAction,
+  AuditLogEntry,
+  RecycleBinEntity,
+  RecycleBinItem,
+  Reminder,
+  NewReminder,
 } from "../types/entry";
+import { runMigrations, LATEST_SCHEMA_VERSION } from "./migrations";
+import { calculateRehanInterest } from "../services/InterestService";
 
 let db: SQLite.SQLiteDatabase | null = null;
 
@@ -19,155 +36,129 @@ const openDatabase = async () => {
   return db;
 };
 
-// Initialize database (create tables if not exist)
-export const initDatabase = async () => {
-  try {
-    const database = await openDatabase();
+/**
+ * Run several statements as one atomic unit.
+ * Every query inside `work` must go through the `txn` it receives; if any step
+ * throws, the whole operation is rolled back and the error is re-thrown.
+ */
+export const runInTransaction = async <T>(
+  work: (txn: SQLite.SQLiteDatabase) => Promise<T>,
+): Promise<T> => {
+  const database = await openDatabase();
+  let result: T | undefined;
+  await database.withExclusiveTransactionAsync(async (txn) => {
+    result = await work(txn);
+  });
+  return result as T;
+};
 
-    // Create Users table
-    await database.execAsync(`
-      CREATE TABLE IF NOT EXISTS users (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT NOT NULL,
-        address TEXT,
-        address TEXT,
-        mobileNumber TEXT,
-        nickname TEXT,
-        createdAt TEXT NOT NULL
-      );
-    `);
-
-    // Create Rehan table
-    await database.execAsync(`
-      CREATE TABLE IF NOT EXISTS rehan (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        userId INTEGER NOT NULL,
-        media TEXT NOT NULL,
-        status INTEGER DEFAULT 0,
-        openDate TEXT NOT NULL,
-        closedDate TEXT,
-        productName TEXT,
-        amount INTEGER,
-        FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
-      );
-    `);
-
-    // Create Lenden table
-    await database.execAsync(`
-      CREATE TABLE IF NOT EXISTS lenden (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        userId INTEGER NOT NULL,
-        date TEXT NOT NULL,
-        media TEXT NOT NULL,
-        amount INTEGER,
-        discount INTEGER,
-        remaining INTEGER,
-        jama INTEGER,
-        baki INTEGER,
-        FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
-      );
-    `);
-
-    // Create Jama Entries table (multiple jama payments per lenden)
-    await database.execAsync(`
-      CREATE TABLE IF NOT EXISTS jama_entries (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        lendenId INTEGER NOT NULL,
-        amount INTEGER NOT NULL,
-        date TEXT NOT NULL,
-        FOREIGN KEY (lendenId) REFERENCES lenden(id) ON DELETE CASCADE
-      );
-    `);
-
-    // Create Rehan Transactions table
-    await database.execAsync(`
-      CREATE TABLE IF NOT EXISTS rehan_transactions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        rehanId INTEGER NOT NULL,
-        type TEXT NOT NULL, 
-        amount INTEGER NOT NULL,
-        date TEXT NOT NULL,
-        FOREIGN KEY (rehanId) REFERENCES rehan(id) ON DELETE CASCADE
-      );
-    `);
+// ============ AUDIT HELPERS ============
+
+// Table backing each audited entity
+const AUDIT_TABLES: Record<AuditEntity, string> = {
+  user: "users",
+  rehan: "rehan",
+  rehan_transaction: "rehan_transactions",
+  rehan_item: "rehan_items",
+  lenden: "lenden",
+  lenden_item: "lenden_items",
+  jama_entry: "jama_entries",
+  invoice: "invoices",
+};
 
-    // Migrations to add columns if they don't exist (for existing app installs)
-    try {
-      // Check if columns exist in rehan, if not add them
-      const rehanInfo = await database.getAllAsync<{ name: string }>(
-        "PRAGMA table_info(rehan)",
-      );
-      const rehanColumns = rehanInfo.map((c) => c.name);
+// Read the current row of an audited entity (null if it doesn't exist)
+const getAuditSnapshot = async (
+  database: SQLite.SQLiteDatabase,
+  entity: AuditEntity,
+  id: number,
+) => {
+  return database.getFirstAsync<Record<string, unknown>>(
+    `SELECT * FROM ${AUDIT_TABLES[entity]} WHERE id = ?`,
+    id,
+  );
+};
 
-      if (!rehanColumns.includes("productName")) {
-        await database.execAsync(
-          "ALTER TABLE rehan ADD COLUMN productName TEXT",
-        );
-        console.log("Added productName to rehan table");
-      }
-      if (!rehanColumns.includes("amount")) {
-        await database.execAsync("ALTER TABLE rehan ADD COLUMN amount INTEGER");
-        console.log("Added amount to rehan table");
-      }
+// Append an entry to the audit log (call inside the change's transaction)
+const recordAudit = async (
+  database: SQLite.SQLiteDatabase,
+  entity: AuditEntity,
+  entityId: number,
+  action: AuditAction,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+  reason?: string,
+): Promise<void> => {
+  await database.runAsync(
+    "INSERT INTO audit_log (entity, entityId, action, before, after, timestamp, reason) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    entity,
+    entityId,
+    action,
+    before ? JSON.stringify(before) : null,
+    after ? JSON.stringify(after) : null,
+    new Date().toISOString(),
+    reason || null,
+  );
+};
 
-      // Check if columns exist in lenden, if not add them
-      const lendenInfo = await database.getAllAsync<{ name: string }>(
-        "PRAGMA table_info(lenden)",
-      );
-      const lendenColumns = lendenInfo.map((c) => c.name);
+// Log a newly inserted row
+const recordCreate = async (
+  database: SQLite.SQLiteDatabase,
+  entity: AuditEntity,
+  id: number,
+  reason?: string,
+): Promise<void> => {
+  const after = await getAuditSnapshot(database, entity, id);
+  await recordAudit(database, entity, id, "create", null, after, reason);
+};
 
-      if (!lendenColumns.includes("amount")) {
-        await database.execAsync(
-          "ALTER TABLE lenden ADD COLUMN amount INTEGER",
-        );
-        console.log("Added amount to lenden table");
-      }
-      if (!lendenColumns.includes("discount")) {
-        await database.execAsync(
-          "ALTER TABLE lenden ADD COLUMN discount INTEGER",
-        );
-        console.log("Added discount to lenden table");
-      }
-      if (!lendenColumns.includes("remaining")) {
-        await database.execAsync(
-          "ALTER TABLE lenden ADD COLUMN remaining INTEGER",
-        );
-        console.log("Added remaining to lenden table");
-      }
-      if (!lendenColumns.includes("jama")) {
-        await database.execAsync("ALTER TABLE lenden ADD COLUMN jama INTEGER");
-        console.log("Added jama to lenden table");
-      }
-      if (!lendenColumns.includes("baki")) {
-        await database.execAsync("ALTER TABLE lenden ADD COLUMN baki INTEGER");
-        console.log("Added baki to lenden table");
-      }
-      if (!lendenColumns.includes("status")) {
-        await database.execAsync(
-          "ALTER TABLE lenden ADD COLUMN status INTEGER DEFAULT 0",
-        );
-        console.log("Added status to lenden table");
-      }
-    } catch (migrationError) {
-      console.error("Migration error:", migrationError);
-      // Continue anyway as tables might be fresh
-    }
+// Apply a change to one row and log its before/after snapshots
+const auditedWrite = async (
+  database: SQLite.SQLiteDatabase,
+  entity: AuditEntity,
+  id: number,
+  action: AuditAction,
+  write: () => Promise<unknown>,
+  reason?: string,
+): Promise<void> => {
+  const before = await getAuditSnapshot(database, entity, id);
+  await write();
+  if (!before) return; // Nothing was changed
 
-    // Migration for nickname in users table
-    try {
-      const userColumns = (
-        await database.getAllAsync<{ name: string }>("PRAGMA table_info(users)")
-      ).map((c) => c.name);
+  const after = await getAuditSnapshot(database, entity, id);
+  await recordAudit(database, entity, id, action, before, after, reason);
+};
 
-      if (!userColumns.includes("nickname")) {
-        await database.execAsync("ALTER TABLE users ADD COLUMN nickname TEXT");
-        console.log("Added nickname to users table");
-      }
-    } catch (error) {
-      console.error("Error migrating users table:", error);
-    }
+// Move one row to the recycle bin by stamping its deletedAt
+const moveToRecycleBin = async (
+  database: SQLite.SQLiteDatabase,
+  entity: RecycleBinEntity,
+  id: number,
+  deletedAt: string,
+  reason?: string,
+): Promise<void> => {
+  await auditedWrite(
+    database,
+    entity,
+    id,
+    "delete",
+    () =>
+      database.runAsync(
+        `UPDATE ${AUDIT_TABLES[entity]} SET deletedAt = ? WHERE id = ? AND deletedAt IS NULL`,
+        deletedAt,
+        id,
+      ),
+    reason,
+  );
+};
 
-    console.log("SQLite database initialized with User, Rehan, Lenden tables");
+// Initialize database (run pending schema migrations)
+export const initDatabase = async () => {
+  try {
+    const database = await openDatabase();
+    await runMigrations(database);
+    console.log(
+      `SQLite database initialized at schema version ${LATEST_SCHEMA_VERSION}`,
+    );
   } catch (error) {
     console.error("Error initializing database:", error);
     throw error;
@@ -187,6 +178,7 @@ export const checkDuplicateUser = async (
     const row = await database.getFirstAsync<{ count: number }>(
       `SELECT COUNT(*) as count FROM users 
        WHERE name = ? 
+       AND deletedAt IS NULL
        AND (address = ? OR (address IS NULL AND ? IS NULL))
        AND (mobileNumber = ? OR (mobileNumber IS NULL AND ? IS NULL))`,
       name,
@@ -202,22 +194,28 @@ export const checkDuplicateUser = async (
   }
 };
 
+// Insert a user row (shared by createUser and createCustomerEntry)
+const insertUser = async (
+  database: SQLite.SQLiteDatabase,
+  user: NewUser,
+): Promise<number> => {
+  const createdAt = new Date().toISOString();
+  const result = await database.runAsync(
+    "INSERT INTO users (name, address, mobileNumber, nickname, createdAt) VALUES (?, ?, ?, ?, ?)",
+    user.name,
+    user.address || null,
+    user.mobileNumber || null,
+    user.nickname || null,
+    createdAt,
+  );
+  await recordCreate(database, "user", result.lastInsertRowId);
+  return result.lastInsertRowId;
+};
+
 // Create new user
 export const createUser = async (user: NewUser): Promise<number> => {
   try {
-    const database = await openDatabase();
-    const createdAt = new Date().toISOString();
-
-    const result = await database.runAsync(
-      "INSERT INTO users (name, address, mobileNumber, nickname, createdAt) VALUES (?, ?, ?, ?, ?)",
-      user.name,
-      user.address || null,
-      user.mobileNumber || null,
-      user.nickname || null,
-      createdAt,
-    );
-
-    return result.lastInsertRowId;
+    return await runInTransaction((txn) => insertUser(txn, user));
   } catch (error) {
     console.error("Error creating user:", error);
     throw error;
@@ -244,7 +242,7 @@ export const getAllUsers = async (): Promise<User[]> => {
   try {
     const database = await openDatabase();
     const rows = await database.getAllAsync<User>(
-      "SELECT * FROM users ORDER BY createdAt DESC",
+      "SELECT * FROM users WHERE deletedAt IS NULL ORDER BY createdAt DESC",
     );
     return rows;
   } catch (error) {
@@ -260,7 +258,8 @@ export const searchUsers = async (query: string): Promise<User[]> => {
     const searchQuery = `%${query}%`;
     const rows = await database.getAllAsync<User>(
       `SELECT * FROM users 
-       WHERE name LIKE ? OR address LIKE ? OR mobileNumber LIKE ?
+       WHERE deletedAt IS NULL
+       AND (name LIKE ? OR address LIKE ? OR mobileNumber LIKE ?)
        ORDER BY createdAt DESC`,
       searchQuery,
       searchQuery,
@@ -273,11 +272,26 @@ export const searchUsers = async (query: string): Promise<User[]> => {
   }
 };
 
-// Delete user (cascades to rehan and lenden)
-export const deleteUser = async (id: number): Promise<void> => {
+// Move user to the recycle bin along with their Rehan and Lenden entries
+export const deleteUser = async (
+  id: number,
+  reason?: string,
+): Promise<void> => {
   try {
-    const database = await openDatabase();
-    await database.runAsync("DELETE FROM users WHERE id = ?", id);
+    const deletedAt = new Date().toISOString();
+    await runInTransaction(async (txn) => {
+      await moveToRecycleBin(txn, "user", id, deletedAt, reason);
+      // Entries share the user's deletedAt so restoring the user brings them back
+      for (const entity of ["rehan", "lenden"] as const) {
+        const rows = await txn.getAllAsync<{ id: number }>(
+          `SELECT id FROM ${AUDIT_TABLES[entity]} WHERE userId = ? AND deletedAt IS NULL`,
+          id,
+        );
+        for (const row of rows) {
+          await moveToRecycleBin(txn, entity, row.id, deletedAt, reason);
+        }
+      }
+    });
   } catch (error) {
     console.error("Error deleting user:", error);
     throw error;
@@ -293,14 +307,17 @@ export const updateUser = async (
   nickname?: string,
 ): Promise<void> => {
   try {
-    const database = await openDatabase();
-    await database.runAsync(
-      "UPDATE users SET name = ?, address = ?, mobileNumber = ?, nickname = ? WHERE id = ?",
-      name,
-      address || null,
-      mobileNumber || null,
-      nickname || null,
-      id,
+    await runInTransaction((txn) =>
+      auditedWrite(txn, "user", id, "update", () =>
+        txn.runAsync(
+          "UPDATE users SET name = ?, address = ?, mobileNumber = ?, nickname = ? WHERE id = ?",
+          name,
+          address || null,
+          mobileNumber || null,
+          nickname || null,
+          id,
+        ),
+      ),
     );
   } catch (error) {
     console.error("Error updating user:", error);
@@ -310,29 +327,80 @@ export const updateUser = async (
 
 // ============ REHAN CRUD ============
 
+// Insert a Rehan row (shared by createRehan and createCustomerEntry)
+const insertRehan = async (
+  database: SQLite.SQLiteDatabase,
+  rehan: NewRehan,
+): Promise<number> => {
+  const openDate = rehan.openDate || new Date().toISOString();
+  const media = JSON.stringify(rehan.media || []);
+  const result = await database.runAsync(
+    "INSERT INTO rehan (userId, media, status, openDate, productName, amount, openingAmount, interestRate, interestMode, parentRehanId) VALUES (?, ?, 0, ?, ?, ?, ?, ?, ?, ?)",
+    rehan.userId,
+    media,
+    openDate,
+    rehan.productName || null,
+    rehan.amount || null,
+    rehan.amount || 0,
+    rehan.interestRate || 0,
+    rehan.interestMode || "simple",
+    rehan.parentRehanId ?? null,
+  );
+  const rehanId = result.lastInsertRowId;
+  await recordCreate(database, "rehan", rehanId);
+  for (const item of rehan.items || []) {
+    await insertRehanItem(database, rehanId, item);
+  }
+  return rehanId;
+};
+
 // Create new Rehan entry
 export const createRehan = async (rehan: NewRehan): Promise<number> => {
   try {
-    const database = await openDatabase();
-    const openDate = rehan.openDate || new Date().toISOString();
-    const media = JSON.stringify(rehan.media || []);
-
-    const result = await database.runAsync(
-      "INSERT INTO rehan (userId, media, status, openDate, productName, amount) VALUES (?, ?, 0, ?, ?, ?)",
-      rehan.userId,
-      media,
-      openDate,
-      rehan.productName || null,
-      rehan.amount || null,
-    );
-
-    return result.lastInsertRowId;
+    return await runInTransaction((txn) => insertRehan(txn, rehan));
   } catch (error) {
     console.error("Error creating Rehan entry:", error);
     throw error;
   }
 };
 
+// Insert one pledged item of a Rehan
+const insertRehanItem = async (
+  database: SQLite.SQLiteDatabase,
+  rehanId: number,
+  item: NewRehanItem,
+): Promise<number> => {
+  const result = await database.runAsync(
+    "INSERT INTO rehan_items (rehanId, itemType, metal, purity, grossWeight, netWeight, pieces) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    rehanId,
+    item.itemType.trim(),
+    item.metal,
+    item.purity?.trim() || null,
+    item.grossWeight ?? null,
+    item.netWeight ?? null,
+    item.pieces || 1,
+  );
+  await recordCreate(database, "rehan_item", result.lastInsertRowId);
+  return result.lastInsertRowId;
+};
+
+// Get the pledged items of a Rehan
+export const getRehanItemsByRehanId = async (
+  rehanId: number,
+): Promise<RehanItem[]> => {
+  try {
+    const database = await openDatabase();
+    const rows = await database.getAllAsync<RehanItem>(
+      "SELECT * FROM rehan_items WHERE rehanId = ? ORDER BY id",
+      rehanId,
+    );
+    return rows;
+  } catch (error) {
+    console.error("Error getting Rehan items:", error);
+    return [];
+  }
+};
+
 // Get Rehan by ID
 export const getRehanById = async (id: number): Promise<Rehan | null> => {
   try {
@@ -353,7 +421,7 @@ export const getRehanByUserId = async (userId: number): Promise<Rehan[]> => {
   try {
     const database = await openDatabase();
     const rows = await database.getAllAsync<Rehan>(
-      "SELECT * FROM rehan WHERE userId = ? ORDER BY openDate DESC",
+      "SELECT * FROM rehan WHERE userId = ? AND deletedAt IS NULL ORDER BY openDate DESC",
       userId,
     );
     return rows;
@@ -363,12 +431,43 @@ export const getRehanByUserId = async (userId: number): Promise<Rehan[]> => {
   }
 };
 
+// Every Rehan in the renewal chain of one, from the first opened to the latest
+export const getRenewalChain = async (rehanId: number): Promise<Rehan[]> => {
+  try {
+    const database = await openDatabase();
+    return await database.getAllAsync<Rehan>(
+      `WITH RECURSIVE
+         ancestors(id) AS (
+           SELECT ?
+           UNION SELECT r.parentRehanId FROM rehan r
+           JOIN ancestors a ON r.id = a.id
+           WHERE r.parentRehanId IS NOT NULL
+         ),
+         descendants(id) AS (
+           SELECT ?
+           UNION SELECT r.id FROM rehan r
+           JOIN descendants d ON r.parentRehanId = d.id
+         )
+       SELECT * FROM rehan
+       WHERE deletedAt IS NULL
+         AND (id IN (SELECT id FROM ancestors)
+              OR id IN (SELECT id FROM descendants))
+       ORDER BY openDate, id`,
+      rehanId,
+      rehanId,
+    );
+  } catch (error) {
+    console.error("Error getting Rehan renewal chain:", error);
+    return [];
+  }
+};
+
 // Get all Rehan entries
 export const getAllRehan = async (): Promise<Rehan[]> => {
   try {
     const database = await openDatabase();
     const rows = await database.getAllAsync<Rehan>(
-      "SELECT * FROM rehan ORDER BY openDate DESC",
+      "SELECT * FROM rehan WHERE deletedAt IS NULL ORDER BY openDate DESC",
     );
     return rows;
   } catch (error) {
@@ -377,22 +476,32 @@ export const getAllRehan = async (): Promise<Rehan[]> => {
   }
 };
 
-// Update Rehan details (media, productName, amount)
+// Update Rehan details (media, productName, opening principal, interest
+// terms). The running balance of an open Rehan moves with a corrected opening
+// principal; a closed one stays at zero.
 export const updateRehanDetails = async (
   id: number,
   media: string[],
   productName?: string,
-  amount?: number,
+  openingAmount?: number,
+  interestRate?: number,
+  interestMode?: InterestMode,
 ): Promise<void> => {
   try {
-    const database = await openDatabase();
     const mediaJson = JSON.stringify(media);
-    await database.runAsync(
-      "UPDATE rehan SET media = ?, productName = ?, amount = ? WHERE id = ?",
-      mediaJson,
-      productName || null,
-      amount || null,
-      id,
+    await runInTransaction((txn) =>
+      auditedWrite(txn, "rehan", id, "update", () =>
+        txn.runAsync(
+          "UPDATE rehan SET media = ?, productName = ?, amount = CASE WHEN status = 0 THEN COALESCE(amount, 0) + ? - COALESCE(openingAmount, 0) ELSE amount END, openingAmount = ?, interestRate = ?, interestMode = ? WHERE id = ?",
+          mediaJson,
+          productName || null,
+          openingAmount || 0,
+          openingAmount || 0,
+          interestRate || 0,
+          interestMode || "simple",
+          id,
+        ),
+      ),
     );
   } catch (error) {
     console.error("Error updating Rehan details:", error);
@@ -400,31 +509,16 @@ export const updateRehanDetails = async (
   }
 };
 
-// Update Rehan status (close it)
-export const closeRehan = async (id: number): Promise<void> => {
-  try {
-    const database = await openDatabase();
-    const closedDate = new Date().toISOString();
-    await database.runAsync(
-      "UPDATE rehan SET status = 1, closedDate = ? WHERE id = ?",
-      closedDate,
-      id,
-    );
-  } catch (error) {
-    console.error("Error closing Rehan:", error);
-    throw error;
-  }
-};
-
-// Delete Rehan entry
-export const deleteRehan = async (id: number): Promise<void> => {
+// Move Rehan entry to the recycle bin (its transactions stay with it)
+export const deleteRehan = async (
+  id: number,
+  reason?: string,
+): Promise<void> => {
   try {
-    const database = await openDatabase();
-    await database.runAsync(
-      "DELETE FROM rehan_transactions WHERE rehanId = ?",
-      id,
+    const deletedAt = new Date().toISOString();
+    await runInTransaction((txn) =>
+      moveToRecycleBin(txn, "rehan", id, deletedAt, reason),
     );
-    await database.runAsync("DELETE FROM rehan WHERE id = ?", id);
   } catch (error) {
     console.error("Error deleting Rehan:", error);
     throw error;
@@ -433,34 +527,51 @@ export const deleteRehan = async (id: number): Promise<void> => {
 
 // ============ REHAN TRANSACTIONS ============
 
-import { RehanTransaction, NewRehanTransaction } from "../types/entry";
+import {
+  RehanTransaction,
+  NewRehanTransaction,
+  NewItemRelease,
+  NewRehanSettlement,
+  NewRehanRenewal,
+} from "../types/entry";
 
-export const createRehanTransaction = async (
+// Insert a Rehan Transaction and move the Rehan balance with it
+const insertRehanTransaction = async (
+  database: SQLite.SQLiteDatabase,
   transaction: NewRehanTransaction,
 ): Promise<number> => {
-  try {
-    const database = await openDatabase();
-
-    // 1. Insert transaction
-    const result = await database.runAsync(
-      "INSERT INTO rehan_transactions (rehanId, type, amount, date) VALUES (?, ?, ?, ?)",
-      transaction.rehanId,
-      transaction.type,
-      transaction.amount,
-      transaction.date,
-    );
-
-    // 2. Update Rehan Balance (Amount)
-    // If 'diya' (took more) -> Increase amount
-    // If 'jama' (paid) -> Decrease amount
-    const operator = transaction.type === "diya" ? "+" : "-";
-    await database.runAsync(
-      `UPDATE rehan SET amount = amount ${operator} ? WHERE id = ?`,
+  // 1. Insert transaction
+  const result = await database.runAsync(
+    "INSERT INTO rehan_transactions (rehanId, type, amount, date) VALUES (?, ?, ?, ?)",
+    transaction.rehanId,
+    transaction.type,
+    transaction.amount,
+    transaction.date,
+  );
+  await recordCreate(database, "rehan_transaction", result.lastInsertRowId);
+
+  // 2. Update Rehan Balance (Amount)
+  // If 'diya' (took more) -> Increase amount
+  // If 'jama' (paid) -> Decrease amount
+  const operator = transaction.type === "diya" ? "+" : "-";
+  await auditedWrite(database, "rehan", transaction.rehanId, "update", () =>
+    database.runAsync(
+      `UPDATE rehan SET amount = COALESCE(amount, 0) ${operator} ? WHERE id = ?`,
       transaction.amount,
       transaction.rehanId,
-    );
+    ),
+  );
 
-    return result.lastInsertRowId;
+  return result.lastInsertRowId;
+};
+
+export const createRehanTransaction = async (
+  transaction: NewRehanTransaction,
+): Promise<number> => {
+  try {
+    return await runInTransaction((txn) =>
+      insertRehanTransaction(txn, transaction),
+    );
   } catch (error) {
     console.error("Error creating Rehan Transaction:", error);
     throw error;
@@ -483,58 +594,437 @@ export const getRehanTransactionsByRehanId = async (
   }
 };
 
-export const deleteRehanTransaction = async (id: number): Promise<void> => {
+// Delete a Rehan Transaction, returns the photos of the releases it undid so
+// the caller can remove the files once the rows are committed
+export const deleteRehanTransaction = async (
+  id: number,
+  reason?: string,
+): Promise<string[]> => {
   try {
-    const database = await openDatabase();
+    return await runInTransaction(async (txn) => {
+      // 1. Get transaction details to reverse the balance effect
+      const transaction = await txn.getFirstAsync<RehanTransaction>(
+        "SELECT * FROM rehan_transactions WHERE id = ?",
+        id,
+      );
 
-    // 1. Get transaction details to reverse the balance effect
-    const transaction = await database.getFirstAsync<RehanTransaction>(
-      "SELECT * FROM rehan_transactions WHERE id = ?",
-      id,
-    );
+      if (!transaction) return [];
 
-    if (!transaction) return;
+      // 2. Delete transaction
+      await auditedWrite(
+        txn,
+        "rehan_transaction",
+        id,
+        "delete",
+        () => txn.runAsync("DELETE FROM rehan_transactions WHERE id = ?", id),
+        reason,
+      );
 
-    // 2. Delete transaction
-    await database.runAsync("DELETE FROM rehan_transactions WHERE id = ?", id);
+      // 3. Reverse Rehan Balance (a closed Rehan stays at zero)
+      // If original was 'diya' (+), now we subtract (-)
+      // If original was 'jama' (-), now we add (+)
+      const operator = transaction.type === "diya" ? "-" : "+";
+      await auditedWrite(
+        txn,
+        "rehan",
+        transaction.rehanId,
+        "update",
+        () =>
+          txn.runAsync(
+            `UPDATE rehan SET amount = COALESCE(amount, 0) ${operator} ? WHERE id = ? AND status = 0`,
+            transaction.amount,
+            transaction.rehanId,
+          ),
+        reason,
+      );
 
-    // 3. Reverse Rehan Balance
-    // If original was 'diya' (+), now we subtract (-)
-    // If original was 'jama' (-), now we add (+)
-    const operator = transaction.type === "diya" ? "-" : "+";
-    await database.runAsync(
-      `UPDATE rehan SET amount = amount ${operator} ? WHERE id = ?`,
-      transaction.amount,
-      transaction.rehanId,
-    );
+      // 4. Items released against this jama are held again
+      const released = await txn.getAllAsync<RehanItem>(
+        "SELECT * FROM rehan_items WHERE releaseTransactionId = ?",
+        id,
+      );
+      for (const item of released) {
+        await auditedWrite(
+          txn,
+          "rehan_item",
+          item.id,
+          "update",
+          () =>
+            txn.runAsync(
+              "UPDATE rehan_items SET releasedAt = NULL, releaseTransactionId = NULL, releaseMedia = NULL WHERE id = ?",
+              item.id,
+            ),
+          reason,
+        );
+      }
+      // Items released together share their photos
+      return [
+        ...new Set(
+          released.flatMap((item) => parseMedia(item.releaseMedia ?? null)),
+        ),
+      ];
+    });
   } catch (error) {
     console.error("Error deleting Rehan Transaction:", error);
     throw error;
   }
 };
 
+/**
+/**
+ * Hand some pledged items back to the customer before the Rehan is closed.
+ * The jama received with them (if any) is recorded as a Rehan Transaction in
+ * the same step, and each item remembers the jama it went out against.
+ * Refuses a closed or deleted Rehan, and items it no longer holds.
+ */
+export const releaseRehanItems = async (
+  release: NewItemRelease,
+): Promise<void> => {
+  try {
+    const media = JSON.stringify(release.media || []);
+    await runInTransaction(async (txn) => {
+      const rehan = await getOpenRehanForSettlement(txn, release.rehanId);
+      const transactionId =
+        release.amount > 0
+          ? await insertRehanTransaction(txn, {
+              rehanId: rehan.id,
+              type: "jama",
+              amount: release.amount,
+              date: release.date,
+            })
+          : null;
+
+      let releasedCount = 0;
+      for (const itemId of release.itemIds) {
+        await auditedWrite(txn, "rehan_item", itemId, "update", async () => {
+          const result = await txn.runAsync(
+            "UPDATE rehan_items SET releasedAt = ?, releaseTransactionId = ?, releaseMedia = ? WHERE id = ? AND rehanId = ? AND releasedAt IS NULL",
+            release.date,
+            transactionId,
+            media,
+            itemId,
+            rehan.id,
+          );
+          releasedCount += result.changes;
+        });
+      }
+      if (releasedCount < release.itemIds.length) {
+        throw new Error("Some of these items are no longer held on this Rehan");
+      }
+    });
+  } catch (error) {
+    console.error("Error releasing Rehan items:", error);
+    throw error;
+  }
+};
+
+// Read a Rehan that is about to be settled, refusing one already closed
+const getOpenRehanForSettlement = async (
+  database: SQLite.SQLiteDatabase,
+  id: number,
+): Promise<Rehan> => {
+  const rehan = await database.getFirstAsync<Rehan>(
+    "SELECT * FROM rehan WHERE id = ? AND deletedAt IS NULL",
+    id,
+  );
+  if (!rehan || rehan.status !== 0) {
+    throw new Error("This Rehan is already closed");
+  }
+  return rehan;
+};
+
+// Take the final jama of a settlement, returns its id (null if none paid)
+const insertSettlementJama = async (
+  database: SQLite.SQLiteDatabase,
+  rehanId: number,
+  amount: number,
+  date: string,
+): Promise<number | null> => {
+  if (amount <= 0) return null;
+  return insertRehanTransaction(database, {
+    rehanId,
+    type: "jama",
+    amount,
+    date,
+  });
+};
+
+// Let go of every held item of a Rehan, returns the ones in `carryIds`.
+// Carried items move to the renewed Rehan, so the old one no longer holds
+// them either.
+const releaseHeldItems = async (
+  database: SQLite.SQLiteDatabase,
+  rehanId: number,
+  date: string,
+  transactionId: number | null,
+  carryIds: number[] = [],
+): Promise<RehanItem[]> => {
+  const heldItems = await database.getAllAsync<RehanItem>(
+    "SELECT * FROM rehan_items WHERE rehanId = ? AND releasedAt IS NULL ORDER BY id",
+    rehanId,
+  );
+  const carried: RehanItem[] = [];
+  for (const item of heldItems) {
+    if (carryIds.includes(item.id)) carried.push(item);
+    await auditedWrite(database, "rehan_item", item.id, "update", () =>
+      database.runAsync(
+        "UPDATE rehan_items SET releasedAt = ?, releaseTransactionId = ? WHERE id = ?",
+        date,
+        transactionId,
+        item.id,
+      ),
+    );
+  }
+  return carried;
+};
+
+// What is due on a Rehan on a date, worked out from its stored transactions
+const getSettlementDues = async (
+  database: SQLite.SQLiteDatabase,
+  rehan: Rehan,
+  date: string,
+) => {
+  const transactions = await database.getAllAsync<RehanTransaction>(
+    "SELECT * FROM rehan_transactions WHERE rehanId = ?",
+    rehan.id,
+  );
+  return calculateRehanInterest(rehan, transactions, new Date(date));
+};
+
+// Close a Rehan, record its settlement on it and bring its balance to zero
+const closeWithSettlement = async (
+  database: SQLite.SQLiteDatabase,
+  rehanId: number,
+  date: string,
+  settlement: {
+    principal: number;
+    interest: number;
+    paid: number;
+    waived: number;
+    carriedForward: number | null; // Only set when renewed
+  },
+  note?: string,
+): Promise<void> => {
+  await auditedWrite(
+    database,
+    "rehan",
+    rehanId,
+    "close",
+    () =>
+      database.runAsync(
+        "UPDATE rehan SET status = 1, closedDate = ?, amount = 0, settlementPrincipal = ?, settlementInterest = ?, settlementPaid = ?, settlementWaived = ?, settlementCarriedForward = ?, settlementNote = ? WHERE id = ?",
+        date,
+        settlement.principal,
+        settlement.interest,
+        settlement.paid,
+        settlement.waived,
+        settlement.carriedForward,
+        note || null,
+        rehanId,
+      ),
+    note,
+  );
+};
+
+/**
+ * Close an open Rehan with its final settlement: take the final jama, hand
+ * back the items still held and record what was paid and waived.
+ * What is due is worked out here on the closing date and whatever the jama
+ * leaves unpaid is waived. Refuses a jama of more than is due, or a waiver
+ * without a reason.
+ */
+export const settleRehan = async (
+  settlement: NewRehanSettlement,
+): Promise<void> => {
+  try {
+    const reason = settlement.reason?.trim() || undefined;
+    await runInTransaction(async (txn) => {
+      const rehan = await getOpenRehanForSettlement(txn, settlement.rehanId);
+      const dues = await getSettlementDues(txn, rehan, settlement.date);
+      if (settlement.paid < 0 || settlement.paid > dues.total) {
+        throw new Error("The final jama is more than what is due");
+      }
+      const waived = dues.total - settlement.paid;
+      if (waived > 0 && !reason) {
+        throw new Error("Give a reason for writing off the balance");
+      }
+
+      const transactionId = await insertSettlementJama(
+        txn,
+        rehan.id,
+        settlement.paid,
+        settlement.date,
+      );
+      await releaseHeldItems(txn, rehan.id, settlement.date, transactionId);
+      await closeWithSettlement(
+        txn,
+        rehan.id,
+        settlement.date,
+        {
+          principal: dues.principal,
+          interest: dues.interest,
+          paid: settlement.paid,
+          waived,
+          carriedForward: null,
+        },
+        reason,
+      );
+    });
+  } catch (error) {
+    console.error("Error settling Rehan:", error);
+    throw error;
+  }
+};
+
+/**
+ * Renew an open Rehan in one go: take any cash paid as a jama, hand back the
+ * held items that are not carried over, close it with the settlement and
+ * open the linked new Rehan with the carried forward principal.
+ * What is due is worked out here on the renewal date; whatever is neither
+ * paid nor carried forward is recorded as waived.
+ * Returns the id of the new Rehan.
+ */
+export const renewRehan = async (
+  renewal: NewRehanRenewal,
+): Promise<number> => {
+  try {
+    return await runInTransaction(async (txn) => {
+      const rehan = await getOpenRehanForSettlement(txn, renewal.rehanId);
+      const dues = await getSettlementDues(txn, rehan, renewal.date);
+      const waived = dues.total - renewal.paid - renewal.carriedForward;
+      if (renewal.paid < 0 || renewal.carriedForward < 0 || waived < 0) {
+        throw new Error("More is paid and carried forward than is due");
+      }
+
+      const transactionId = await insertSettlementJama(
+        txn,
+        rehan.id,
+        renewal.paid,
+        renewal.date,
+      );
+      const carriedItems = await releaseHeldItems(
+        txn,
+        rehan.id,
+        renewal.date,
+        transactionId,
+        renewal.itemIds,
+      );
+
+      const newRehanId = await insertRehan(txn, {
+        userId: rehan.userId,
+        media: renewal.media,
+        openDate: renewal.date,
+        productName: rehan.productName,
+        amount: renewal.carriedForward,
+        interestRate: renewal.interestRate,
+        interestMode: renewal.interestMode,
+        items: carriedItems.map((item) => ({
+          itemType: item.itemType,
+          metal: item.metal,
+          purity: item.purity ?? undefined,
+          grossWeight: item.grossWeight ?? undefined,
+          netWeight: item.netWeight ?? undefined,
+          pieces: item.pieces,
+        })),
+        parentRehanId: rehan.id,
+      });
+
+      await closeWithSettlement(
+        txn,
+        rehan.id,
+        renewal.date,
+        {
+          principal: dues.principal,
+          interest: dues.interest,
+          paid: renewal.paid,
+          waived,
+          carriedForward: renewal.carriedForward,
+        },
+        renewal.note?.trim() || undefined,
+      );
+
+      return newRehanId;
+    });
+  } catch (error) {
+    console.error("Error renewing Rehan:", error);
+    throw error;
+  }
+};
+
 // ============ LENDEN CRUD ============
 
-// Create new Lenden entry
-export const createLenden = async (lenden: NewLenden): Promise<number> => {
+// Insert a Lenden row (shared by createLenden and the combined writes)
+const insertLenden = async (
+  database: SQLite.SQLiteDatabase,
+  lenden: NewLenden,
+): Promise<number> => {
+  const media = JSON.stringify(lenden.media || []);
+  const result = await database.runAsync(
+    "INSERT INTO lenden (userId, date, media, amount, discount, remaining, jama, baki, status) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+    lenden.userId,
+    lenden.date,
+    media,
+    lenden.amount || null,
+    lenden.discount || null,
+    lenden.remaining || null,
+    lenden.jama || null,
+    lenden.baki || null,
+    lenden.status ?? 0,
+  );
+  const lendenId = result.lastInsertRowId;
+  await recordCreate(database, "lenden", lendenId);
+  for (const item of lenden.items || []) {
+    await insertLendenItem(database, lendenId, item);
+  }
+  return lendenId;
+};
+
+// Insert one line of an itemised Lenden bill
+const insertLendenItem = async (
+  database: SQLite.SQLiteDatabase,
+  lendenId: number,
+  item: NewLendenItem,
+): Promise<number> => {
+  const result = await database.runAsync(
+    "INSERT INTO lenden_items (lendenId, description, metal, purity, grossWeight, netWeight, rate, makingChargeType, makingCharge, wastagePercent, stoneCharges, amount) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+    lendenId,
+    item.description.trim(),
+    item.metal,
+    item.purity?.trim() || null,
+    item.grossWeight ?? null,
+    item.netWeight ?? null,
+    item.rate,
+    item.makingChargeType,
+    item.makingCharge || 0,
+    item.wastagePercent || 0,
+    item.stoneCharges || 0,
+    item.amount,
+  );
+  await recordCreate(database, "lenden_item", result.lastInsertRowId);
+  return result.lastInsertRowId;
+};
+
+// Get the bill lines of a Lenden
+export const getLendenItemsByLendenId = async (
+  lendenId: number,
+): Promise<LendenItem[]> => {
   try {
     const database = await openDatabase();
-    const media = JSON.stringify(lenden.media || []);
-
-    const result = await database.runAsync(
-      "INSERT INTO lenden (userId, date, media, amount, discount, remaining, jama, baki, status) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
-      lenden.userId,
-      lenden.date,
-      media,
-      lenden.amount || null,
-      lenden.discount || null,
-      lenden.remaining || null,
-      lenden.jama || null,
-      lenden.baki || null,
-      lenden.status ?? 0,
+    const rows = await database.getAllAsync<LendenItem>(
+      "SELECT * FROM lenden_items WHERE lendenId = ? ORDER BY id",
+      lendenId,
     );
+    return rows;
+  } catch (error) {
+    console.error("Error getting Lenden items:", error);
+    return [];
+  }
+};
 
-    return result.lastInsertRowId;
+// Create new Lenden entry
+export const createLenden = async (lenden: NewLenden): Promise<number> => {
+  try {
+    return await runInTransaction((txn) => insertLenden(txn, lenden));
   } catch (error) {
     console.error("Error creating Lenden entry:", error);
     throw error;
@@ -561,7 +1051,7 @@ export const getLendenByUserId = async (userId: number): Promise<Lenden[]> => {
   try {
     const database = await openDatabase();
     const rows = await database.getAllAsync<Lenden>(
-      "SELECT * FROM lenden WHERE userId = ? ORDER BY date DESC",
+      "SELECT * FROM lenden WHERE userId = ? AND deletedAt IS NULL ORDER BY date DESC",
       userId,
     );
     return rows;
@@ -576,7 +1066,7 @@ export const getAllLenden = async (): Promise<Lenden[]> => {
   try {
     const database = await openDatabase();
     const rows = await database.getAllAsync<Lenden>(
-      "SELECT * FROM lenden ORDER BY date DESC",
+      "SELECT * FROM lenden WHERE deletedAt IS NULL ORDER BY date DESC",
     );
     return rows;
   } catch (error) {
@@ -594,19 +1084,29 @@ export const updateLendenDetails = async (
   remaining?: number,
   jama?: number,
   baki?: number,
+  reason?: string,
 ): Promise<void> => {
   try {
-    const database = await openDatabase();
     const mediaJson = JSON.stringify(media);
-    await database.runAsync(
-      "UPDATE lenden SET media = ?, amount = ?, discount = ?, remaining = ?, jama = ?, baki = ? WHERE id = ?",
-      mediaJson,
-      amount || null,
-      discount || null,
-      remaining || null,
-      jama || null,
-      baki || null,
-      id,
+    await runInTransaction((txn) =>
+      auditedWrite(
+        txn,
+        "lenden",
+        id,
+        "update",
+        () =>
+          txn.runAsync(
+            "UPDATE lenden SET media = ?, amount = ?, discount = ?, remaining = ?, jama = ?, baki = ? WHERE id = ?",
+            mediaJson,
+            amount || null,
+            discount || null,
+            remaining || null,
+            jama || null,
+            baki || null,
+            id,
+          ),
+        reason,
+      ),
     );
   } catch (error) {
     console.error("Error updating Lenden details:", error);
@@ -614,23 +1114,118 @@ export const updateLendenDetails = async (
   }
 };
 
-// Delete Lenden entry
-export const deleteLenden = async (id: number): Promise<void> => {
+// Attach an installment plan to a Lenden, or remove it with null
+export const setLendenInstallmentPlan = async (
+  id: number,
+  plan: InstallmentPlan | null,
+  reason?: string,
+): Promise<void> => {
   try {
-    const database = await openDatabase();
-    // Delete associated jama entries first
-    await database.runAsync("DELETE FROM jama_entries WHERE lendenId = ?", id);
-    await database.runAsync("DELETE FROM lenden WHERE id = ?", id);
+    await runInTransaction((txn) =>
+      auditedWrite(
+        txn,
+        "lenden",
+        id,
+        "update",
+        () =>
+          txn.runAsync(
+            "UPDATE lenden SET installmentCount = ?, installmentFrequency = ?, firstDueDate = ? WHERE id = ?",
+            plan ? plan.count : null,
+            plan ? plan.frequency : null,
+            plan ? plan.firstDueDate : null,
+            id,
+          ),
+        reason,
+      ),
+    );
+  } catch (error) {
+    console.error("Error setting installment plan:", error);
+    throw error;
+  }
+};
+
+// Move Lenden entry to the recycle bin (its jama entries stay with it)
+export const deleteLenden = async (
+  id: number,
+  reason?: string,
+): Promise<void> => {
+  try {
+    const deletedAt = new Date().toISOString();
+    await runInTransaction((txn) =>
+      moveToRecycleBin(txn, "lenden", id, deletedAt, reason),
+    );
   } catch (error) {
     console.error("Error deleting Lenden:", error);
     throw error;
   }
 };
 
-// ============ COMBINED TRANSACTIONS ============
+// Create a Lenden together with its jama entries in one transaction
+export const createLendenWithJamaEntries = async (
+  lenden: NewLenden,
+  jamaEntries: Omit<NewJamaEntry, "lendenId">[],
+): Promise<number> => {
+  try {
+    return await runInTransaction(async (txn) => {
+      const lendenId = await insertLenden(txn, lenden);
+      for (const entry of jamaEntries) {
+        await insertJamaEntry(txn, { ...entry, lendenId });
+      }
+      return lendenId;
+    });
+  } catch (error) {
+    console.error("Error creating Lenden with jama entries:", error);
+    throw error;
+  }
+};
 
-export interface Transaction {
-  id: number;
+// New customer along with their first Rehan or Lenden entry
+export interface NewCustomerEntry {
+  user: NewUser;
+  rehan?: Omit<NewRehan, "userId">;
+  lenden?: Omit<NewLenden, "userId">;
+  jamaEntries?: Omit<NewJamaEntry, "lendenId">[];
+}
+
+export interface CustomerEntryIds {
+  userId: number;
+  rehanId?: number;
+  lendenId?: number;
+}
+
+// Create a user and their first entry in one transaction, returns the new IDs
+export const createCustomerEntry = async (
+  entry: NewCustomerEntry,
+): Promise<CustomerEntryIds> => {
+  try {
+    return await runInTransaction(async (txn) => {
+      const userId = await insertUser(txn, entry.user);
+      const ids: CustomerEntryIds = { userId };
+
+      if (entry.rehan) {
+        ids.rehanId = await insertRehan(txn, { ...entry.rehan, userId });
+      }
+
+      if (entry.lenden) {
+        const lendenId = await insertLenden(txn, { ...entry.lenden, userId });
+        for (const jama of entry.jamaEntries || []) {
+          await insertJamaEntry(txn, { ...jama, lendenId });
+        }
+        ids.lendenId = lendenId;
+      }
+
+      return ids;
+    });
+  } catch (error) {
+    console.error("Error creating customer entry:", error);
+    throw error;
+  }
+};
+
+// ============ COMBINED TRANSACTIONS ============
+
+export interface Transaction {
+  id: number;
   type: "rehan" | "lenden";
   userId: number;
   userName: string;
@@ -673,6 +1268,7 @@ export const getAllTransactions = async (): Promise<Transaction[]> => {
               u.name, u.address, u.mobileNumber, u.nickname
        FROM rehan r
        JOIN users u ON r.userId = u.id
+       WHERE r.deletedAt IS NULL AND u.deletedAt IS NULL
        ORDER BY r.openDate DESC`,
     );
 
@@ -697,6 +1293,7 @@ export const getAllTransactions = async (): Promise<Transaction[]> => {
               u.name, u.address, u.mobileNumber, u.nickname
        FROM lenden l
        JOIN users u ON l.userId = u.id
+       WHERE l.deletedAt IS NULL AND u.deletedAt IS NULL
        ORDER BY l.date DESC`,
     );
 
@@ -747,7 +1344,13 @@ export const getAllTransactions = async (): Promise<Transaction[]> => {
   }
 };
 
-// Search transactions by name, address, or mobile number
+// Matches a Rehan (aliased r) with a pledged item whose type, metal or purity
+// is like the three bound patterns
+const REHAN_ITEM_MATCH = `EXISTS (SELECT 1 FROM rehan_items i WHERE i.rehanId = r.id
+  AND (i.itemType LIKE ? OR i.metal LIKE ? OR i.purity LIKE ?))`;
+
+// Search transactions by name, address, or mobile number.
+// Rehan entries also match on their product name and pledged items.
 export const searchTransactions = async (
   query: string,
 ): Promise<Transaction[]> => {
@@ -773,12 +1376,18 @@ export const searchTransactions = async (
               u.name, u.address, u.mobileNumber, u.nickname
        FROM rehan r
        JOIN users u ON r.userId = u.id
-       WHERE u.name LIKE ? OR u.address LIKE ? OR u.mobileNumber LIKE ? OR u.nickname LIKE ?
+       WHERE r.deletedAt IS NULL AND u.deletedAt IS NULL
+       AND (u.name LIKE ? OR u.address LIKE ? OR u.mobileNumber LIKE ? OR u.nickname LIKE ?
+            OR r.productName LIKE ? OR ${REHAN_ITEM_MATCH})
        ORDER BY r.openDate DESC`,
       searchPattern,
       searchPattern,
       searchPattern,
       searchPattern,
+      searchPattern,
+      searchPattern,
+      searchPattern,
+      searchPattern,
     );
 
     // Get matching Lenden entries
@@ -802,7 +1411,8 @@ export const searchTransactions = async (
               u.name, u.address, u.mobileNumber, u.nickname
        FROM lenden l
        JOIN users u ON l.userId = u.id
-       WHERE u.name LIKE ? OR u.address LIKE ? OR u.mobileNumber LIKE ? OR u.nickname LIKE ?
+       WHERE l.deletedAt IS NULL AND u.deletedAt IS NULL
+       AND (u.name LIKE ? OR u.address LIKE ? OR u.mobileNumber LIKE ? OR u.nickname LIKE ?)
        ORDER BY l.date DESC`,
       searchPattern,
       searchPattern,
@@ -876,9 +1486,10 @@ export const getUsersWithCounts = async (): Promise<UserWithCounts[]> => {
     const database = await openDatabase();
     const rows = await database.getAllAsync<UserWithCounts>(
       `SELECT u.id, u.name, u.address, u.mobileNumber, u.nickname, u.createdAt,
-              (SELECT COUNT(*) FROM rehan WHERE userId = u.id) as rehanCount,
-              (SELECT COUNT(*) FROM lenden WHERE userId = u.id) as lendenCount
+              (SELECT COUNT(*) FROM rehan WHERE userId = u.id AND deletedAt IS NULL) as rehanCount,
+              (SELECT COUNT(*) FROM lenden WHERE userId = u.id AND deletedAt IS NULL) as lendenCount
        FROM users u
+       WHERE u.deletedAt IS NULL
        ORDER BY u.createdAt DESC`,
     );
     return rows;
@@ -897,10 +1508,11 @@ export const searchUsersWithCounts = async (
     const searchPattern = `%${query}%`;
     const rows = await database.getAllAsync<UserWithCounts>(
       `SELECT u.id, u.name, u.address, u.mobileNumber, u.nickname, u.createdAt,
-              (SELECT COUNT(*) FROM rehan WHERE userId = u.id) as rehanCount,
-              (SELECT COUNT(*) FROM lenden WHERE userId = u.id) as lendenCount
+              (SELECT COUNT(*) FROM rehan WHERE userId = u.id AND deletedAt IS NULL) as rehanCount,
+              (SELECT COUNT(*) FROM lenden WHERE userId = u.id AND deletedAt IS NULL) as lendenCount
        FROM users u
-       WHERE u.name LIKE ? OR u.address LIKE ? OR u.mobileNumber LIKE ?
+       WHERE u.deletedAt IS NULL
+       AND (u.name LIKE ? OR u.address LIKE ? OR u.mobileNumber LIKE ?)
        ORDER BY u.createdAt DESC`,
       searchPattern,
       searchPattern,
@@ -921,6 +1533,7 @@ export interface UserFilterOptions {
   dateFrom?: string;
   dateTo?: string;
   transactionType?: "rehan" | "lenden" | "both";
+  pledgedItem?: string; // Item type, metal or purity of an active Rehan
 }
 
 // Filter users with counts based on multiple criteria
@@ -930,8 +1543,8 @@ export const filterUsersWithCounts = async (
   try {
     const database = await openDatabase();
 
-    // Build dynamic WHERE clause
-    const conditions: string[] = [];
+    // Build dynamic WHERE clause (never include customers in the recycle bin)
+    const conditions: string[] = ["u.deletedAt IS NULL"];
     const params: (string | number)[] = [];
 
     // Name filter
@@ -952,12 +1565,22 @@ export const filterUsersWithCounts = async (
       params.push(`%${filters.mobileNumber.trim()}%`);
     }
 
+    // Pledged item filter - customers with an active Rehan holding a match
+    if (filters.pledgedItem && filters.pledgedItem.trim()) {
+      const itemPattern = `%${filters.pledgedItem.trim()}%`;
+      conditions.push(
+        `EXISTS (SELECT 1 FROM rehan r WHERE r.userId = u.id AND r.deletedAt IS NULL AND (r.productName LIKE ? OR ${REHAN_ITEM_MATCH}))`,
+      );
+      params.push(itemPattern, itemPattern, itemPattern, itemPattern);
+    }
+
     // Transaction type filter - only include users with transactions of the specified type
     if (filters.transactionType && filters.transactionType !== "both") {
       if (filters.transactionType === "rehan") {
         // Date filter for rehan
         if (filters.dateFrom || filters.dateTo) {
-          let dateCondition = "(SELECT COUNT(*) FROM rehan WHERE userId = u.id";
+          let dateCondition =
+            "(SELECT COUNT(*) FROM rehan WHERE userId = u.id AND deletedAt IS NULL";
           if (filters.dateFrom) {
             dateCondition += " AND date(openDate) >= date(?)";
             params.push(filters.dateFrom);
@@ -970,14 +1593,14 @@ export const filterUsersWithCounts = async (
           conditions.push(dateCondition);
         } else {
           conditions.push(
-            "(SELECT COUNT(*) FROM rehan WHERE userId = u.id) > 0",
+            "(SELECT COUNT(*) FROM rehan WHERE userId = u.id AND deletedAt IS NULL) > 0",
           );
         }
       } else if (filters.transactionType === "lenden") {
         // Date filter for lenden
         if (filters.dateFrom || filters.dateTo) {
           let dateCondition =
-            "(SELECT COUNT(*) FROM lenden WHERE userId = u.id";
+            "(SELECT COUNT(*) FROM lenden WHERE userId = u.id AND deletedAt IS NULL";
           if (filters.dateFrom) {
             dateCondition += " AND date(date) >= date(?)";
             params.push(filters.dateFrom);
@@ -990,14 +1613,16 @@ export const filterUsersWithCounts = async (
           conditions.push(dateCondition);
         } else {
           conditions.push(
-            "(SELECT COUNT(*) FROM lenden WHERE userId = u.id) > 0",
+            "(SELECT COUNT(*) FROM lenden WHERE userId = u.id AND deletedAt IS NULL) > 0",
           );
         }
       }
     } else if (filters.dateFrom || filters.dateTo) {
       // Date filter for both transaction types
-      let rehanCondition = "(SELECT COUNT(*) FROM rehan WHERE userId = u.id";
-      let lendenCondition = "(SELECT COUNT(*) FROM lenden WHERE userId = u.id";
+      let rehanCondition =
+        "(SELECT COUNT(*) FROM rehan WHERE userId = u.id AND deletedAt IS NULL";
+      let lendenCondition =
+        "(SELECT COUNT(*) FROM lenden WHERE userId = u.id AND deletedAt IS NULL";
 
       if (filters.dateFrom) {
         rehanCondition += " AND date(openDate) >= date(?)";
@@ -1026,14 +1651,11 @@ export const filterUsersWithCounts = async (
 
     // Build the final query
     let query = `SELECT u.id, u.name, u.address, u.mobileNumber, u.nickname, u.createdAt,
-              (SELECT COUNT(*) FROM rehan WHERE userId = u.id) as rehanCount,
-              (SELECT COUNT(*) FROM lenden WHERE userId = u.id) as lendenCount
+              (SELECT COUNT(*) FROM rehan WHERE userId = u.id AND deletedAt IS NULL) as rehanCount,
+              (SELECT COUNT(*) FROM lenden WHERE userId = u.id AND deletedAt IS NULL) as lendenCount
        FROM users u`;
 
-    if (conditions.length > 0) {
-      query += ` WHERE ${conditions.join(" AND ")}`;
-    }
-
+    query += ` WHERE ${conditions.join(" AND ")}`;
     query += " ORDER BY u.createdAt DESC";
 
     const rows = await database.getAllAsync<UserWithCounts>(query, ...params);
@@ -1057,13 +1679,13 @@ export const getTransactionsByUserId = async (
 
     // Get Rehan entries
     const rehanRows = await database.getAllAsync<Rehan>(
-      "SELECT * FROM rehan WHERE userId = ? ORDER BY openDate DESC",
+      "SELECT * FROM rehan WHERE userId = ? AND deletedAt IS NULL ORDER BY openDate DESC",
       userId,
     );
 
     // Get Lenden entries
     const lendenRows = await database.getAllAsync<Lenden>(
-      "SELECT * FROM lenden WHERE userId = ? ORDER BY date DESC",
+      "SELECT * FROM lenden WHERE userId = ? AND deletedAt IS NULL ORDER BY date DESC",
       userId,
     );
 
@@ -1116,17 +1738,63 @@ export const getTransactionsByUserId = async (
 
 // ============ JAMA ENTRIES CRUD ============
 
-// Create new Jama Entry
+// Insert a Jama Entry row (does not touch the Lenden baki)
+const insertJamaEntry = async (
+  database: SQLite.SQLiteDatabase,
+  entry: NewJamaEntry,
+): Promise<number> => {
+  const result = await database.runAsync(
+    "INSERT INTO jama_entries (lendenId, amount, date) VALUES (?, ?, ?)",
+    entry.lendenId,
+    entry.amount,
+    entry.date,
+  );
+  await recordCreate(database, "jama_entry", result.lastInsertRowId);
+  return result.lastInsertRowId;
+};
+
+// Recalculate Lenden baki from its jama entries and auto-close if baki = 0
+const recalculateLendenBaki = async (
+  database: SQLite.SQLiteDatabase,
+  lendenId: number,
+): Promise<void> => {
+  const lenden = await database.getFirstAsync<Lenden>(
+    "SELECT * FROM lenden WHERE id = ?",
+    lendenId,
+  );
+  if (!lenden) return;
+
+  const row = await database.getFirstAsync<{ total: number }>(
+    "SELECT COALESCE(SUM(amount), 0) as total FROM jama_entries WHERE lendenId = ? AND deletedAt IS NULL",
+    lendenId,
+  );
+  const totalJama = row?.total ?? 0;
+  const remaining = lenden.remaining || 0;
+  const baki = remaining - totalJama;
+  const finalBaki = baki >= 0 ? baki : 0;
+
+  // Auto-close if baki becomes 0
+  const status = finalBaki === 0 ? 1 : 0;
+  if (lenden.baki === finalBaki && lenden.status === status) return;
+
+  await auditedWrite(database, "lenden", lendenId, "update", () =>
+    database.runAsync(
+      "UPDATE lenden SET baki = ?, status = ? WHERE id = ?",
+      finalBaki,
+      status,
+      lendenId,
+    ),
+  );
+};
+
+// Create new Jama Entry and update the Lenden baki
 export const createJamaEntry = async (entry: NewJamaEntry): Promise<number> => {
   try {
-    const database = await openDatabase();
-    const result = await database.runAsync(
-      "INSERT INTO jama_entries (lendenId, amount, date) VALUES (?, ?, ?)",
-      entry.lendenId,
-      entry.amount,
-      entry.date,
-    );
-    return result.lastInsertRowId;
+    return await runInTransaction(async (txn) => {
+      const id = await insertJamaEntry(txn, entry);
+      await recalculateLendenBaki(txn, entry.lendenId);
+      return id;
+    });
   } catch (error) {
     console.error("Error creating jama entry:", error);
     throw error;
@@ -1140,7 +1808,7 @@ export const getJamaEntriesByLendenId = async (
   try {
     const database = await openDatabase();
     const rows = await database.getAllAsync<JamaEntry>(
-      "SELECT * FROM jama_entries WHERE lendenId = ? ORDER BY date ASC",
+      "SELECT * FROM jama_entries WHERE lendenId = ? AND deletedAt IS NULL ORDER BY date ASC",
       lendenId,
     );
     return rows;
@@ -1150,11 +1818,23 @@ export const getJamaEntriesByLendenId = async (
   }
 };
 
-// Delete a Jama Entry
-export const deleteJamaEntry = async (id: number): Promise<void> => {
+// Move a Jama Entry to the recycle bin and update the Lenden baki
+export const deleteJamaEntry = async (
+  id: number,
+  reason?: string,
+): Promise<void> => {
   try {
-    const database = await openDatabase();
-    await database.runAsync("DELETE FROM jama_entries WHERE id = ?", id);
+    const deletedAt = new Date().toISOString();
+    await runInTransaction(async (txn) => {
+      const entry = await txn.getFirstAsync<JamaEntry>(
+        "SELECT * FROM jama_entries WHERE id = ?",
+        id,
+      );
+      if (!entry) return;
+
+      await moveToRecycleBin(txn, "jama_entry", id, deletedAt, reason);
+      await recalculateLendenBaki(txn, entry.lendenId);
+    });
   } catch (error) {
     console.error("Error deleting jama entry:", error);
     throw error;
@@ -1168,7 +1848,7 @@ export const getTotalJamaByLendenId = async (
   try {
     const database = await openDatabase();
     const row = await database.getFirstAsync<{ total: number }>(
-      "SELECT COALESCE(SUM(amount), 0) as total FROM jama_entries WHERE lendenId = ?",
+      "SELECT COALESCE(SUM(amount), 0) as total FROM jama_entries WHERE lendenId = ? AND deletedAt IS NULL",
       lendenId,
     );
     return row?.total ?? 0;
@@ -1181,46 +1861,1192 @@ export const getTotalJamaByLendenId = async (
 // Update Lenden baki based on jama entries and auto-close if baki = 0
 export const updateLendenBaki = async (lendenId: number): Promise<void> => {
   try {
-    const database = await openDatabase();
-    const lenden = await getLendenById(lendenId);
-    if (!lenden) return;
-
-    const totalJama = await getTotalJamaByLendenId(lendenId);
-    const remaining = lenden.remaining || 0;
-    const baki = remaining - totalJama;
-    const finalBaki = baki >= 0 ? baki : 0;
-
-    // Auto-close if baki becomes 0
-    const status = finalBaki === 0 ? 1 : 0;
-
-    await database.runAsync(
-      "UPDATE lenden SET baki = ?, status = ? WHERE id = ?",
-      finalBaki,
-      status,
-      lendenId,
-    );
+    await runInTransaction((txn) => recalculateLendenBaki(txn, lendenId));
   } catch (error) {
     console.error("Error updating lenden baki:", error);
     throw error;
   }
 };
 
-// Edit a Jama Entry
+// Edit a Jama Entry and update the Lenden baki
 export const editJamaEntry = async (
   id: number,
   amount: number,
   date: string,
+  reason?: string,
 ): Promise<void> => {
+  try {
+    await runInTransaction(async (txn) => {
+      const entry = await txn.getFirstAsync<JamaEntry>(
+        "SELECT * FROM jama_entries WHERE id = ?",
+        id,
+      );
+      if (!entry) return;
+
+      await auditedWrite(
+        txn,
+        "jama_entry",
+        id,
+        "update",
+        () =>
+          txn.runAsync(
+            "UPDATE jama_entries SET amount = ?, date = ? WHERE id = ?",
+            amount,
+            date,
+            id,
+          ),
+        reason,
+      );
+      await recalculateLendenBaki(txn, entry.lendenId);
+    });
+  } catch (error) {
+    console.error("Error editing jama entry:", error);
+    throw error;
+  }
+};
+
+// ============ GST INVOICES ============
+
+/**
+ * Issue a GST invoice for a Lenden. The invoice takes the next number in its
+ * financial year's series, so numbers run without gaps and are never reused.
+ */
+export const createInvoice = async (invoice: NewInvoice): Promise<number> => {
+  try {
+    return await runInTransaction(async (txn) => {
+      const existing = await txn.getFirstAsync<{ id: number }>(
+        "SELECT id FROM invoices WHERE lendenId = ?",
+        invoice.lendenId,
+      );
+      if (existing) {
+        throw new Error("This bill already has a GST invoice");
+      }
+
+      const last = await txn.getFirstAsync<{ sequence: number | null }>(
+        "SELECT MAX(sequence) as sequence FROM invoices WHERE financialYear = ?",
+        invoice.financialYear,
+      );
+      const result = await txn.runAsync(
+        "INSERT INTO invoices (lendenId, financialYear, sequence, date, customerName, customerAddress, customerGstin, customerPan, placeOfSupply, isInterState, taxableValue, cgst, sgst, igst, total, totalWeight, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+        invoice.lendenId,
+        invoice.financialYear,
+        (last?.sequence ?? 0) + 1,
+        invoice.date,
+        invoice.customerName,
+        invoice.customerAddress || null,
+        invoice.customerGstin || null,
+        invoice.customerPan || null,
+        invoice.placeOfSupply,
+        invoice.isInterState ? 1 : 0,
+        invoice.taxableValue,
+        invoice.cgst,
+        invoice.sgst,
+        invoice.igst,
+        invoice.total,
+        invoice.totalWeight ?? null,
+        new Date().toISOString(),
+      );
+      await recordCreate(txn, "invoice", result.lastInsertRowId);
+      return result.lastInsertRowId;
+    });
+  } catch (error) {
+    console.error("Error creating invoice:", error);
+    throw error;
+  }
+};
+
+// Get the GST invoice issued for a Lenden, if any
+export const getInvoiceByLendenId = async (
+  lendenId: number,
+): Promise<Invoice | null> => {
+  try {
+    const database = await openDatabase();
+    const row = await database.getFirstAsync<Invoice>(
+      "SELECT * FROM invoices WHERE lendenId = ?",
+      lendenId,
+    );
+    return row || null;
+  } catch (error) {
+    console.error("Error getting invoice:", error);
+    return null;
+  }
+};
+
+// Get the customer's latest invoice, to reuse their GSTIN and PAN
+export const getLastInvoiceForUser = async (
+  userId: number,
+): Promise<Invoice | null> => {
+  try {
+    const database = await openDatabase();
+    const row = await database.getFirstAsync<Invoice>(
+      `SELECT i.* FROM invoices i
+       JOIN lenden l ON l.id = i.lendenId
+       WHERE l.userId = ?
+       ORDER BY i.date DESC, i.id DESC
+       LIMIT 1`,
+      userId,
+    );
+    return row || null;
+  } catch (error) {
+    console.error("Error getting last invoice for user:", error);
+    return null;
+  }
+};
+
+// Invoices dated within the range, in number order. Issued invoices stay in
+// the register even if their bill was deleted.
+export const getInvoicesInRange = async (
+  range: ReportDateRange,
+): Promise<Invoice[]> => {
   try {
     const database = await openDatabase();
-    await database.runAsync(
-      "UPDATE jama_entries SET amount = ?, date = ? WHERE id = ?",
-      amount,
-      date,
+    return await database.getAllAsync<Invoice>(
+      `SELECT * FROM invoices
+       WHERE date BETWEEN ? AND ?
+       ORDER BY financialYear, sequence`,
+      range.from,
+      range.to,
+    );
+  } catch (error) {
+    console.error("Error getting invoices:", error);
+    throw error;
+  }
+};
+
+// ============ REMINDERS ============
+
+// Log a payment reminder sent to a customer
+export const createReminder = async (
+  reminder: NewReminder,
+): Promise<number> => {
+  try {
+    const database = await openDatabase();
+    const result = await database.runAsync(
+      "INSERT INTO reminders (userId, channel, language, message, lendenBaki, rehanAmount, sentAt) VALUES (?, ?, ?, ?, ?, ?, ?)",
+      reminder.userId,
+      reminder.channel,
+      reminder.language,
+      reminder.message,
+      reminder.lendenBaki,
+      reminder.rehanAmount,
+      new Date().toISOString(),
+    );
+    return result.lastInsertRowId;
+  } catch (error) {
+    console.error("Error creating reminder:", error);
+    throw error;
+  }
+};
+
+// Reminders sent to a customer, latest first
+export const getRemindersByUserId = async (
+  userId: number,
+): Promise<Reminder[]> => {
+  try {
+    const database = await openDatabase();
+    return await database.getAllAsync<Reminder>(
+      "SELECT * FROM reminders WHERE userId = ? ORDER BY sentAt DESC, id DESC",
+      userId,
+    );
+  } catch (error) {
+    console.error("Error getting reminders:", error);
+    return [];
+  }
+};
+
+// ============ AUDIT LOG ============
+
+// Get the change history of one Rehan or Lenden, including its
+// transactions and items / jama entries, newest first
+export const getAuditLogForTransaction = async (
+  type: "rehan" | "lenden",
+  id: number,
+): Promise<AuditLogEntry[]> => {
+  try {
+    const database = await openDatabase();
+    const childEntities: AuditEntity[] =
+      type === "rehan"
+        ? ["rehan_transaction", "rehan_item"]
+        : ["jama_entry", "lenden_item", "invoice"];
+    const parentKey = type === "rehan" ? "$.rehanId" : "$.lendenId";
+    const rows = await database.getAllAsync<AuditLogEntry>(
+      `SELECT * FROM audit_log
+       WHERE (entity = ? AND entityId = ?)
+          OR (entity IN (${childEntities.map(() => "?").join(", ")})
+              AND json_extract(COALESCE(after, before), ?) = ?)
+       ORDER BY timestamp DESC, id DESC`,
+      type,
+      id,
+      ...childEntities,
+      parentKey,
       id,
     );
+    return rows;
   } catch (error) {
-    console.error("Error editing jama entry:", error);
+    console.error("Error getting audit log for transaction:", error);
+    return [];
+  }
+};
+
+// Get recent audit log entries, optionally filtered by entity
+export const getAuditLog = async (
+  entity?: AuditEntity,
+  limit = 200,
+): Promise<AuditLogEntry[]> => {
+  try {
+    const database = await openDatabase();
+    const rows = entity
+      ? await database.getAllAsync<AuditLogEntry>(
+          "SELECT * FROM audit_log WHERE entity = ? ORDER BY timestamp DESC, id DESC LIMIT ?",
+          entity,
+          limit,
+        )
+      : await database.getAllAsync<AuditLogEntry>(
+          "SELECT * FROM audit_log ORDER BY timestamp DESC, id DESC LIMIT ?",
+          limit,
+        );
+    return rows;
+  } catch (error) {
+    console.error("Error getting audit log:", error);
+    return [];
+  }
+};
+
+// ============ RECYCLE BIN ============
+
+// Parse a media column, tolerating rows with malformed JSON
+const parseMedia = (media: string | null): string[] => {
+  try {
+    return media ? JSON.parse(media) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Permanently remove a Rehan with its transactions and items, returns its
+// media paths (release photos included)
+const purgeRehan = async (
+  database: SQLite.SQLiteDatabase,
+  id: number,
+): Promise<string[]> => {
+  const rehan = await database.getFirstAsync<Rehan>(
+    "SELECT * FROM rehan WHERE id = ?",
+    id,
+  );
+  if (!rehan) return [];
+
+  const items = await database.getAllAsync<RehanItem>(
+    "SELECT * FROM rehan_items WHERE rehanId = ?",
+    id,
+  );
+
+  await database.runAsync(
+    "DELETE FROM rehan_transactions WHERE rehanId = ?",
+    id,
+  );
+  await database.runAsync("DELETE FROM rehan_items WHERE rehanId = ?", id);
+  await auditedWrite(database, "rehan", id, "purge", () =>
+    database.runAsync("DELETE FROM rehan WHERE id = ?", id),
+  );
+  return [
+    ...parseMedia(rehan.media),
+    ...items.flatMap((item) => parseMedia(item.releaseMedia ?? null)),
+  ];
+};
+
+// Permanently remove a Lenden and its jama entries, returns its media paths
+const purgeLenden = async (
+  database: SQLite.SQLiteDatabase,
+  id: number,
+): Promise<string[]> => {
+  const lenden = await database.getFirstAsync<Lenden>(
+    "SELECT * FROM lenden WHERE id = ?",
+    id,
+  );
+  if (!lenden) return [];
+
+  await database.runAsync("DELETE FROM jama_entries WHERE lendenId = ?", id);
+  await database.runAsync("DELETE FROM lenden_items WHERE lendenId = ?", id);
+  // An issued invoice has to stay in the register; it only loses the link
+  await database.runAsync(
+    "UPDATE invoices SET lendenId = NULL WHERE lendenId = ?",
+    id,
+  );
+  await auditedWrite(database, "lenden", id, "purge", () =>
+    database.runAsync("DELETE FROM lenden WHERE id = ?", id),
+  );
+  return parseMedia(lenden.media);
+};
+
+// Get everything in the recycle bin, most recently deleted first.
+// Entries deleted together with their customer are restored/purged with the
+// customer, so only the customer is listed for them. A jama entry deleted on
+// its own stays listed when its Lenden is deleted later.
+export const getRecycleBinItems = async (): Promise<RecycleBinItem[]> => {
+  try {
+    const database = await openDatabase();
+    const rows = await database.getAllAsync<RecycleBinItem>(
+      `SELECT 'user' as entity, u.id, u.deletedAt, u.name as userName,
+              NULL as productName, NULL as amount
+       FROM users u
+       WHERE u.deletedAt IS NOT NULL
+       UNION ALL
+       SELECT 'rehan', r.id, r.deletedAt, u.name, r.productName, r.amount
+       FROM rehan r
+       JOIN users u ON r.userId = u.id
+       WHERE r.deletedAt IS NOT NULL
+       AND (u.deletedAt IS NULL OR u.deletedAt != r.deletedAt)
+       UNION ALL
+       SELECT 'lenden', l.id, l.deletedAt, u.name, NULL, l.amount
+       FROM lenden l
+       JOIN users u ON l.userId = u.id
+       WHERE l.deletedAt IS NOT NULL
+       AND (u.deletedAt IS NULL OR u.deletedAt != l.deletedAt)
+       UNION ALL
+       SELECT 'jama_entry', j.id, j.deletedAt, u.name, NULL, j.amount
+       FROM jama_entries j
+       JOIN lenden l ON j.lendenId = l.id
+       JOIN users u ON l.userId = u.id
+       WHERE j.deletedAt IS NOT NULL
+       AND (l.deletedAt IS NULL OR l.deletedAt != j.deletedAt)
+       ORDER BY deletedAt DESC`,
+    );
+    return rows;
+  } catch (error) {
+    console.error("Error getting recycle bin items:", error);
+    return [];
+  }
+};
+
+// Bring a record back out of the recycle bin
+export const restoreRecycleBinItem = async (
+  entity: RecycleBinEntity,
+  id: number,
+): Promise<void> => {
+  try {
+    const table = AUDIT_TABLES[entity];
+    await runInTransaction(async (txn) => {
+      const row = await txn.getFirstAsync<{ deletedAt: string | null }>(
+        `SELECT deletedAt FROM ${table} WHERE id = ?`,
+        id,
+      );
+      if (!row?.deletedAt) return;
+
+      await auditedWrite(txn, entity, id, "restore", () =>
+        txn.runAsync(`UPDATE ${table} SET deletedAt = NULL WHERE id = ?`, id),
+      );
+
+      if (entity === "user") {
+        // Restore the entries that were deleted along with the customer
+        for (const child of ["rehan", "lenden"] as const) {
+          const childTable = AUDIT_TABLES[child];
+          const rows = await txn.getAllAsync<{ id: number }>(
+            `SELECT id FROM ${childTable} WHERE userId = ? AND deletedAt = ?`,
+            id,
+            row.deletedAt,
+          );
+          for (const { id: childId } of rows) {
+            await auditedWrite(txn, child, childId, "restore", () =>
+              txn.runAsync(
+                `UPDATE ${childTable} SET deletedAt = NULL WHERE id = ?`,
+                childId,
+              ),
+            );
+          }
+        }
+      } else if (entity === "jama_entry") {
+        const entry = await txn.getFirstAsync<JamaEntry>(
+          "SELECT * FROM jama_entries WHERE id = ?",
+          id,
+        );
+        if (entry) await recalculateLendenBaki(txn, entry.lendenId);
+      }
+    });
+  } catch (error) {
+    console.error("Error restoring recycle bin item:", error);
+    throw error;
+  }
+};
+
+// Permanently remove a record from the recycle bin.
+// Returns the media paths it owned so the caller can delete the files.
+export const purgeRecycleBinItem = async (
+  entity: RecycleBinEntity,
+  id: number,
+): Promise<string[]> => {
+  try {
+    return await runInTransaction(async (txn) => {
+      const row = await txn.getFirstAsync<{ deletedAt: string | null }>(
+        `SELECT deletedAt FROM ${AUDIT_TABLES[entity]} WHERE id = ?`,
+        id,
+      );
+      // Only records that are in the recycle bin can be purged
+      if (!row?.deletedAt) return [];
+
+      if (entity === "rehan") return purgeRehan(txn, id);
+      if (entity === "lenden") return purgeLenden(txn, id);
+
+      if (entity === "jama_entry") {
+        await auditedWrite(txn, "jama_entry", id, "purge", () =>
+          txn.runAsync("DELETE FROM jama_entries WHERE id = ?", id),
+        );
+        return [];
+      }
+
+      // Customer: purge every entry they had, then the customer
+      const media: string[] = [];
+      const rehans = await txn.getAllAsync<{ id: number }>(
+        "SELECT id FROM rehan WHERE userId = ?",
+        id,
+      );
+      for (const rehan of rehans) {
+        media.push(...(await purgeRehan(txn, rehan.id)));
+      }
+      const lendens = await txn.getAllAsync<{ id: number }>(
+        "SELECT id FROM lenden WHERE userId = ?",
+        id,
+      );
+      for (const lenden of lendens) {
+        media.push(...(await purgeLenden(txn, lenden.id)));
+      }
+      await txn.runAsync("DELETE FROM reminders WHERE userId = ?", id);
+      await auditedWrite(txn, "user", id, "purge", () =>
+        txn.runAsync("DELETE FROM users WHERE id = ?", id),
+      );
+      return media;
+    });
+  } catch (error) {
+    console.error("Error purging recycle bin item:", error);
+    throw error;
+  }
+};
+
+// ============ BACKUP & IMPORT ============
+
+// Every row of every table, as written to / read from a backup file
+export interface BackupRecords {
+  users: User[];
+  rehan: Rehan[];
+  rehanTransactions: RehanTransaction[];
+  rehanItems: RehanItem[];
+  lenden: Lenden[];
+  lendenItems: LendenItem[];
+  jamaEntries: JamaEntry[];
+  invoices: Invoice[];
+  reminders: Reminder[];
+  auditLog: AuditLogEntry[];
+}
+
+export interface ImportOptions {
+  // Keep the backup's ids (only safe when restoring into an empty database)
+  keepIds: boolean;
+  // Backup user id -> existing user id whose entries should be attached there
+  existingUserIds?: Record<number, number>;
+}
+
+export interface ImportCounts {
+  users: number;
+  rehan: number;
+  rehanTransactions: number;
+  rehanItems: number;
+  lenden: number;
+  lendenItems: number;
+  jamaEntries: number;
+  invoices: number;
+  skippedInvoices: number; // Their invoice numbers were already issued here
+  reminders: number;
+}
+
+// Read every table (including the recycle bin) as one consistent snapshot
+export const getBackupRecords = async (): Promise<BackupRecords> => {
+  try {
+    return await runInTransaction(async (txn) => ({
+      users: await txn.getAllAsync<User>("SELECT * FROM users ORDER BY id"),
+      rehan: await txn.getAllAsync<Rehan>("SELECT * FROM rehan ORDER BY id"),
+      rehanTransactions: await txn.getAllAsync<RehanTransaction>(
+        "SELECT * FROM rehan_transactions ORDER BY id",
+      ),
+      rehanItems: await txn.getAllAsync<RehanItem>(
+        "SELECT * FROM rehan_items ORDER BY id",
+      ),
+      lenden: await txn.getAllAsync<Lenden>(
+        "SELECT * FROM lenden ORDER BY id",
+      ),
+      lendenItems: await txn.getAllAsync<LendenItem>(
+        "SELECT * FROM lenden_items ORDER BY id",
+      ),
+      jamaEntries: await txn.getAllAsync<JamaEntry>(
+        "SELECT * FROM jama_entries ORDER BY id",
+      ),
+      invoices: await txn.getAllAsync<Invoice>(
+        "SELECT * FROM invoices ORDER BY id",
+      ),
+      reminders: await txn.getAllAsync<Reminder>(
+        "SELECT * FROM reminders ORDER BY id",
+      ),
+      auditLog: await txn.getAllAsync<AuditLogEntry>(
+        "SELECT * FROM audit_log ORDER BY id",
+      ),
+    }));
+  } catch (error) {
+    console.error("Error reading backup records:", error);
+    throw error;
+  }
+};
+
+// Check if the database has no records at all (including the recycle bin)
+export const isDatabaseEmpty = async (): Promise<boolean> => {
+  try {
+    const database = await openDatabase();
+    const row = await database.getFirstAsync<{ count: number }>(
+      `SELECT (SELECT COUNT(*) FROM users)
+            + (SELECT COUNT(*) FROM rehan)
+            + (SELECT COUNT(*) FROM lenden) as count`,
+    );
+    return (row?.count ?? 0) === 0;
+  } catch (error) {
+    console.error("Error checking if database is empty:", error);
+    return false;
+  }
+};
+
+// Find an active customer with exactly this name and mobile number
+export const findUserByNameAndMobile = async (
+  name: string,
+  mobileNumber: string | null,
+): Promise<User | null> => {
+  try {
+    const database = await openDatabase();
+    const row = await database.getFirstAsync<User>(
+      `SELECT * FROM users
+       WHERE deletedAt IS NULL
+       AND name = ? COLLATE NOCASE
+       AND (mobileNumber = ? OR (mobileNumber IS NULL AND ? IS NULL))`,
+      name.trim(),
+      mobileNumber || null,
+      mobileNumber || null,
+    );
+    return row || null;
+  } catch (error) {
+    console.error("Error finding user by name and mobile:", error);
+    return null;
+  }
+};
+
+// Insert backup records in one transaction. Unless ids are kept, every row
+// gets a new id and references between rows are remapped to match.
+// The backup's audit log is only carried over when ids are kept.
+export const importRecords = async (
+  records: BackupRecords,
+  options: ImportOptions,
+): Promise<ImportCounts> => {
+  const reason = "Imported from backup";
+  try {
+    return await runInTransaction(async (txn) => {
+      const userIds: Record<number, number> = {
+        ...options.existingUserIds,
+      };
+      const rehanIds: Record<number, number> = {};
+      const rehanTransactionIds: Record<number, number> = {};
+      const lendenIds: Record<number, number> = {};
+      const counts: ImportCounts = {
+        users: 0,
+        rehan: 0,
+        rehanTransactions: 0,
+        rehanItems: 0,
+        lenden: 0,
+        lendenItems: 0,
+        jamaEntries: 0,
+        invoices: 0,
+        skippedInvoices: 0,
+        reminders: 0,
+      };
+
+      // Earlier history goes in first so it reads in order
+      if (options.keepIds) {
+        for (const entry of records.auditLog) {
+          await txn.runAsync(
+            "INSERT INTO audit_log (entity, entityId, action, before, after, timestamp, reason) VALUES (?, ?, ?, ?, ?, ?, ?)",
+            entry.entity,
+            entry.entityId,
+            entry.action,
+            entry.before,
+            entry.after,
+            entry.timestamp,
+            entry.reason,
+          );
+        }
+      }
+
+      for (const user of records.users) {
+        if (userIds[user.id] !== undefined) continue; // Already exists here
+
+        const result = await txn.runAsync(
+          "INSERT INTO users (id, name, address, mobileNumber, nickname, createdAt, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?)",
+          options.keepIds ? user.id : null,
+          user.name,
+          user.address || null,
+          user.mobileNumber || null,
+          user.nickname || null,
+          user.createdAt || new Date().toISOString(),
+          user.deletedAt || null,
+        );
+        userIds[user.id] = result.lastInsertRowId;
+        await recordCreate(txn, "user", result.lastInsertRowId, reason);
+        counts.users += 1;
+      }
+
+      for (const rehan of records.rehan) {
+        const userId = userIds[rehan.userId];
+        if (userId === undefined) continue; // Customer was skipped
+
+        const result = await txn.runAsync(
+          "INSERT INTO rehan (id, userId, media, status, openDate, closedDate, productName, amount, openingAmount, interestRate, interestMode, parentRehanId, settlementPrincipal, settlementInterest, settlementPaid, settlementWaived, settlementCarriedForward, settlementNote, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+          options.keepIds ? rehan.id : null,
+          userId,
+          rehan.media,
+          rehan.status ?? 0,
+          rehan.openDate,
+          rehan.closedDate || null,
+          rehan.productName || null,
+          rehan.amount ?? null,
+          rehan.openingAmount ?? null,
+          rehan.interestRate || 0,
+          rehan.interestMode || "simple",
+          // Backups list parents before the renewals opened from them
+          rehan.parentRehanId
+            ? (rehanIds[rehan.parentRehanId] ?? null)
+            : null,
+          rehan.settlementPrincipal ?? null,
+          rehan.settlementInterest ?? null,
+          rehan.settlementPaid ?? null,
+          rehan.settlementWaived ?? null,
+          rehan.settlementCarriedForward ?? null,
+          rehan.settlementNote || null,
+          rehan.deletedAt || null,
+        );
+        rehanIds[rehan.id] = result.lastInsertRowId;
+        await recordCreate(txn, "rehan", result.lastInsertRowId, reason);
+        counts.rehan += 1;
+      }
+
+      for (const transaction of records.rehanTransactions) {
+        const rehanId = rehanIds[transaction.rehanId];
+        if (rehanId === undefined) continue; // Rehan was skipped
+
+        const result = await txn.runAsync(
+          "INSERT INTO rehan_transactions (id, rehanId, type, amount, date) VALUES (?, ?, ?, ?, ?)",
+          options.keepIds ? transaction.id : null,
+          rehanId,
+          transaction.type,
+          transaction.amount,
+          transaction.date,
+        );
+        await recordCreate(
+          txn,
+          "rehan_transaction",
+          result.lastInsertRowId,
+          reason,
+        );
+        rehanTransactionIds[transaction.id] = result.lastInsertRowId;
+        counts.rehanTransactions += 1;
+      }
+
+      // Backups from before the opening principal was stored only have the
+      // running balance: work it out as migration 13 does
+      await txn.runAsync(
+        `UPDATE rehan SET openingAmount = COALESCE(amount, 0) + COALESCE((
+           SELECT SUM(CASE WHEN t.type = 'diya' THEN -t.amount ELSE t.amount END)
+           FROM rehan_transactions t WHERE t.rehanId = rehan.id
+         ), 0),
+         amount = CASE WHEN status = 1 THEN 0 ELSE amount END
+         WHERE openingAmount IS NULL`,
+      );
+
+      for (const item of records.rehanItems) {
+        const rehanId = rehanIds[item.rehanId];
+        if (rehanId === undefined) continue; // Rehan was skipped
+
+        const result = await txn.runAsync(
+          "INSERT INTO rehan_items (id, rehanId, itemType, metal, purity, grossWeight, netWeight, pieces, releasedAt, releaseTransactionId, releaseMedia) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+          options.keepIds ? item.id : null,
+          rehanId,
+          item.itemType,
+          item.metal,
+          item.purity || null,
+          item.grossWeight ?? null,
+          item.netWeight ?? null,
+          item.pieces || 1,
+          item.releasedAt || null,
+          item.releaseTransactionId
+            ? (rehanTransactionIds[item.releaseTransactionId] ?? null)
+            : null,
+          item.releaseMedia || null,
+        );
+        await recordCreate(txn, "rehan_item", result.lastInsertRowId, reason);
+        counts.rehanItems += 1;
+      }
+
+      for (const lenden of records.lenden) {
+        const userId = userIds[lenden.userId];
+        if (userId === undefined) continue; // Customer was skipped
+
+        const result = await txn.runAsync(
+          "INSERT INTO lenden (id, userId, date, media, amount, discount, remaining, jama, baki, status, installmentCount, installmentFrequency, firstDueDate, deletedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+          options.keepIds ? lenden.id : null,
+          userId,
+          lenden.date,
+          lenden.media,
+          lenden.amount ?? null,
+          lenden.discount ?? null,
+          lenden.remaining ?? null,
+          lenden.jama ?? null,
+          lenden.baki ?? null,
+          lenden.status ?? 0,
+          lenden.installmentCount || null,
+          lenden.installmentFrequency || null,
+          lenden.firstDueDate || null,
+          lenden.deletedAt || null,
+        );
+        lendenIds[lenden.id] = result.lastInsertRowId;
+        await recordCreate(txn, "lenden", result.lastInsertRowId, reason);
+        counts.lenden += 1;
+      }
+
+      for (const item of records.lendenItems) {
+        const lendenId = lendenIds[item.lendenId];
+        if (lendenId === undefined) continue; // Lenden was skipped
+
+        const result = await txn.runAsync(
+          "INSERT INTO lenden_items (id, lendenId, description, metal, purity, grossWeight, netWeight, rate, makingChargeType, makingCharge, wastagePercent, stoneCharges, amount) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+          options.keepIds ? item.id : null,
+          lendenId,
+          item.description,
+          item.metal,
+          item.purity || null,
+          item.grossWeight ?? null,
+          item.netWeight ?? null,
+          item.rate || 0,
+          item.makingChargeType || "perGram",
+          item.makingCharge || 0,
+          item.wastagePercent || 0,
+          item.stoneCharges || 0,
+          item.amount || 0,
+        );
+        await recordCreate(txn, "lenden_item", result.lastInsertRowId, reason);
+        counts.lendenItems += 1;
+      }
+
+      for (const entry of records.jamaEntries) {
+        const lendenId = lendenIds[entry.lendenId];
+        if (lendenId === undefined) continue; // Lenden was skipped
+
+        const result = await txn.runAsync(
+          "INSERT INTO jama_entries (id, lendenId, amount, date, deletedAt) VALUES (?, ?, ?, ?, ?)",
+          options.keepIds ? entry.id : null,
+          lendenId,
+          entry.amount,
+          entry.date,
+          entry.deletedAt || null,
+        );
+        await recordCreate(txn, "jama_entry", result.lastInsertRowId, reason);
+        counts.jamaEntries += 1;
+      }
+
+      for (const invoice of records.invoices) {
+        const lendenId = invoice.lendenId ? lendenIds[invoice.lendenId] : null;
+        if (lendenId === undefined) continue; // Lenden was skipped
+
+        // An invoice number can only be issued once
+        const taken = await txn.getFirstAsync<{ id: number }>(
+          "SELECT id FROM invoices WHERE financialYear = ? AND sequence = ?",
+          invoice.financialYear,
+          invoice.sequence,
+        );
+        if (taken) {
+          counts.skippedInvoices += 1;
+          continue;
+        }
+
+        const result = await txn.runAsync(
+          "INSERT INTO invoices (id, lendenId, financialYear, sequence, date, customerName, customerAddress, customerGstin, customerPan, placeOfSupply, isInterState, taxableValue, cgst, sgst, igst, total, totalWeight, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+          options.keepIds ? invoice.id : null,
+          lendenId,
+          invoice.financialYear,
+          invoice.sequence,
+          invoice.date,
+          invoice.customerName,
+          invoice.customerAddress || null,
+          invoice.customerGstin || null,
+          invoice.customerPan || null,
+          invoice.placeOfSupply,
+          invoice.isInterState ? 1 : 0,
+          invoice.taxableValue,
+          invoice.cgst || 0,
+          invoice.sgst || 0,
+          invoice.igst || 0,
+          invoice.total,
+          invoice.totalWeight ?? null,
+          invoice.createdAt || new Date().toISOString(),
+        );
+        await recordCreate(txn, "invoice", result.lastInsertRowId, reason);
+        counts.invoices += 1;
+      }
+
+      for (const reminder of records.reminders) {
+        const userId = userIds[reminder.userId];
+        if (userId === undefined) continue; // Customer was skipped
+
+        await txn.runAsync(
+          "INSERT INTO reminders (id, userId, channel, language, message, lendenBaki, rehanAmount, sentAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+          options.keepIds ? reminder.id : null,
+          userId,
+          reminder.channel,
+          reminder.language,
+          reminder.message,
+          reminder.lendenBaki || 0,
+          reminder.rehanAmount || 0,
+          reminder.sentAt,
+        );
+        counts.reminders += 1;
+      }
+
+      return counts;
+    });
+  } catch (error) {
+    console.error("Error importing records:", error);
+    throw error;
+  }
+};
+
+// ============ REPORTS ============
+
+// Inclusive range of ISO timestamps; reports only include active records
+export interface ReportDateRange {
+  from: string;
+  to: string;
+}
+
+export interface RehanReportRow extends Rehan {
+  userName: string;
+}
+
+export interface RehanTransactionReportRow extends RehanTransaction {
+  userId: number;
+  userName: string;
+}
+
+export interface LendenReportRow extends Lenden {
+  userName: string;
+}
+
+export interface JamaEntryReportRow extends JamaEntry {
+  userId: number;
+  userName: string;
+}
+
+export type LedgerEntryType =
+  | "rehan_loan" // Rehan opened (not renewed) - principal given to customer
+  | "rehan_jama" // Customer paid towards a rehan
+  | "rehan_diya" // More money given against a rehan
+  | "lenden_bill" // Len-den bill (after discount)
+  | "lenden_jama"; // Customer paid towards a len-den bill
+
+// One money movement; debit = customer owes more, credit = customer paid
+export interface LedgerEntry {
+  date: string;
+  type: LedgerEntryType;
+  source: "rehan" | "lenden";
+  sourceId: number;
+  userId: number;
+  userName: string;
+  userMobileNumber: string | null;
+  debit: number;
+  credit: number;
+}
+
+export interface ReportRecords {
+  users: User[];
+  rehan: RehanReportRow[];
+  rehanTransactions: RehanTransactionReportRow[];
+  // Every transaction of the Rehan in `rehan` whatever its date, to work out
+  // what they still owe
+  rehanHistory: RehanTransaction[];
+  lenden: LendenReportRow[];
+  jamaEntries: JamaEntryReportRow[];
+  ledger: LedgerEntry[];
+}
+
+// Every money movement on an active record, as a subquery. A Rehan opened by
+// renewal takes over the old balance without any money changing hands, so
+// only first-time Rehan count as a loan. The loan is the stored opening
+// principal: a closed Rehan's balance is zero whatever was written off.
+const LEDGER_ENTRIES_SQL = `(
+        SELECT r.openDate as date, 'rehan_loan' as type, 'rehan' as source, r.id as sourceId,
+               u.id as userId, u.name as userName, u.mobileNumber as userMobileNumber,
+               COALESCE(r.openingAmount, COALESCE(r.amount, 0) + COALESCE((
+                 SELECT SUM(CASE t.type WHEN 'jama' THEN t.amount ELSE -t.amount END)
+                 FROM rehan_transactions t WHERE t.rehanId = r.id
+               ), 0)) as debit,
+               0 as credit
+        FROM rehan r JOIN users u ON r.userId = u.id
+        WHERE r.deletedAt IS NULL AND r.parentRehanId IS NULL
+        UNION ALL
+        SELECT t.date, CASE t.type WHEN 'jama' THEN 'rehan_jama' ELSE 'rehan_diya' END, 'rehan', r.id,
+               u.id, u.name, u.mobileNumber,
+               CASE t.type WHEN 'diya' THEN t.amount ELSE 0 END,
+               CASE t.type WHEN 'jama' THEN t.amount ELSE 0 END
+        FROM rehan_transactions t
+        JOIN rehan r ON t.rehanId = r.id
+        JOIN users u ON r.userId = u.id
+        WHERE r.deletedAt IS NULL
+        UNION ALL
+        SELECT l.date, 'lenden_bill', 'lenden', l.id,
+               u.id, u.name, u.mobileNumber,
+               COALESCE(l.remaining, 0), 0
+        FROM lenden l JOIN users u ON l.userId = u.id
+        WHERE l.deletedAt IS NULL
+        UNION ALL
+        SELECT j.date, 'lenden_jama', 'lenden', l.id,
+               u.id, u.name, u.mobileNumber,
+               0, j.amount
+        FROM jama_entries j
+        JOIN lenden l ON j.lendenId = l.id
+        JOIN users u ON l.userId = u.id
+        WHERE j.deletedAt IS NULL AND l.deletedAt IS NULL
+      )`;
+
+// Every money movement in the range, oldest first
+export const getLedgerEntries = async (
+  range: ReportDateRange,
+): Promise<LedgerEntry[]> => {
+  try {
+    const database = await openDatabase();
+    return await database.getAllAsync<LedgerEntry>(
+      `SELECT * FROM ${LEDGER_ENTRIES_SQL}
+      WHERE date >= ? AND date <= ?
+      ORDER BY date, sourceId`,
+      range.from,
+      range.to,
+    );
+  } catch (error) {
+    console.error("Error getting ledger entries:", error);
+    return [];
+  }
+};
+
+// Net money in (credit - debit) from every movement dated before a time
+export const getLedgerBalanceBefore = async (
+  before: string,
+): Promise<number> => {
+  try {
+    const database = await openDatabase();
+    const row = await database.getFirstAsync<{ balance: number }>(
+      `SELECT COALESCE(SUM(credit - debit), 0) as balance
+       FROM ${LEDGER_ENTRIES_SQL}
+       WHERE date < ?`,
+      before,
+    );
+    return row?.balance ?? 0;
+  } catch (error) {
+    console.error("Error getting ledger balance:", error);
+    throw error;
+  }
+};
+
+// Customers plus every entry dated in the range, for spreadsheet export
+export const getReportRecords = async (
+  range: ReportDateRange,
+): Promise<ReportRecords> => {
+  try {
+    const database = await openDatabase();
+    const params = [range.from, range.to];
+    return {
+      users: await database.getAllAsync<User>(
+        "SELECT * FROM users WHERE deletedAt IS NULL ORDER BY name COLLATE NOCASE",
+      ),
+      rehan: await database.getAllAsync<RehanReportRow>(
+        `SELECT r.*, u.name as userName
+         FROM rehan r JOIN users u ON r.userId = u.id
+         WHERE r.deletedAt IS NULL AND r.openDate >= ? AND r.openDate <= ?
+         ORDER BY r.openDate, r.id`,
+        params,
+      ),
+      rehanTransactions: await database.getAllAsync<RehanTransactionReportRow>(
+        `SELECT t.*, r.userId, u.name as userName
+         FROM rehan_transactions t
+         JOIN rehan r ON t.rehanId = r.id
+         JOIN users u ON r.userId = u.id
+         WHERE r.deletedAt IS NULL AND t.date >= ? AND t.date <= ?
+         ORDER BY t.date, t.id`,
+        params,
+      ),
+      rehanHistory: await database.getAllAsync<RehanTransaction>(
+        `SELECT t.* FROM rehan_transactions t
+         JOIN rehan r ON t.rehanId = r.id
+         WHERE r.deletedAt IS NULL AND r.openDate >= ? AND r.openDate <= ?
+         ORDER BY t.date, t.id`,
+        params,
+      ),
+      lenden: await database.getAllAsync<LendenReportRow>(
+        `SELECT l.*, u.name as userName
+         FROM lenden l JOIN users u ON l.userId = u.id
+         WHERE l.deletedAt IS NULL AND l.date >= ? AND l.date <= ?
+         ORDER BY l.date, l.id`,
+        params,
+      ),
+      jamaEntries: await database.getAllAsync<JamaEntryReportRow>(
+        `SELECT j.*, l.userId, u.name as userName
+         FROM jama_entries j
+         JOIN lenden l ON j.lendenId = l.id
+         JOIN users u ON l.userId = u.id
+         WHERE j.deletedAt IS NULL AND l.deletedAt IS NULL
+           AND j.date >= ? AND j.date <= ?
+         ORDER BY j.date, j.id`,
+        params,
+      ),
+      ledger: await getLedgerEntries(range),
+    };
+  } catch (error) {
+    console.error("Error getting report records:", error);
+    throw error;
+  }
+};
+
+// Open Rehan with its customer and the date of its latest jama
+export interface OpenRehanRow extends Rehan {
+  userName: string;
+  userMobileNumber: string | null;
+  lastPaymentDate: string | null;
+}
+
+export interface OpenRehanRecords {
+  rehan: OpenRehanRow[];
+  transactions: RehanTransaction[]; // Of those Rehan, for their interest
+}
+
+// Every active open Rehan, oldest first
+export const getOpenRehanRecords = async (): Promise<OpenRehanRecords> => {
+  try {
+    const database = await openDatabase();
+    const rehan = await database.getAllAsync<OpenRehanRow>(
+      `SELECT r.*, u.name as userName, u.mobileNumber as userMobileNumber,
+              (SELECT MAX(t.date) FROM rehan_transactions t
+               WHERE t.rehanId = r.id AND t.type = 'jama') as lastPaymentDate
+       FROM rehan r JOIN users u ON r.userId = u.id
+       WHERE r.status = 0 AND r.deletedAt IS NULL AND u.deletedAt IS NULL
+       ORDER BY r.openDate, r.id`,
+    );
+    const transactions = await database.getAllAsync<RehanTransaction>(
+      `SELECT t.* FROM rehan_transactions t
+       JOIN rehan r ON t.rehanId = r.id
+       JOIN users u ON r.userId = u.id
+       WHERE r.status = 0 AND r.deletedAt IS NULL AND u.deletedAt IS NULL
+       ORDER BY t.date, t.id`,
+    );
+    return { rehan, transactions };
+  } catch (error) {
+    console.error("Error getting open Rehan records:", error);
+    return { rehan: [], transactions: [] };
+  }
+};
+
+export interface OpenLendenRow extends Lenden {
+  userName: string;
+  userMobileNumber: string | null;
+}
+
+// Every active open Lenden with its customer, oldest first
+export const getOpenLendenRows = async (): Promise<OpenLendenRow[]> => {
+  try {
+    const database = await openDatabase();
+    return await database.getAllAsync<OpenLendenRow>(
+      `SELECT l.*, u.name as userName, u.mobileNumber as userMobileNumber
+       FROM lenden l JOIN users u ON l.userId = u.id
+       WHERE l.status = 0 AND l.deletedAt IS NULL AND u.deletedAt IS NULL
+       ORDER BY l.date, l.id`,
+    );
+  } catch (error) {
+    console.error("Error getting open Lenden:", error);
+    return [];
+  }
+};
+
+// Open Lenden paid by installments, with the jama entries to match
+export interface InstallmentRecords {
+  lenden: OpenLendenRow[];
+  jamaEntries: JamaEntry[];
+}
+
+export const getInstallmentRecords = async (): Promise<InstallmentRecords> => {
+  try {
+    const database = await openDatabase();
+    const lenden = await database.getAllAsync<OpenLendenRow>(
+      `SELECT l.*, u.name as userName, u.mobileNumber as userMobileNumber
+       FROM lenden l JOIN users u ON l.userId = u.id
+       WHERE l.status = 0 AND l.installmentCount > 0
+         AND l.deletedAt IS NULL AND u.deletedAt IS NULL
+       ORDER BY l.firstDueDate, l.id`,
+    );
+    const jamaEntries = await database.getAllAsync<JamaEntry>(
+      `SELECT j.* FROM jama_entries j JOIN lenden l ON j.lendenId = l.id
+       WHERE l.status = 0 AND l.installmentCount > 0
+         AND l.deletedAt IS NULL AND j.deletedAt IS NULL
+       ORDER BY j.date, j.id`,
+    );
+    return { lenden, jamaEntries };
+  } catch (error) {
+    console.error("Error getting installment records:", error);
+    return { lenden: [], jamaEntries: [] };
+  }
+};
+
+// Everything on one customer's khata, for their statement
+export interface CustomerRecords {
+  user: User;
+  rehan: Rehan[];
+  rehanTransactions: RehanTransaction[];
+  lenden: Lenden[];
+  jamaEntries: JamaEntry[];
+}
+
+// All active records of a customer, oldest first, or null if they're gone
+export const getCustomerRecords = async (
+  userId: number,
+): Promise<CustomerRecords | null> => {
+  try {
+    const database = await openDatabase();
+    const user = await database.getFirstAsync<User>(
+      "SELECT * FROM users WHERE id = ? AND deletedAt IS NULL",
+      userId,
+    );
+    if (!user) return null;
+
+    const [rehan, rehanTransactions, lenden, jamaEntries] = await Promise.all([
+      database.getAllAsync<Rehan>(
+        "SELECT * FROM rehan WHERE userId = ? AND deletedAt IS NULL ORDER BY openDate, id",
+        userId,
+      ),
+      database.getAllAsync<RehanTransaction>(
+        `SELECT t.* FROM rehan_transactions t JOIN rehan r ON t.rehanId = r.id
+         WHERE r.userId = ? AND r.deletedAt IS NULL
+         ORDER BY t.date, t.id`,
+        userId,
+      ),
+      database.getAllAsync<Lenden>(
+        "SELECT * FROM lenden WHERE userId = ? AND deletedAt IS NULL ORDER BY date, id",
+        userId,
+      ),
+      database.getAllAsync<JamaEntry>(
+        `SELECT j.* FROM jama_entries j JOIN lenden l ON j.lendenId = l.id
+         WHERE l.userId = ? AND l.deletedAt IS NULL AND j.deletedAt IS NULL
+         ORDER BY j.date, j.id`,
+        userId,
+      ),
+    ]);
+    return { user, rehan, rehanTransactions, lenden, jamaEntries };
+  } catch (error) {
+    console.error("Error getting customer records:", error);
     throw error;
   }
 };
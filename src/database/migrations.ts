@@ -0,0 +1,395 @@
+import * as SQLite from "expo-sqlite";
+
+// A single schema change. Migrations run in `version` order and each one is
+// applied exactly once; the applied version is tracked in PRAGMA user_version.
+interface Migration {
+  version: number;
+  description: string;
+  up: (database: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+// Thrown by runMigrations with the version that failed. The migrations
+// before it are committed and stay applied.
+export class MigrationError extends Error {
+  version: number;
+
+  constructor(version: number) {
+    super(`Database update to version ${version} failed`);
+    this.name = "MigrationError";
+    this.version = version;
+  }
+}
+
+// Add a column only if it's missing (installs from before versioned migrations
+// may already have some of these columns)
+const addColumnIfMissing = async (
+  database: SQLite.SQLiteDatabase,
+  table: string,
+  column: string,
+  definition: string,
+) => {
+  const info = await database.getAllAsync<{ name: string }>(
+    `PRAGMA table_info(${table})`,
+  );
+  if (!info.some((c) => c.name === column)) {
+    await database.execAsync(
+      `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`,
+    );
+  }
+};
+
+// ============ MIGRATIONS ============
+// Never edit a migration that has shipped - add a new one at the end instead.
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Base schema: users, rehan, lenden, jama_entries",
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          address TEXT,
+          mobileNumber TEXT,
+          nickname TEXT,
+          createdAt TEXT NOT NULL
+        );
+      `);
+
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS rehan (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          userId INTEGER NOT NULL,
+          media TEXT NOT NULL,
+          status INTEGER DEFAULT 0,
+          openDate TEXT NOT NULL,
+          closedDate TEXT,
+          productName TEXT,
+          amount INTEGER,
+          FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
+        );
+      `);
+
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS lenden (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          userId INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          media TEXT NOT NULL,
+          amount INTEGER,
+          discount INTEGER,
+          remaining INTEGER,
+          jama INTEGER,
+          baki INTEGER,
+          status INTEGER DEFAULT 0,
+          FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
+        );
+      `);
+
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS jama_entries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          lendenId INTEGER NOT NULL,
+          amount INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          FOREIGN KEY (lendenId) REFERENCES lenden(id) ON DELETE CASCADE
+        );
+      `);
+
+      // Columns added to existing installs before migrations were versioned
+      await addColumnIfMissing(database, "users", "nickname", "TEXT");
+      await addColumnIfMissing(database, "rehan", "productName", "TEXT");
+      await addColumnIfMissing(database, "rehan", "amount", "INTEGER");
+      await addColumnIfMissing(database, "lenden", "amount", "INTEGER");
+      await addColumnIfMissing(database, "lenden", "discount", "INTEGER");
+      await addColumnIfMissing(database, "lenden", "remaining", "INTEGER");
+      await addColumnIfMissing(database, "lenden", "jama", "INTEGER");
+      await addColumnIfMissing(database, "lenden", "baki", "INTEGER");
+      await addColumnIfMissing(
+        database,
+        "lenden",
+        "status",
+        "INTEGER DEFAULT 0",
+      );
+    },
+  },
+  {
+    version: 2,
+    description: "Rehan transactions table",
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS rehan_transactions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          rehanId INTEGER NOT NULL,
+          type TEXT NOT NULL,
+          amount INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          FOREIGN KEY (rehanId) REFERENCES rehan(id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: "Rehan interest rate and mode",
+    up: async (database) => {
+      await addColumnIfMissing(
+        database,
+        "rehan",
+        "interestRate",
+        "REAL DEFAULT 0",
+      );
+      await addColumnIfMissing(
+        database,
+        "rehan",
+        "interestMode",
+        "TEXT DEFAULT 'simple'",
+      );
+    },
+  },
+  {
+    version: 4,
+    description: "Audit log",
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity TEXT NOT NULL,
+          entityId INTEGER NOT NULL,
+          action TEXT NOT NULL,
+          before TEXT,
+          after TEXT,
+          timestamp TEXT NOT NULL,
+          reason TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_audit_log_entity
+          ON audit_log (entity, entityId);
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: "Soft delete (recycle bin)",
+    up: async (database) => {
+      await addColumnIfMissing(database, "users", "deletedAt", "TEXT");
+      await addColumnIfMissing(database, "rehan", "deletedAt", "TEXT");
+      await addColumnIfMissing(database, "lenden", "deletedAt", "TEXT");
+      await addColumnIfMissing(database, "jama_entries", "deletedAt", "TEXT");
+    },
+  },
+  {
+    version: 6,
+    description: "Pledged items for each rehan",
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS rehan_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          rehanId INTEGER NOT NULL,
+          itemType TEXT NOT NULL,
+          metal TEXT NOT NULL,
+          purity TEXT,
+          grossWeight REAL,
+          netWeight REAL,
+          pieces INTEGER NOT NULL DEFAULT 1,
+          FOREIGN KEY (rehanId) REFERENCES rehan(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_rehan_items_rehan
+          ON rehan_items (rehanId);
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: "Log of payment reminders sent to customers",
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS reminders (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          userId INTEGER NOT NULL,
+          channel TEXT NOT NULL,
+          language TEXT NOT NULL,
+          message TEXT NOT NULL,
+          lendenBaki REAL NOT NULL DEFAULT 0,
+          rehanAmount REAL NOT NULL DEFAULT 0,
+          sentAt TEXT NOT NULL,
+          FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_reminders_user
+          ON reminders (userId, sentAt);
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: "Lenden installment plans",
+    up: async (database) => {
+      await addColumnIfMissing(
+        database,
+        "lenden",
+        "installmentCount",
+        "INTEGER",
+      );
+      await addColumnIfMissing(
+        database,
+        "lenden",
+        "installmentFrequency",
+        "TEXT",
+      );
+      await addColumnIfMissing(database, "lenden", "firstDueDate", "TEXT");
+    },
+  },
+  {
+    version: 9,
+    description: "Partial release of pledged Rehan items",
+    up: async (database) => {
+      await addColumnIfMissing(database, "rehan_items", "releasedAt", "TEXT");
+      await addColumnIfMissing(
+        database,
+        "rehan_items",
+        "releaseTransactionId",
+        "INTEGER",
+      );
+      await addColumnIfMissing(
+        database,
+        "rehan_items",
+        "releaseMedia",
+        "TEXT",
+      );
+    },
+  },
+  {
+    version: 10,
+    description: "Rehan renewal chain and settlement",
+    up: async (database) => {
+      await addColumnIfMissing(database, "rehan", "parentRehanId", "INTEGER");
+      for (const column of [
+        "settlementPrincipal",
+        "settlementInterest",
+        "settlementPaid",
+        "settlementWaived",
+        "settlementCarriedForward",
+      ]) {
+        await addColumnIfMissing(database, "rehan", column, "REAL");
+      }
+      await addColumnIfMissing(database, "rehan", "settlementNote", "TEXT");
+      await database.execAsync(
+        "CREATE INDEX IF NOT EXISTS idx_rehan_parent ON rehan (parentRehanId)",
+      );
+    },
+  },
+  {
+    version: 11,
+    description: "Itemised Lenden bills",
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS lenden_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          lendenId INTEGER NOT NULL,
+          description TEXT NOT NULL,
+          metal TEXT NOT NULL,
+          purity TEXT,
+          grossWeight REAL,
+          netWeight REAL,
+          rate REAL NOT NULL DEFAULT 0,
+          makingChargeType TEXT NOT NULL DEFAULT 'perGram',
+          makingCharge REAL NOT NULL DEFAULT 0,
+          wastagePercent REAL NOT NULL DEFAULT 0,
+          stoneCharges REAL NOT NULL DEFAULT 0,
+          amount REAL NOT NULL DEFAULT 0,
+          FOREIGN KEY (lendenId) REFERENCES lenden(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_lenden_items_lenden
+          ON lenden_items (lendenId);
+      `);
+    },
+  },
+  {
+    version: 12,
+    description: "GST invoices",
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS invoices (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          lendenId INTEGER,
+          financialYear TEXT NOT NULL,
+          sequence INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          customerName TEXT NOT NULL,
+          customerAddress TEXT,
+          customerGstin TEXT,
+          customerPan TEXT,
+          placeOfSupply TEXT NOT NULL,
+          isInterState INTEGER NOT NULL DEFAULT 0,
+          taxableValue REAL NOT NULL,
+          cgst REAL NOT NULL DEFAULT 0,
+          sgst REAL NOT NULL DEFAULT 0,
+          igst REAL NOT NULL DEFAULT 0,
+          total REAL NOT NULL,
+          totalWeight REAL,
+          createdAt TEXT NOT NULL,
+          UNIQUE (financialYear, sequence),
+          FOREIGN KEY (lendenId) REFERENCES lenden(id) ON DELETE SET NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_invoices_lenden ON invoices (lendenId);
+        CREATE INDEX IF NOT EXISTS idx_invoices_date ON invoices (date);
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: "Rehan opening principal, closed Rehan balances at zero",
+    up: async (database) => {
+      await addColumnIfMissing(database, "rehan", "openingAmount", "REAL");
+      // The balance so far is the opening principal moved by every
+      // transaction, so undo them before the closed ones are zeroed
+      await database.execAsync(`
+        UPDATE rehan SET openingAmount = COALESCE(amount, 0) + COALESCE((
+          SELECT SUM(CASE WHEN t.type = 'diya' THEN -t.amount ELSE t.amount END)
+          FROM rehan_transactions t WHERE t.rehanId = rehan.id
+        ), 0);
+        UPDATE rehan SET amount = 0 WHERE status = 1;
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION =
+  MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Bring the database schema up to date.
+ * Each pending migration runs in its own exclusive transaction together with
+ * the user_version bump, so a failure rolls that migration back and stops
+ * here instead of leaving a half-migrated schema behind.
+ */
+export const runMigrations = async (
+  database: SQLite.SQLiteDatabase,
+): Promise<void> => {
+  const row = await database.getFirstAsync<{ user_version: number }>(
+    "PRAGMA user_version",
+  );
+  const currentVersion = row?.user_version ?? 0;
+
+  const pending = MIGRATIONS.filter((m) => m.version > currentVersion).sort(
+    (a, b) => a.version - b.version,
+  );
+
+  for (const migration of pending) {
+    try {
+      await database.withExclusiveTransactionAsync(async (txn) => {
+        await migration.up(txn);
+        await txn.execAsync(`PRAGMA user_version = ${migration.version}`);
+      });
+      console.log(
+        `Applied migration ${migration.version}: ${migration.description}`,
+      );
+    } catch (error) {
+      console.error(
+        `Migration ${migration.version} (${migration.description}) failed:`,
+        error,
+      );
+      throw new MigrationError(migration.version);
+    }
+  }
+};
@@ -16,16 +16,26 @@ import * as ImagePicker from "expo-image-picker";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { RouteProp } from "@react-navigation/native";
 import { Ionicons } from "@expo/vector-icons";
-import { RootStackParamList, EntryType } from "../types/entry";
+import {
+  RootStackParamList,
+  EntryType,
+  InterestMode,
+  NewRehanItem,
+  NewLendenItem,
+} from "../types/entry";
 import {
   createRehan,
-  createLenden,
-  createJamaEntry,
+  createLendenWithJamaEntries,
 } from "../database/entryDatabase";
-import { saveImages } from "../storage/fileStorage";
+import { saveImages, deleteImages } from "../storage/fileStorage";
 import CustomDatePicker from "../components/CustomDatePicker";
 import BillTable from "../components/BillTable";
 import AddJamaModal from "../components/AddJamaModal";
+import AddRehanItemModal from "../components/AddRehanItemModal";
+import RehanItemsTable from "../components/RehanItemsTable";
+import AddLendenItemModal from "../components/AddLendenItemModal";
+import { getBillAmount } from "../services/BillingService";
+import { shareRehanReceipt } from "../services/PdfService";
 
 type AddTransactionScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -52,9 +62,15 @@ const AddTransactionScreen: React.FC<Props> = ({ navigation, route }) => {
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [productName, setProductName] = useState("");
   const [amount, setAmount] = useState("");
+  const [interestRate, setInterestRate] = useState("");
+  const [interestMode, setInterestMode] = useState<InterestMode>("simple");
+  const [rehanItems, setRehanItems] = useState<NewRehanItem[]>([]);
+  const [showAddItemModal, setShowAddItemModal] = useState(false);
 
   // Lenden-specific fields
   const [discount, setDiscount] = useState("");
+  const [lendenItems, setLendenItems] = useState<NewLendenItem[]>([]);
+  const [showAddLendenItemModal, setShowAddLendenItemModal] = useState(false);
   // Removed individual remaining/jama/baki states in favor of calculation
 
   // Multiple Jama Entries
@@ -65,6 +81,13 @@ const AddTransactionScreen: React.FC<Props> = ({ navigation, route }) => {
   const [jamaEntries, setJamaEntries] = useState<LocalJamaEntry[]>([]);
   const [showAddJamaModal, setShowAddJamaModal] = useState(false);
 
+  // An itemised bill is worth the sum of its lines
+  const isItemisedBill = entryType === "lenden" && lendenItems.length > 0;
+  const updateLendenItems = (items: NewLendenItem[]) => {
+    setLendenItems(items);
+    setAmount(items.length > 0 ? getBillAmount(items).toString() : "");
+  };
+
   // Minimum date - 5 years ago
   const minDate = new Date();
   minDate.setFullYear(minDate.getFullYear() - 15);
@@ -135,6 +158,21 @@ const AddTransactionScreen: React.FC<Props> = ({ navigation, route }) => {
     });
   };
 
+  // Share the pledge receipt for the rehan just saved, then leave the screen
+  const handleShareReceipt = async (rehanId: number) => {
+    try {
+      await shareRehanReceipt(rehanId);
+    } catch (error: any) {
+      console.error("Error sharing receipt:", error);
+      Alert.alert(
+        "Receipt Not Shared",
+        `${error.message || "Failed to create receipt"}. You can share it later from the rehan details.`,
+      );
+    } finally {
+      navigation.goBack();
+    }
+  };
+
   const handleSave = async () => {
     if (!entryType) {
       Alert.alert(
@@ -150,17 +188,22 @@ const AddTransactionScreen: React.FC<Props> = ({ navigation, route }) => {
     }
 
     setIsLoading(true);
+    let savedImagePaths: string[] = [];
+    let rehanId: number | null = null;
 
     try {
-      const savedImagePaths = await saveImages(selectedImages);
+      savedImagePaths = await saveImages(selectedImages);
 
       if (entryType === "rehan") {
-        await createRehan({
+        rehanId = await createRehan({
           userId,
           media: savedImagePaths,
           openDate: selectedDate.toISOString(),
           productName: productName.trim() || undefined,
           amount: amount ? parseInt(amount, 10) : undefined,
+          interestRate: interestRate ? parseFloat(interestRate) : undefined,
+          interestMode,
+          items: rehanItems,
         });
       } else {
         // Calculate fields
@@ -173,29 +216,34 @@ const AddTransactionScreen: React.FC<Props> = ({ navigation, route }) => {
         );
         const bakiVal = Math.max(0, remainingVal - totalJama);
 
-        const lendenId = await createLenden({
-          userId,
-          date: selectedDate.toISOString(),
-          media: savedImagePaths,
-          amount: lendenAmountVal,
-          discount: discountVal,
-          remaining: remainingVal,
-          jama: totalJama, // Store total jama for backward compatibility
-          baki: bakiVal,
-          status: bakiVal === 0 ? 1 : 0, // Auto-close if baki is 0
-        });
-
-        // Create individual jama entries
-        for (const entry of jamaEntries) {
-          await createJamaEntry({
-            lendenId,
-            amount: entry.amount,
-            date: entry.date,
-          });
-        }
+        // Lenden and its jama entries are saved in a single transaction
+        await createLendenWithJamaEntries(
+          {
+            userId,
+            date: selectedDate.toISOString(),
+            media: savedImagePaths,
+            amount: lendenAmountVal,
+            discount: discountVal,
+            remaining: remainingVal,
+            jama: totalJama, // Store total jama for backward compatibility
+            baki: bakiVal,
+            status: bakiVal === 0 ? 1 : 0, // Auto-close if baki is 0
+            items: lendenItems,
+          },
+          jamaEntries,
+        );
       }
 
+      const newRehanId = rehanId;
       Alert.alert("Success", "Transaction added successfully!", [
+        ...(newRehanId
+          ? [
+              {
+                text: "Share Receipt",
+                onPress: () => handleShareReceipt(newRehanId),
+              },
+            ]
+          : []),
         {
           text: "OK",
           onPress: () => navigation.goBack(),
@@ -203,6 +251,8 @@ const AddTransactionScreen: React.FC<Props> = ({ navigation, route }) => {
       ]);
     } catch (error) {
       console.error("Error saving transaction:", error);
+      // Remove images copied for an entry that was never saved
+      await deleteImages(savedImagePaths);
       Alert.alert("Error", "Failed to save transaction. Please try again.");
     } finally {
       setIsLoading(false);
@@ -329,13 +379,90 @@ const AddTransactionScreen: React.FC<Props> = ({ navigation, route }) => {
                 onChangeText={(text) => setAmount(text.replace(/[^0-9]/g, ""))}
                 keyboardType="numeric"
                 placeholderTextColor="#999"
+                editable={!isItemisedBill}
               />
             </View>
+            {isItemisedBill && (
+              <Text style={styles.hintText}>Total of the bill items</Text>
+            )}
           </View>
 
+          {/* Rehan interest terms */}
+          {entryType === "rehan" && (
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Interest (% per month)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="0"
+                value={interestRate}
+                onChangeText={(text) =>
+                  setInterestRate(text.replace(/[^0-9.]/g, ""))
+                }
+                keyboardType="decimal-pad"
+                placeholderTextColor="#999"
+              />
+              <View style={styles.modeSelector}>
+                {(["simple", "compound"] as InterestMode[]).map((mode) => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[
+                      styles.modeChip,
+                      interestMode === mode && styles.modeChipActive,
+                    ]}
+                    onPress={() => setInterestMode(mode)}
+                  >
+                    <Text
+                      style={[
+                        styles.modeChipText,
+                        interestMode === mode && styles.modeChipTextActive,
+                      ]}
+                    >
+                      {mode === "simple" ? "Simple" : "Monthly Compound"}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {/* Pledged items */}
+          {entryType === "rehan" && (
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Pledged Items</Text>
+              <RehanItemsTable
+                items={rehanItems}
+                onRemoveItem={(index) =>
+                  setRehanItems((prev) => prev.filter((_, i) => i !== index))
+                }
+              />
+              <TouchableOpacity
+                style={styles.addItemButton}
+                onPress={() => setShowAddItemModal(true)}
+              >
+                <Ionicons name="add-circle-outline" size={20} color="#007AFF" />
+                <Text style={styles.addItemText}>Add Item</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
           {/* Lenden-specific fields */}
           {entryType === "lenden" && (
             <>
+              <View style={styles.inputContainer}>
+                <Text style={styles.label}>Bill Items</Text>
+                <TouchableOpacity
+                  style={styles.addItemButton}
+                  onPress={() => setShowAddLendenItemModal(true)}
+                >
+                  <Ionicons
+                    name="add-circle-outline"
+                    size={20}
+                    color="#007AFF"
+                  />
+                  <Text style={styles.addItemText}>Add Item</Text>
+                </TouchableOpacity>
+              </View>
+
               <View style={styles.inputContainer}>
                 <Text style={styles.label}>
                   <Ionicons name="pricetag-outline" size={14} color="#666" />{" "}
@@ -370,8 +497,14 @@ const AddTransactionScreen: React.FC<Props> = ({ navigation, route }) => {
                   <BillTable
                     amount={parseInt(amount, 10) || 0}
                     discount={parseInt(discount, 10) || 0}
+                    items={lendenItems}
                     jamaEntries={jamaEntries}
                     editable={true}
+                    onRemoveItem={(index) =>
+                      updateLendenItems(
+                        lendenItems.filter((_, i) => i !== index),
+                      )
+                    }
                     onAddJama={() => setShowAddJamaModal(true)}
                     onDeleteJama={(index) => {
                       setJamaEntries((prev) =>
@@ -481,6 +614,20 @@ const AddTransactionScreen: React.FC<Props> = ({ navigation, route }) => {
         }}
       />
 
+      {/* Add Pledged Item Modal */}
+      <AddRehanItemModal
+        visible={showAddItemModal}
+        onClose={() => setShowAddItemModal(false)}
+        onAdd={(item) => setRehanItems((prev) => [...prev, item])}
+      />
+
+      {/* Add Bill Item Modal */}
+      <AddLendenItemModal
+        visible={showAddLendenItemModal}
+        onClose={() => setShowAddLendenItemModal(false)}
+        onAdd={(item) => updateLendenItems([...lendenItems, item])}
+      />
+
       {/* Custom Date Picker */}
       <CustomDatePicker
         visible={showDatePicker}
@@ -612,6 +759,50 @@ const styles = StyleSheet.create({
   typeButtonTextActive: {
     color: "#fff",
   },
+  modeSelector: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 10,
+  },
+  modeChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#F0F2F5",
+  },
+  modeChipActive: {
+    backgroundColor: "#007AFF",
+  },
+  modeChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+  },
+  modeChipTextActive: {
+    color: "#fff",
+  },
+  addItemButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#F0F7FF",
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#D0E4FF",
+    marginTop: 10,
+  },
+  addItemText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#007AFF",
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 6,
+  },
   dateButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -0,0 +1,187 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { RootStackParamList, AuditLogEntry, AuditEntity } from "../types/entry";
+import { getAuditLog } from "../database/entryDatabase";
+import AuditHistoryList from "../components/AuditHistoryList";
+
+type AuditLogNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "AuditLog"
+>;
+
+interface Props {
+  navigation: AuditLogNavigationProp;
+}
+
+const ENTITY_FILTERS: { label: string; value: AuditEntity | "all" }[] = [
+  { label: "All", value: "all" },
+  { label: "Customers", value: "user" },
+  { label: "Rehan", value: "rehan" },
+  { label: "Rehan Txn", value: "rehan_transaction" },
+  { label: "Items", value: "rehan_item" },
+  { label: "Len-Den", value: "lenden" },
+  { label: "Bill Lines", value: "lenden_item" },
+  { label: "Jama", value: "jama_entry" },
+  { label: "Invoices", value: "invoice" },
+];
+
+const AuditLogScreen: React.FC<Props> = () => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [entityFilter, setEntityFilter] = useState<AuditEntity | "all">("all");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const loadEntries = async () => {
+    try {
+      const rows = await getAuditLog(
+        entityFilter === "all" ? undefined : entityFilter,
+      );
+      setEntries(rows);
+    } catch (error) {
+      console.error("Error loading audit log:", error);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadEntries();
+    }, [entityFilter]),
+  );
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadEntries();
+  };
+
+  // Changing the filter re-runs the focus effect, which reloads the list
+  const handleFilterChange = (filter: AuditEntity | "all") => {
+    if (filter === entityFilter) return;
+    setIsLoading(true);
+    setEntityFilter(filter);
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom"]}>
+      {/* Filter Section */}
+      <View style={styles.filterSection}>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filterRow}
+        >
+          {ENTITY_FILTERS.map((filter) => (
+            <TouchableOpacity
+              key={filter.value}
+              style={[
+                styles.filterChip,
+                entityFilter === filter.value && styles.filterChipActive,
+              ]}
+              onPress={() => handleFilterChange(filter.value)}
+            >
+              <Text
+                style={[
+                  styles.filterChipText,
+                  entityFilter === filter.value && styles.filterChipTextActive,
+                ]}
+              >
+                {filter.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Loading history...</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={handleRefresh}
+            />
+          }
+        >
+          <Text style={styles.helpText}>
+            Every change to customers, rehan and len-den is recorded here.
+            Showing the latest {entries.length} changes.
+          </Text>
+          <AuditHistoryList entries={entries} />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  filterSection: {
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  filterRow: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#F0F2F5",
+  },
+  filterChipActive: {
+    backgroundColor: "#007AFF",
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+  },
+  filterChipTextActive: {
+    color: "#fff",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: "#666",
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  helpText: {
+    fontSize: 13,
+    color: "#666",
+    marginBottom: 12,
+  },
+});
+
+export default AuditLogScreen;
@@ -0,0 +1,451 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { RootStackParamList } from "../types/entry";
+import {
+  LocalBackup,
+  listBackups,
+  backUpNow,
+  isBackupStale,
+  shareBackup,
+} from "../services/BackupService";
+import {
+  AppSettings,
+  getSettings,
+  updateSettings,
+} from "../storage/settingsStorage";
+import BackupStatusBanner from "../components/BackupStatusBanner";
+
+type BackupsNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "Backups"
+>;
+
+interface Props {
+  navigation: BackupsNavigationProp;
+}
+
+type RetentionField =
+  | "backupKeepDaily"
+  | "backupKeepMonthly"
+  | "backupStaleDays";
+
+const RETENTION_FIELDS: { key: RetentionField; label: string; min: number }[] =
+  [
+    { key: "backupKeepDaily", label: "Daily backups to keep", min: 1 },
+    { key: "backupKeepMonthly", label: "Monthly backups to keep", min: 0 },
+    { key: "backupStaleDays", label: "Warn after (days)", min: 1 },
+  ];
+
+const BackupsScreen: React.FC<Props> = () => {
+  const [backups, setBackups] = useState<LocalBackup[]>([]);
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [inputs, setInputs] = useState<Record<RetentionField, string>>({
+    backupKeepDaily: "",
+    backupKeepMonthly: "",
+    backupStaleDays: "",
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+
+  const loadBackups = async () => {
+    try {
+      const [rows, saved] = await Promise.all([listBackups(), getSettings()]);
+      setBackups(rows);
+      setSettings(saved);
+      setInputs({
+        backupKeepDaily: String(saved.backupKeepDaily),
+        backupKeepMonthly: String(saved.backupKeepMonthly),
+        backupStaleDays: String(saved.backupStaleDays),
+      });
+    } catch (error) {
+      console.error("Error loading backups:", error);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadBackups();
+    }, []),
+  );
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadBackups();
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const formatSize = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const handleBackUpNow = async () => {
+    if (isBackingUp) return;
+    setIsBackingUp(true);
+    try {
+      await backUpNow();
+      await loadBackups();
+    } catch (error: any) {
+      console.error("Error backing up:", error);
+      Alert.alert("Backup Failed", error.message || "Failed to create backup");
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleToggleAuto = async (value: boolean) => {
+    try {
+      setSettings(await updateSettings({ autoBackupEnabled: value }));
+    } catch (error) {
+      console.error("Error saving backup setting:", error);
+      Alert.alert("Error", "Failed to save setting");
+    }
+  };
+
+  const handleSaveRetention = async () => {
+    const changes: Partial<AppSettings> = {};
+    for (const field of RETENTION_FIELDS) {
+      const value = parseInt(inputs[field.key], 10);
+      if (isNaN(value) || value < field.min) {
+        Alert.alert(
+          "Invalid Value",
+          `${field.label} must be at least ${field.min}`,
+        );
+        return;
+      }
+      changes[field.key] = value;
+    }
+
+    try {
+      setSettings(await updateSettings(changes));
+      Alert.alert("Saved", "Backup settings updated");
+    } catch (error) {
+      console.error("Error saving backup settings:", error);
+      Alert.alert("Error", "Failed to save settings");
+    }
+  };
+
+  const handleShare = async (backup: LocalBackup) => {
+    try {
+      await shareBackup(backup);
+    } catch (error: any) {
+      console.error("Error sharing backup:", error);
+      Alert.alert("Error", error.message || "Failed to share backup");
+    }
+  };
+
+  const renderBackup = (backup: LocalBackup) => (
+    <View key={backup.fileName} style={styles.backupCard}>
+      <View style={styles.iconContainer}>
+        <Ionicons name="archive" size={20} color="#666" />
+      </View>
+      <View style={styles.backupInfo}>
+        <Text style={styles.backupTitle}>
+          {formatDate(`${backup.date}T00:00:00`)}
+        </Text>
+        <Text style={styles.backupMeta}>{formatSize(backup.size)}</Text>
+      </View>
+      <TouchableOpacity
+        style={styles.shareButton}
+        onPress={() => handleShare(backup)}
+      >
+        <Ionicons name="share-outline" size={16} color="#007AFF" />
+        <Text style={styles.shareText}>Share</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (isLoading || !settings) {
+    return (
+      <SafeAreaView style={styles.container} edges={["bottom"]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Loading backups...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom"]}>
+      <ScrollView
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+        }
+      >
+        <BackupStatusBanner
+          backup={backups[0] || null}
+          isStale={isBackupStale(backups[0] || null, settings.backupStaleDays)}
+          onPress={handleBackUpNow}
+        />
+
+        <TouchableOpacity
+          style={[styles.backupButton, isBackingUp && styles.buttonDisabled]}
+          onPress={handleBackUpNow}
+          disabled={isBackingUp}
+        >
+          {isBackingUp ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Ionicons name="save-outline" size={20} color="#fff" />
+              <Text style={styles.backupButtonText}>Back Up Now</Text>
+            </>
+          )}
+        </TouchableOpacity>
+
+        {/* Settings */}
+        <View style={styles.settingCard}>
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabel}>
+              <Text style={styles.settingLabel}>Automatic daily backup</Text>
+              <Text style={styles.settingHint}>
+                Taken when the app is opened, once a day
+              </Text>
+            </View>
+            <Switch
+              value={settings.autoBackupEnabled}
+              onValueChange={handleToggleAuto}
+            />
+          </View>
+
+          {RETENTION_FIELDS.map((field) => (
+            <View key={field.key} style={styles.fieldRow}>
+              <Text style={styles.fieldLabel}>{field.label}</Text>
+              <TextInput
+                style={styles.settingInput}
+                value={inputs[field.key]}
+                onChangeText={(text) =>
+                  setInputs((prev) => ({ ...prev, [field.key]: text }))
+                }
+                keyboardType="number-pad"
+                maxLength={3}
+              />
+            </View>
+          ))}
+
+          <TouchableOpacity
+            style={styles.saveButton}
+            onPress={handleSaveRetention}
+          >
+            <Text style={styles.saveButtonText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.sectionTitle}>Saved on this phone</Text>
+        {backups.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="archive-outline" size={48} color="#CCC" />
+            <Text style={styles.emptyText}>No backups yet</Text>
+          </View>
+        ) : (
+          backups.map(renderBackup)
+        )}
+        <Text style={styles.footnote}>
+          Backups are lost if the app is uninstalled. Share one to Drive or
+          WhatsApp from time to time to keep a copy off the phone.
+        </Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: "#666",
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  backupButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#007AFF",
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 12,
+    marginBottom: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  backupButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  settingCard: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    padding: 12,
+    marginBottom: 20,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingBottom: 12,
+    marginBottom: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  settingLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  settingHint: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 2,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 8,
+  },
+  fieldLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: "#444",
+  },
+  settingInput: {
+    width: 64,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    fontSize: 15,
+    color: "#1A1A1A",
+    textAlign: "center",
+  },
+  saveButton: {
+    backgroundColor: "#007AFF",
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  saveButtonText: {
+    color: "#fff",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+    textTransform: "uppercase",
+    marginBottom: 8,
+  },
+  backupCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    padding: 12,
+    marginBottom: 10,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: "#F0F2F5",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  backupInfo: {
+    flex: 1,
+  },
+  backupTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  backupMeta: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 2,
+  },
+  shareButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    backgroundColor: "#E3F2FD",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  shareText: {
+    color: "#007AFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingVertical: 32,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: "#999",
+  },
+  footnote: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 12,
+    lineHeight: 17,
+  },
+});
+
+export default BackupsScreen;
@@ -0,0 +1,401 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { RootStackParamList } from "../types/entry";
+import { LedgerEntry } from "../database/entryDatabase";
+import { CashBookDay, getCashBookDay } from "../services/CashBookService";
+import { LEDGER_TYPE_LABELS } from "../services/SpreadsheetExportService";
+import CustomDatePicker from "../components/CustomDatePicker";
+
+type CashBookNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "CashBook"
+>;
+
+interface Props {
+  navigation: CashBookNavigationProp;
+}
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+const CashBookScreen: React.FC<Props> = ({ navigation }) => {
+  const [selectedDate, setSelectedDate] = useState(() => new Date());
+  const [cashBook, setCashBook] = useState<CashBookDay | null>(null);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const loadCashBook = async (date: Date) => {
+    try {
+      setCashBook(await getCashBookDay(date));
+    } catch (error) {
+      console.error("Error loading cash book:", error);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadCashBook(selectedDate);
+    }, [selectedDate]),
+  );
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadCashBook(selectedDate);
+  };
+
+  const isToday = isSameDay(selectedDate, new Date());
+
+  const changeDay = (days: number) => {
+    const date = new Date(selectedDate);
+    date.setDate(date.getDate() + days);
+    if (date > new Date()) return;
+    setIsLoading(true);
+    setSelectedDate(date);
+  };
+
+  const handleDateSelect = (date: Date) => {
+    setShowDatePicker(false);
+    setIsLoading(true);
+    setSelectedDate(date);
+  };
+
+  const formatDisplayDate = (date: Date) => {
+    return date.toLocaleDateString("en-IN", {
+      weekday: "short",
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString("en-IN", {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const formatAmount = (amount: number) =>
+    `${amount < 0 ? "-" : ""}₹${Math.abs(amount).toLocaleString()}`;
+
+  const renderBalanceRow = (label: string, amount: number) => (
+    <View style={styles.balanceRow}>
+      <Text style={styles.balanceLabel}>{label}</Text>
+      <Text
+        style={[
+          styles.balanceValue,
+          amount < 0 ? styles.outText : styles.inText,
+        ]}
+      >
+        {formatAmount(amount)}
+      </Text>
+    </View>
+  );
+
+  const renderEntry = (entry: LedgerEntry, index: number) => (
+    <TouchableOpacity
+      key={`${entry.type}-${entry.sourceId}-${index}`}
+      style={styles.tableRow}
+      onPress={() =>
+        navigation.navigate("TransactionDetail", {
+          transactionId: entry.sourceId,
+          transactionType: entry.source,
+        })
+      }
+      activeOpacity={0.7}
+    >
+      <View style={styles.particulars}>
+        <Text style={styles.entryName} numberOfLines={1}>
+          {entry.userName}
+        </Text>
+        <Text style={styles.entryMeta} numberOfLines={1}>
+          {LEDGER_TYPE_LABELS[entry.type]} · {formatTime(entry.date)}
+        </Text>
+      </View>
+      <Text style={[styles.amountCell, styles.inText]}>
+        {entry.credit > 0 ? `₹${entry.credit.toLocaleString()}` : ""}
+      </Text>
+      <Text style={[styles.amountCell, styles.outText]}>
+        {entry.debit > 0 ? `₹${entry.debit.toLocaleString()}` : ""}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom"]}>
+      {/* Date navigator */}
+      <View style={styles.navigator}>
+        <TouchableOpacity
+          style={styles.navButton}
+          onPress={() => changeDay(-1)}
+        >
+          <Ionicons name="chevron-back" size={22} color="#007AFF" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.dateButton}
+          onPress={() => setShowDatePicker(true)}
+        >
+          <Ionicons name="calendar" size={18} color="#007AFF" />
+          <Text style={styles.dateText}>{formatDisplayDate(selectedDate)}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.navButton, isToday && styles.navButtonDisabled]}
+          onPress={() => changeDay(1)}
+          disabled={isToday}
+        >
+          <Ionicons
+            name="chevron-forward"
+            size={22}
+            color={isToday ? "#CCC" : "#007AFF"}
+          />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading || !cashBook ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={handleRefresh}
+            />
+          }
+        >
+          {renderBalanceRow("Opening Balance", cashBook.opening)}
+
+          <View style={styles.table}>
+            <View style={[styles.tableRow, styles.tableHeader]}>
+              <Text style={[styles.particulars, styles.headerText]}>
+                Particulars
+              </Text>
+              <Text style={[styles.amountCell, styles.headerText]}>In</Text>
+              <Text style={[styles.amountCell, styles.headerText]}>Out</Text>
+            </View>
+
+            {cashBook.entries.length === 0 ? (
+              <View style={styles.emptyContainer}>
+                <Ionicons name="book-outline" size={36} color="#CCC" />
+                <Text style={styles.emptyText}>No entries on this day</Text>
+              </View>
+            ) : (
+              cashBook.entries.map(renderEntry)
+            )}
+
+            <View style={[styles.tableRow, styles.totalRow]}>
+              <Text style={[styles.particulars, styles.totalLabel]}>
+                Total
+              </Text>
+              <Text
+                style={[styles.amountCell, styles.totalValue, styles.inText]}
+              >
+                ₹{cashBook.totalIn.toLocaleString()}
+              </Text>
+              <Text
+                style={[styles.amountCell, styles.totalValue, styles.outText]}
+              >
+                ₹{cashBook.totalOut.toLocaleString()}
+              </Text>
+            </View>
+          </View>
+
+          {renderBalanceRow("Closing Balance", cashBook.closing)}
+
+          <View style={styles.infoCard}>
+            <Ionicons name="information-circle" size={18} color="#666" />
+            <Text style={styles.infoText}>
+              In: jama received on len-den and rehan. Out: rehan principal,
+              rehan diya and len-den bills. The closing balance is carried
+              forward as the next day's opening balance.
+            </Text>
+          </View>
+        </ScrollView>
+      )}
+
+      <CustomDatePicker
+        visible={showDatePicker}
+        selectedDate={selectedDate}
+        onClose={() => setShowDatePicker(false)}
+        onDateSelect={handleDateSelect}
+        maximumDate={new Date()}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  navigator: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    padding: 12,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E5E5",
+  },
+  navButton: {
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: "#F0F7FF",
+  },
+  navButtonDisabled: {
+    backgroundColor: "#F0F2F5",
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    backgroundColor: "#F8F9FA",
+  },
+  dateText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  balanceRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    padding: 14,
+    marginBottom: 12,
+  },
+  balanceLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#444",
+  },
+  balanceValue: {
+    fontSize: 18,
+    fontWeight: "800",
+  },
+  table: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    overflow: "hidden",
+    marginBottom: 12,
+  },
+  tableRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  tableHeader: {
+    backgroundColor: "#F8F9FA",
+  },
+  headerText: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#666",
+    textTransform: "uppercase",
+  },
+  particulars: {
+    flex: 1,
+  },
+  entryName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 2,
+  },
+  amountCell: {
+    width: 90,
+    textAlign: "right",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  inText: {
+    color: "#2E7D32",
+  },
+  outText: {
+    color: "#C62828",
+  },
+  totalRow: {
+    backgroundColor: "#F8F9FA",
+    borderBottomWidth: 0,
+  },
+  totalLabel: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  totalValue: {
+    fontWeight: "800",
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingVertical: 32,
+  },
+  emptyText: {
+    marginTop: 8,
+    fontSize: 14,
+    color: "#999",
+  },
+  infoCard: {
+    flexDirection: "row",
+    gap: 8,
+    backgroundColor: "#F0F2F5",
+    borderRadius: 12,
+    padding: 12,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#666",
+    lineHeight: 18,
+  },
+});
+
+export default CashBookScreen;
@@ -0,0 +1,411 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { RouteProp } from "@react-navigation/native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { RootStackParamList } from "../types/entry";
+import {
+  CustomerStatement,
+  STATEMENT_EVENT_LABELS,
+  StatementEvent,
+  buildCustomerStatement,
+} from "../services/StatementService";
+import {
+  formatAccountNumber,
+  shareCustomerStatement,
+} from "../services/PdfService";
+import DateRangePicker, {
+  DATE_RANGE_PRESETS,
+  toReportDateRange,
+} from "../components/DateRangePicker";
+
+type CustomerStatementNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "CustomerStatement"
+>;
+type CustomerStatementRouteProp = RouteProp<
+  RootStackParamList,
+  "CustomerStatement"
+>;
+
+interface Props {
+  navigation: CustomerStatementNavigationProp;
+  route: CustomerStatementRouteProp;
+}
+
+// Statements start from the current financial year unless changed
+const DEFAULT_PRESET =
+  DATE_RANGE_PRESETS.find((preset) => preset.label === "This FY") ||
+  DATE_RANGE_PRESETS[0];
+
+const CustomerStatementScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { userId } = route.params;
+  const [fromDate, setFromDate] = useState(() => DEFAULT_PRESET.getRange()[0]);
+  const [toDate, setToDate] = useState(() => DEFAULT_PRESET.getRange()[1]);
+  const [statement, setStatement] = useState<CustomerStatement | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSharing, setIsSharing] = useState(false);
+
+  useEffect(() => {
+    const loadStatement = async () => {
+      setIsLoading(true);
+      try {
+        setStatement(
+          await buildCustomerStatement(
+            userId,
+            toReportDateRange(fromDate, toDate),
+          ),
+        );
+      } catch (error) {
+        console.error("Error loading statement:", error);
+        Alert.alert("Error", "Failed to load the statement");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadStatement();
+  }, [userId, fromDate, toDate]);
+
+  const handleShare = async () => {
+    setIsSharing(true);
+    try {
+      await shareCustomerStatement(userId, toReportDateRange(fromDate, toDate));
+    } catch (error: any) {
+      console.error("Error sharing statement:", error);
+      Alert.alert("Error", error.message || "Failed to share the statement");
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  // Positive balances are owed by the customer, negative ones are advances
+  const formatBalance = (amount: number) =>
+    amount < 0
+      ? `₹${Math.abs(amount).toLocaleString()} Cr`
+      : `₹${amount.toLocaleString()}`;
+
+  const renderSummaryItem = (label: string, value: string, color?: string) => (
+    <View style={styles.summaryItem}>
+      <Text style={styles.summaryLabel}>{label}</Text>
+      <Text style={[styles.summaryValue, color ? { color } : null]}>
+        {value}
+      </Text>
+    </View>
+  );
+
+  const renderEvent = (event: StatementEvent, index: number) => (
+    <TouchableOpacity
+      key={`${event.type}-${event.sourceId}-${index}`}
+      style={styles.eventRow}
+      onPress={() =>
+        navigation.navigate("TransactionDetail", {
+          transactionId: event.sourceId,
+          transactionType: event.source,
+        })
+      }
+      activeOpacity={0.7}
+    >
+      <View style={styles.eventInfo}>
+        <Text style={styles.eventTitle}>
+          {STATEMENT_EVENT_LABELS[event.type]}
+        </Text>
+        <Text style={styles.eventMeta}>
+          {formatDate(event.date)} · {formatAccountNumber(event)}
+        </Text>
+      </View>
+      <View style={styles.eventAmounts}>
+        {event.debit > 0 && (
+          <Text style={[styles.eventAmount, styles.debitText]}>
+            +₹{event.debit.toLocaleString()}
+          </Text>
+        )}
+        {event.credit > 0 && (
+          <Text style={[styles.eventAmount, styles.creditText]}>
+            -₹{event.credit.toLocaleString()}
+          </Text>
+        )}
+        <Text style={styles.eventBalance}>
+          A/c {formatBalance(event.accountBalance)} · Bal{" "}
+          {formatBalance(event.balance)}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom"]}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <DateRangePicker
+          fromDate={fromDate}
+          toDate={toDate}
+          onChange={(from, to) => {
+            setFromDate(from);
+            setToDate(to);
+          }}
+        />
+
+        {isLoading || !statement ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#007AFF" />
+          </View>
+        ) : (
+          <>
+            <View style={styles.summaryCard}>
+              {renderSummaryItem(
+                "Opening",
+                formatBalance(statement.openingBalance),
+              )}
+              {renderSummaryItem(
+                "Debit",
+                `₹${statement.totalDebit.toLocaleString()}`,
+                "#C62828",
+              )}
+              {renderSummaryItem(
+                "Credit",
+                `₹${statement.totalCredit.toLocaleString()}`,
+                "#2E7D32",
+              )}
+              {renderSummaryItem(
+                "Closing",
+                formatBalance(statement.closingBalance),
+              )}
+            </View>
+
+            {statement.accounts.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Accounts</Text>
+                <View style={styles.accountRow}>
+                  {statement.accounts.map((account) => (
+                    <View
+                      key={`${account.source}-${account.sourceId}`}
+                      style={styles.accountChip}
+                    >
+                      <Text style={styles.accountNumber}>
+                        {formatAccountNumber(account)}
+                      </Text>
+                      <Text style={styles.accountBalance}>
+                        {formatBalance(account.closing)}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.sectionTitle}>Entries</Text>
+            <View style={styles.eventList}>
+              <View style={[styles.eventRow, styles.openingRow]}>
+                <Text style={styles.eventTitle}>Balance brought forward</Text>
+                <Text style={styles.eventAmount}>
+                  {formatBalance(statement.openingBalance)}
+                </Text>
+              </View>
+              {statement.events.length === 0 ? (
+                <Text style={styles.emptyText}>No entries in this period</Text>
+              ) : (
+                statement.events.map(renderEvent)
+              )}
+            </View>
+            <Text style={styles.noteText}>
+              Rehan balances are principal only; interest is not included.
+            </Text>
+          </>
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[
+            styles.shareButton,
+            (isSharing || isLoading) && styles.shareButtonDisabled,
+          ]}
+          onPress={handleShare}
+          disabled={isSharing || isLoading}
+        >
+          {isSharing ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Ionicons name="share-outline" size={20} color="#fff" />
+          )}
+          <Text style={styles.shareButtonText}>Share PDF</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  loadingContainer: {
+    paddingVertical: 48,
+    alignItems: "center",
+  },
+  summaryCard: {
+    flexDirection: "row",
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    paddingVertical: 14,
+    marginBottom: 20,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  summaryLabel: {
+    fontSize: 11,
+    color: "#999",
+    textTransform: "uppercase",
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+    textTransform: "uppercase",
+    marginBottom: 8,
+  },
+  accountRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 20,
+  },
+  accountChip: {
+    backgroundColor: "#fff",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  accountNumber: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#666",
+  },
+  accountBalance: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1A1A1A",
+    marginTop: 2,
+  },
+  eventList: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    overflow: "hidden",
+  },
+  eventRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  openingRow: {
+    backgroundColor: "#F8F9FA",
+  },
+  eventInfo: {
+    flex: 1,
+  },
+  eventTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  eventMeta: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 2,
+  },
+  eventAmounts: {
+    alignItems: "flex-end",
+  },
+  eventAmount: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  debitText: {
+    color: "#C62828",
+  },
+  creditText: {
+    color: "#2E7D32",
+  },
+  eventBalance: {
+    fontSize: 11,
+    color: "#666",
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#999",
+    textAlign: "center",
+    paddingVertical: 24,
+  },
+  noteText: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 8,
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: "#E5E5E5",
+    backgroundColor: "#fff",
+  },
+  shareButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#007AFF",
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  shareButtonDisabled: {
+    opacity: 0.6,
+  },
+  shareButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#fff",
+  },
+});
+
+export default CustomerStatementScreen;
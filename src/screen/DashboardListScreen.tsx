@@ -0,0 +1,234 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from "react-native";
+import { RouteProp, useFocusEffect } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { RootStackParamList } from "../types/entry";
+import { DashboardRow, loadDashboard } from "../services/DashboardService";
+
+type DashboardListNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "DashboardList"
+>;
+type DashboardListRouteProp = RouteProp<RootStackParamList, "DashboardList">;
+
+interface Props {
+  navigation: DashboardListNavigationProp;
+  route: DashboardListRouteProp;
+}
+
+const DashboardListScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { tile } = route.params;
+  const [rows, setRows] = useState<DashboardRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const loadRows = async () => {
+    try {
+      const dashboard = await loadDashboard();
+      setRows(dashboard.rows[tile]);
+    } catch (error) {
+      console.error("Error loading dashboard list:", error);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRows();
+    }, [tile]),
+  );
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadRows();
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const total = rows.reduce((sum, row) => sum + row.amount, 0);
+
+  const renderItem = ({ item }: { item: DashboardRow }) => {
+    const isRehan = item.source === "rehan";
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() =>
+          navigation.navigate("TransactionDetail", {
+            transactionId: item.sourceId,
+            transactionType: item.source,
+          })
+        }
+        activeOpacity={0.7}
+      >
+        <View
+          style={[
+            styles.iconContainer,
+            isRehan ? styles.iconRehan : styles.iconLenden,
+          ]}
+        >
+          <Ionicons
+            name={isRehan ? "diamond-outline" : "receipt-outline"}
+            size={20}
+            color={isRehan ? "#B8860B" : "#007AFF"}
+          />
+        </View>
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowName} numberOfLines={1}>
+            {item.userName}
+          </Text>
+          <Text style={styles.rowMeta} numberOfLines={1}>
+            {formatDate(item.date)}
+            {item.note ? ` · ${item.note}` : ""}
+          </Text>
+        </View>
+        <Text style={styles.rowAmount}>₹{item.amount.toLocaleString()}</Text>
+        <Ionicons name="chevron-forward" size={18} color="#CCC" />
+      </TouchableOpacity>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom"]}>
+      <FlatList
+        data={rows}
+        keyExtractor={(item) => item.key}
+        renderItem={renderItem}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+        }
+        ListHeaderComponent={
+          rows.length > 0 ? (
+            <View style={styles.summary}>
+              <Text style={styles.summaryText}>
+                {rows.length} {rows.length === 1 ? "entry" : "entries"}
+              </Text>
+              <Text style={styles.summaryTotal}>
+                ₹{total.toLocaleString()}
+              </Text>
+            </View>
+          ) : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="stats-chart-outline" size={48} color="#CCC" />
+            <Text style={styles.emptyText}>Nothing here yet</Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#F8F9FA",
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  summary: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  summaryText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+    textTransform: "uppercase",
+  },
+  summaryTotal: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: "#1A1A1A",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    padding: 12,
+    marginBottom: 8,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  iconRehan: {
+    backgroundColor: "#FFF8E1",
+  },
+  iconLenden: {
+    backgroundColor: "#E6F2FF",
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  rowAmount: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingVertical: 48,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: "#999",
+  },
+});
+
+export default DashboardListScreen;
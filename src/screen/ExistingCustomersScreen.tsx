@@ -46,6 +46,7 @@ const ExistingCustomersScreen: React.FC<Props> = ({ navigation }) => {
   const [filterName, setFilterName] = useState("");
   const [filterAddress, setFilterAddress] = useState("");
   const [filterMobile, setFilterMobile] = useState("");
+  const [filterItem, setFilterItem] = useState("");
   const [filterDateFrom, setFilterDateFrom] = useState<Date | null>(null);
   const [filterDateTo, setFilterDateTo] = useState<Date | null>(null);
   const [filterTransactionType, setFilterTransactionType] = useState<
@@ -74,6 +75,7 @@ const ExistingCustomersScreen: React.FC<Props> = ({ navigation }) => {
     filterName.trim() !== "" ||
     filterAddress.trim() !== "" ||
     filterMobile.trim() !== "" ||
+    filterItem.trim() !== "" ||
     filterDateFrom !== null ||
     filterDateTo !== null ||
     filterTransactionType !== "both";
@@ -87,6 +89,7 @@ const ExistingCustomersScreen: React.FC<Props> = ({ navigation }) => {
           name: filterName.trim() || undefined,
           address: filterAddress.trim() || undefined,
           mobileNumber: filterMobile.trim() || undefined,
+          pledgedItem: filterItem.trim() || undefined,
           dateFrom: filterDateFrom
             ? filterDateFrom.toISOString().split("T")[0]
             : undefined,
@@ -116,6 +119,7 @@ const ExistingCustomersScreen: React.FC<Props> = ({ navigation }) => {
       filterName,
       filterAddress,
       filterMobile,
+      filterItem,
       filterDateFrom,
       filterDateTo,
       filterTransactionType,
@@ -131,6 +135,7 @@ const ExistingCustomersScreen: React.FC<Props> = ({ navigation }) => {
     setFilterName("");
     setFilterAddress("");
     setFilterMobile("");
+    setFilterItem("");
     setFilterDateFrom(null);
     setFilterDateTo(null);
     setFilterTransactionType("both");
@@ -200,7 +205,7 @@ const ExistingCustomersScreen: React.FC<Props> = ({ navigation }) => {
         user.nickname ? ` (${user.nickname})` : ""
       }? This will also delete all ${
         user.rehanCount + user.lendenCount
-      } associated transactions. This action cannot be undone.`,
+      } associated transactions. You can restore them from the Recycle Bin.`,
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -210,7 +215,10 @@ const ExistingCustomersScreen: React.FC<Props> = ({ navigation }) => {
             try {
               await deleteUser(user.id);
               await loadUsers();
-              Alert.alert("Success", "Customer and all transactions deleted.");
+              Alert.alert(
+                "Success",
+                "Customer and all transactions moved to the Recycle Bin.",
+              );
             } catch (error) {
               console.error("Error deleting user:", error);
               Alert.alert("Error", "Failed to delete customer.");
@@ -369,6 +377,7 @@ const ExistingCustomersScreen: React.FC<Props> = ({ navigation }) => {
                   [
                     filterAddress.trim(),
                     filterMobile.trim(),
+                    filterItem.trim(),
                     filterDateFrom,
                     filterDateTo,
                     filterTransactionType !== "both"
@@ -443,6 +452,25 @@ const ExistingCustomersScreen: React.FC<Props> = ({ navigation }) => {
             </View>
           </View>
 
+          {/* Pledged Item Filter */}
+          <View style={styles.filterRow}>
+            <View style={styles.filterInputContainer}>
+              <Ionicons name="diamond-outline" size={18} color="#666" />
+              <TextInput
+                style={styles.filterInput}
+                placeholder="Filter by pledged item (chain, 22K...)"
+                placeholderTextColor="#999"
+                value={filterItem}
+                onChangeText={setFilterItem}
+              />
+              {filterItem.length > 0 && (
+                <TouchableOpacity onPress={() => setFilterItem("")}>
+                  <Ionicons name="close-circle" size={18} color="#999" />
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+
           {/* Date Range Filter */}
           <View style={styles.dateFilterRow}>
             <TouchableOpacity
@@ -0,0 +1,586 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { RootStackParamList } from "../types/entry";
+import { isDatabaseEmpty } from "../database/entryDatabase";
+import {
+  BackupFile,
+  PickedFile,
+  ImportConflict,
+  ConflictStrategy,
+  WrongPasswordError,
+  pickBackupFile,
+  isBackupEncrypted,
+  readBackup,
+  findConflicts,
+  importBackup,
+  cleanupImport,
+} from "../services/ImportService";
+import BackupPasswordModal from "../components/BackupPasswordModal";
+
+type ImportNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "Import"
+>;
+
+interface Props {
+  navigation: ImportNavigationProp;
+}
+
+const ImportScreen: React.FC<Props> = ({ navigation }) => {
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [conflicts, setConflicts] = useState<ImportConflict[]>([]);
+  const [isEmptyDatabase, setIsEmptyDatabase] = useState(false);
+  const [strategy, setStrategy] = useState<ConflictStrategy>("skip");
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  // Encrypted file waiting for its password
+  const [lockedFile, setLockedFile] = useState<PickedFile | null>(null);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+
+  // Remove the extracted files when leaving the screen
+  useEffect(() => {
+    return () => {
+      cleanupImport().catch((error) =>
+        console.error("Error cleaning up import:", error),
+      );
+    };
+  }, []);
+
+  const loadBackup = async (file: PickedFile, password?: string) => {
+    setIsReading(true);
+    setBackup(null);
+    setConflicts([]);
+    try {
+      const data = await readBackup(file.uri, file.name, password);
+      const empty = await isDatabaseEmpty();
+      setIsEmptyDatabase(empty);
+      setConflicts(empty ? [] : await findConflicts(data));
+      setBackup(data);
+      setLockedFile(null);
+    } catch (error: any) {
+      if (error instanceof WrongPasswordError) {
+        // Keep the password prompt open so they can try again
+        setPasswordError(error.message);
+        return;
+      }
+      console.error("Error reading backup:", error);
+      setLockedFile(null);
+      Alert.alert("Invalid Backup", error.message || "Failed to read backup");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleChooseFile = async () => {
+    try {
+      const file = await pickBackupFile();
+      if (!file) return;
+
+      if (await isBackupEncrypted(file.uri)) {
+        setPasswordError(null);
+        setLockedFile(file);
+        return;
+      }
+      await loadBackup(file);
+    } catch (error: any) {
+      console.error("Error choosing backup:", error);
+      Alert.alert("Error", error.message || "Failed to open file");
+    }
+  };
+
+  const runImport = async () => {
+    if (!backup) return;
+
+    setIsImporting(true);
+    try {
+      const result = await importBackup(backup, conflicts, strategy);
+      const lines = [
+        `${result.users} customers`,
+        `${result.rehan} rehan`,
+        `${result.rehanTransactions} rehan transactions`,
+        `${result.rehanItems} pledged items`,
+        `${result.lenden} len-den`,
+        `${result.lendenItems} bill lines`,
+        `${result.jamaEntries} jama entries`,
+        `${result.invoices} invoices`,
+        `${result.reminders} reminders`,
+        `${result.images} photos`,
+      ];
+      if (result.skippedUsers > 0) {
+        lines.push(`${result.skippedUsers} existing customers skipped`);
+      }
+      if (result.skippedInvoices > 0) {
+        lines.push(
+          `${result.skippedInvoices} invoices skipped as their numbers are already issued`,
+        );
+      }
+
+      Alert.alert(
+        result.mode === "restore" ? "Restore Complete" : "Merge Complete",
+        `Imported ${lines.join(", ")}.`,
+        [{ text: "OK", onPress: () => navigation.goBack() }],
+      );
+    } catch (error: any) {
+      console.error("Error importing backup:", error);
+      Alert.alert(
+        "Import Failed",
+        `${error.message || "Something went wrong"}\n\nNo records were changed.`,
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleImport = () => {
+    if (!backup) return;
+
+    Alert.alert(
+      isEmptyDatabase ? "Restore Backup" : "Merge Backup",
+      isEmptyDatabase
+        ? "Restore all records from this backup?"
+        : "Add the records from this backup to your existing data?",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: isEmptyDatabase ? "Restore" : "Merge", onPress: runImport },
+      ],
+    );
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const renderCountRow = (label: string, value: number) => (
+    <View style={styles.countRow}>
+      <Text style={styles.countLabel}>{label}</Text>
+      <Text style={styles.countValue}>{value}</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom"]}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.introCard}>
+          <Ionicons name="cloud-download-outline" size={32} color="#007AFF" />
+          <Text style={styles.introTitle}>Import from Backup</Text>
+          <Text style={styles.introText}>
+            Choose a backup zip created with Export. On a new phone the backup
+            is restored as it was; otherwise its records are merged with your
+            existing data.
+          </Text>
+          <TouchableOpacity
+            style={styles.chooseButton}
+            onPress={handleChooseFile}
+            disabled={isReading || isImporting}
+          >
+            <Ionicons name="document-attach" size={20} color="#fff" />
+            <Text style={styles.chooseButtonText}>
+              {backup ? "Choose Another File" : "Choose Backup File"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {isReading && (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#007AFF" />
+            <Text style={styles.loadingText}>Checking backup...</Text>
+          </View>
+        )}
+
+        {backup && !isReading && (
+          <>
+            {/* Backup Summary */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Backup Contents</Text>
+              <View style={styles.card}>
+                <Text style={styles.fileName} numberOfLines={1}>
+                  {backup.fileName}
+                </Text>
+                <View style={styles.verifyRow}>
+                  <Ionicons
+                    name={backup.manifest ? "shield-checkmark" : "alert-circle"}
+                    size={16}
+                    color={backup.manifest ? "#2E7D32" : "#E65100"}
+                  />
+                  <Text style={styles.verifyText}>
+                    {backup.manifest
+                      ? `Created ${formatDate(backup.manifest.createdAt)} · all files verified`
+                      : "Older backup format - files can't be verified"}
+                  </Text>
+                </View>
+                {backup.encrypted && (
+                  <View style={styles.verifyRow}>
+                    <Ionicons name="lock-closed" size={16} color="#2E7D32" />
+                    <Text style={styles.verifyText}>
+                      Password protected · decrypted
+                    </Text>
+                  </View>
+                )}
+                {renderCountRow("Customers", backup.records.users.length)}
+                {renderCountRow("Rehan", backup.records.rehan.length)}
+                {renderCountRow(
+                  "Rehan Transactions",
+                  backup.records.rehanTransactions.length,
+                )}
+                {renderCountRow(
+                  "Pledged Items",
+                  backup.records.rehanItems.length,
+                )}
+                {renderCountRow("Len-Den", backup.records.lenden.length)}
+                {renderCountRow(
+                  "Bill Lines",
+                  backup.records.lendenItems.length,
+                )}
+                {renderCountRow(
+                  "Jama Entries",
+                  backup.records.jamaEntries.length,
+                )}
+                {renderCountRow("Invoices", backup.records.invoices.length)}
+                {renderCountRow("Reminders", backup.records.reminders.length)}
+                {renderCountRow("Photos", backup.imageCount)}
+                {backup.missingImages > 0 && (
+                  <View style={styles.warningRow}>
+                    <Ionicons name="warning" size={16} color="#E65100" />
+                    <Text style={styles.warningText}>
+                      {backup.missingImages} photos are missing from this
+                      backup and will be skipped
+                    </Text>
+                  </View>
+                )}
+              </View>
+            </View>
+
+            {/* Mode */}
+            <View
+              style={[
+                styles.modeBanner,
+                isEmptyDatabase ? styles.modeRestore : styles.modeMerge,
+              ]}
+            >
+              <Ionicons
+                name={isEmptyDatabase ? "refresh-circle" : "git-merge"}
+                size={20}
+                color={isEmptyDatabase ? "#2E7D32" : "#007AFF"}
+              />
+              <Text style={styles.modeText}>
+                {isEmptyDatabase
+                  ? "Your database is empty, so everything will be restored exactly as it was."
+                  : "You already have records, so this backup will be merged in as new entries."}
+              </Text>
+            </View>
+
+            {/* Conflicts */}
+            {conflicts.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>
+                  Already Exists ({conflicts.length})
+                </Text>
+                <View style={styles.card}>
+                  {conflicts.map((conflict) => (
+                    <View
+                      key={conflict.backupUserId}
+                      style={styles.conflictRow}
+                    >
+                      <Ionicons name="person" size={16} color="#E65100" />
+                      <Text style={styles.conflictText} numberOfLines={1}>
+                        {conflict.name}
+                        {conflict.mobileNumber
+                          ? ` · ${conflict.mobileNumber}`
+                          : ""}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+
+                <View style={styles.strategySelector}>
+                  <TouchableOpacity
+                    style={[
+                      styles.strategyChip,
+                      strategy === "skip" && styles.strategyChipActive,
+                    ]}
+                    onPress={() => setStrategy("skip")}
+                  >
+                    <Text
+                      style={[
+                        styles.strategyChipText,
+                        strategy === "skip" && styles.strategyChipTextActive,
+                      ]}
+                    >
+                      Skip them
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[
+                      styles.strategyChip,
+                      strategy === "link" && styles.strategyChipActive,
+                    ]}
+                    onPress={() => setStrategy("link")}
+                  >
+                    <Text
+                      style={[
+                        styles.strategyChipText,
+                        strategy === "link" && styles.strategyChipTextActive,
+                      ]}
+                    >
+                      Add to existing
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                <Text style={styles.helpText}>
+                  {strategy === "skip"
+                    ? "These customers and their entries won't be imported."
+                    : "Their entries will be added to the matching existing customer."}
+                </Text>
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[
+                styles.importButton,
+                isImporting && styles.importButtonDisabled,
+              ]}
+              onPress={handleImport}
+              disabled={isImporting}
+            >
+              {isImporting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.importButtonText}>
+                  {isEmptyDatabase ? "Restore Backup" : "Merge Backup"}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+
+      <BackupPasswordModal
+        visible={lockedFile !== null}
+        mode="enter"
+        onClose={() => setLockedFile(null)}
+        onSubmit={(password) => lockedFile && loadBackup(lockedFile, password)}
+        isBusy={isReading}
+        error={passwordError}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  introCard: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    padding: 16,
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  introTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1A1A1A",
+    marginTop: 8,
+  },
+  introText: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+    marginTop: 6,
+    lineHeight: 20,
+  },
+  chooseButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#007AFF",
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    marginTop: 16,
+  },
+  chooseButtonText: {
+    color: "#fff",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  loadingContainer: {
+    alignItems: "center",
+    paddingVertical: 32,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: "#666",
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1A1A1A",
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    overflow: "hidden",
+  },
+  fileName: {
+    fontSize: 13,
+    color: "#666",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    backgroundColor: "#F0F7FF",
+  },
+  verifyRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F2F5",
+  },
+  verifyText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#666",
+  },
+  countRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F2F5",
+  },
+  countLabel: {
+    fontSize: 14,
+    color: "#666",
+  },
+  countValue: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  warningRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    padding: 12,
+    backgroundColor: "#FFF3E0",
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#E65100",
+  },
+  modeBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  modeRestore: {
+    backgroundColor: "#E8F5E9",
+  },
+  modeMerge: {
+    backgroundColor: "#E3F2FD",
+  },
+  modeText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#1A1A1A",
+    lineHeight: 18,
+  },
+  conflictRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  conflictText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#1A1A1A",
+  },
+  strategySelector: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+  },
+  strategyChip: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    backgroundColor: "#fff",
+    alignItems: "center",
+  },
+  strategyChipActive: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  strategyChipText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#666",
+  },
+  strategyChipTextActive: {
+    color: "#fff",
+  },
+  helpText: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 8,
+  },
+  importButton: {
+    backgroundColor: "#2E7D32",
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: "center",
+  },
+  importButtonDisabled: {
+    opacity: 0.6,
+  },
+  importButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+});
+
+export default ImportScreen;
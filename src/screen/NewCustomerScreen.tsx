@@ -14,18 +14,26 @@ import * as ImagePicker from "expo-image-picker";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { Ionicons } from "@expo/vector-icons";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { RootStackParamList, EntryType } from "../types/entry";
+import {
+  RootStackParamList,
+  EntryType,
+  InterestMode,
+  NewRehanItem,
+  NewLendenItem,
+} from "../types/entry";
 import {
   checkDuplicateUser,
-  createUser,
-  createRehan,
-  createLenden,
-  createJamaEntry,
+  createCustomerEntry,
 } from "../database/entryDatabase";
-import { saveImages } from "../storage/fileStorage";
+import { saveImages, deleteImages } from "../storage/fileStorage";
 import CustomDatePicker from "../components/CustomDatePicker";
 import BillTable from "../components/BillTable";
 import AddJamaModal from "../components/AddJamaModal";
+import AddRehanItemModal from "../components/AddRehanItemModal";
+import RehanItemsTable from "../components/RehanItemsTable";
+import AddLendenItemModal from "../components/AddLendenItemModal";
+import { getBillAmount } from "../services/BillingService";
+import { shareRehanReceipt } from "../services/PdfService";
 
 type NewCustomerScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -62,10 +70,22 @@ const NewCustomerScreen: React.FC<Props> = ({ navigation }) => {
   // Rehan-specific fields
   const [productName, setProductName] = useState("");
   const [rehanAmount, setRehanAmount] = useState("");
+  const [interestRate, setInterestRate] = useState("");
+  const [interestMode, setInterestMode] = useState<InterestMode>("simple");
+  const [rehanItems, setRehanItems] = useState<NewRehanItem[]>([]);
+  const [showAddItemModal, setShowAddItemModal] = useState(false);
 
   // Lenden-specific fields
   const [lendenAmount, setLendenAmount] = useState("");
   const [discount, setDiscount] = useState("");
+  const [lendenItems, setLendenItems] = useState<NewLendenItem[]>([]);
+  const [showAddLendenItemModal, setShowAddLendenItemModal] = useState(false);
+
+  // An itemised bill is worth the sum of its lines
+  const updateLendenItems = (items: NewLendenItem[]) => {
+    setLendenItems(items);
+    setLendenAmount(items.length > 0 ? getBillAmount(items).toString() : "");
+  };
 
   // Multiple Jama Entries
   interface LocalJamaEntry {
@@ -190,6 +210,21 @@ const NewCustomerScreen: React.FC<Props> = ({ navigation }) => {
     }
   };
 
+  // Share the pledge receipt for the rehan just saved, then leave the screen
+  const handleShareReceipt = async (rehanId: number) => {
+    try {
+      await shareRehanReceipt(rehanId);
+    } catch (error: any) {
+      console.error("Error sharing receipt:", error);
+      Alert.alert(
+        "Receipt Not Shared",
+        `${error.message || "Failed to create receipt"}. You can share it later from the rehan details.`,
+      );
+    } finally {
+      navigation.goBack();
+    }
+  };
+
   const handleSave = async () => {
     // Validation
     if (!name.trim()) {
@@ -206,6 +241,7 @@ const NewCustomerScreen: React.FC<Props> = ({ navigation }) => {
     }
 
     setIsLoading(true);
+    let savedImagePaths: string[] = [];
 
     try {
       // Check for duplicate user
@@ -225,47 +261,55 @@ const NewCustomerScreen: React.FC<Props> = ({ navigation }) => {
       }
 
       // Save images to file system
-      const savedImagePaths = await saveImages(selectedImages);
-
-      // Create user
-      const userId = await createUser({
-        name: name.trim(),
-        nickname: nickname.trim() || undefined,
-        address: address.trim() || undefined,
-        mobileNumber: mobileNumber.trim() || undefined,
+      savedImagePaths = await saveImages(selectedImages);
+
+      // Create user and entry together - nothing is saved if any step fails
+      const ids = await createCustomerEntry({
+        user: {
+          name: name.trim(),
+          nickname: nickname.trim() || undefined,
+          address: address.trim() || undefined,
+          mobileNumber: mobileNumber.trim() || undefined,
+        },
+        rehan:
+          entryType === "rehan"
+            ? {
+                media: savedImagePaths,
+                openDate: selectedDate.toISOString(),
+                productName: productName.trim() || undefined,
+                amount: rehanAmount ? parseInt(rehanAmount, 10) : undefined,
+                interestRate: interestRate
+                  ? parseFloat(interestRate)
+                  : undefined,
+                interestMode,
+                items: rehanItems,
+              }
+            : undefined,
+        lenden:
+          entryType === "lenden"
+            ? {
+                date: selectedDate.toISOString(),
+                media: savedImagePaths,
+                amount: lendenAmount ? parseInt(lendenAmount, 10) : undefined,
+                discount: discount ? parseInt(discount, 10) : undefined,
+                remaining: remaining || undefined,
+                baki: baki || undefined,
+                items: lendenItems,
+              }
+            : undefined,
+        jamaEntries: entryType === "lenden" ? jamaEntries : undefined,
       });
 
-      // Create entry based on type
-      if (entryType === "rehan") {
-        await createRehan({
-          userId,
-          media: savedImagePaths,
-          openDate: selectedDate.toISOString(),
-          productName: productName.trim() || undefined,
-          amount: rehanAmount ? parseInt(rehanAmount, 10) : undefined,
-        });
-      } else {
-        const lendenId = await createLenden({
-          userId,
-          date: selectedDate.toISOString(),
-          media: savedImagePaths,
-          amount: lendenAmount ? parseInt(lendenAmount, 10) : undefined,
-          discount: discount ? parseInt(discount, 10) : undefined,
-          remaining: remaining || undefined,
-          baki: baki || undefined,
-        });
-
-        // Create jama entries
-        for (const entry of jamaEntries) {
-          await createJamaEntry({
-            lendenId,
-            amount: entry.amount,
-            date: entry.date,
-          });
-        }
-      }
-
+      const { rehanId } = ids;
       Alert.alert("Success", "Customer entry saved successfully!", [
+        ...(rehanId
+          ? [
+              {
+                text: "Share Receipt",
+                onPress: () => handleShareReceipt(rehanId),
+              },
+            ]
+          : []),
         {
           text: "OK",
           onPress: () => navigation.goBack(),
@@ -273,6 +317,8 @@ const NewCustomerScreen: React.FC<Props> = ({ navigation }) => {
       ]);
     } catch (error) {
       console.error("Error saving entry:", error);
+      // Remove images copied for an entry that was never saved
+      await deleteImages(savedImagePaths);
       Alert.alert("Error", "Failed to save the entry. Please try again.");
     } finally {
       setIsLoading(false);
@@ -451,9 +497,68 @@ const NewCustomerScreen: React.FC<Props> = ({ navigation }) => {
                 keyboardType="numeric"
               />
             </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Interest (% per month)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Enter monthly interest rate (optional)"
+                placeholderTextColor="#999"
+                value={interestRate}
+                onChangeText={(text) =>
+                  setInterestRate(text.replace(/[^0-9.]/g, ""))
+                }
+                keyboardType="decimal-pad"
+              />
+              <View style={styles.modeSelector}>
+                {(["simple", "compound"] as InterestMode[]).map((mode) => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[
+                      styles.modeChip,
+                      interestMode === mode && styles.modeChipActive,
+                    ]}
+                    onPress={() => setInterestMode(mode)}
+                  >
+                    <Text
+                      style={[
+                        styles.modeChipText,
+                        interestMode === mode && styles.modeChipTextActive,
+                      ]}
+                    >
+                      {mode === "simple" ? "Simple" : "Monthly Compound"}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Pledged Items</Text>
+              <RehanItemsTable
+                items={rehanItems}
+                onRemoveItem={(index) =>
+                  setRehanItems((prev) => prev.filter((_, i) => i !== index))
+                }
+              />
+              <TouchableOpacity
+                style={styles.addItemButton}
+                onPress={() => setShowAddItemModal(true)}
+              >
+                <Ionicons name="add-circle-outline" size={20} color="#007AFF" />
+                <Text style={styles.addItemText}>Add Item</Text>
+              </TouchableOpacity>
+            </View>
           </View>
         )}
 
+        {/* Add Pledged Item Modal */}
+        <AddRehanItemModal
+          visible={showAddItemModal}
+          onClose={() => setShowAddItemModal(false)}
+          onAdd={(item) => setRehanItems((prev) => [...prev, item])}
+        />
+
         {/* Lenden-specific Fields */}
         {entryType === "lenden" && (
           <View style={styles.section}>
@@ -468,7 +573,22 @@ const NewCustomerScreen: React.FC<Props> = ({ navigation }) => {
                 value={lendenAmount}
                 onChangeText={setLendenAmount}
                 keyboardType="numeric"
+                editable={lendenItems.length === 0}
               />
+              {lendenItems.length > 0 && (
+                <Text style={styles.hintText}>Total of the bill items</Text>
+              )}
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Bill Items</Text>
+              <TouchableOpacity
+                style={styles.addItemButton}
+                onPress={() => setShowAddLendenItemModal(true)}
+              >
+                <Ionicons name="add-circle-outline" size={20} color="#007AFF" />
+                <Text style={styles.addItemText}>Add Item</Text>
+              </TouchableOpacity>
             </View>
 
             <View style={styles.inputGroup}>
@@ -489,8 +609,14 @@ const NewCustomerScreen: React.FC<Props> = ({ navigation }) => {
                 <BillTable
                   amount={parseInt(lendenAmount, 10) || 0}
                   discount={parseInt(discount, 10) || 0}
+                  items={lendenItems}
                   jamaEntries={jamaEntries}
                   editable={true}
+                  onRemoveItem={(index) =>
+                    updateLendenItems(
+                      lendenItems.filter((_, i) => i !== index),
+                    )
+                  }
                   onAddJama={() => setShowAddJamaModal(true)}
                   onDeleteJama={(index) => {
                     setJamaEntries((prev) =>
@@ -503,6 +629,13 @@ const NewCustomerScreen: React.FC<Props> = ({ navigation }) => {
           </View>
         )}
 
+        {/* Add Bill Item Modal */}
+        <AddLendenItemModal
+          visible={showAddLendenItemModal}
+          onClose={() => setShowAddLendenItemModal(false)}
+          onAdd={(item) => updateLendenItems([...lendenItems, item])}
+        />
+
         {/* Add Jama Modal */}
         <AddJamaModal
           visible={showAddJamaModal}
@@ -688,6 +821,50 @@ const styles = StyleSheet.create({
   typeButtonTextActive: {
     color: "#fff",
   },
+  modeSelector: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 10,
+  },
+  modeChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#F0F2F5",
+  },
+  modeChipActive: {
+    backgroundColor: "#007AFF",
+  },
+  modeChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+  },
+  modeChipTextActive: {
+    color: "#fff",
+  },
+  addItemButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#F0F7FF",
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#D0E4FF",
+    marginTop: 10,
+  },
+  addItemText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#007AFF",
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 6,
+  },
   dateButton: {
     flexDirection: "row",
     alignItems: "center",
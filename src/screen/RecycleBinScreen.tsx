@@ -0,0 +1,403 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  RootStackParamList,
+  RecycleBinItem,
+  RecycleBinEntity,
+} from "../types/entry";
+import {
+  getRecycleBinItems,
+  restoreRecycleBinItem,
+} from "../database/entryDatabase";
+import { purgeItem } from "../services/RecycleBinService";
+import { getSettings, updateSettings } from "../storage/settingsStorage";
+
+type RecycleBinNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "RecycleBin"
+>;
+
+interface Props {
+  navigation: RecycleBinNavigationProp;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ENTITY_LABELS: Record<RecycleBinEntity, string> = {
+  user: "Customer",
+  rehan: "Rehan",
+  lenden: "Len-Den",
+  jama_entry: "Jama entry",
+};
+
+const ENTITY_ICONS: Record<RecycleBinEntity, keyof typeof Ionicons.glyphMap> =
+  {
+    user: "person",
+    rehan: "diamond",
+    lenden: "swap-horizontal",
+    jama_entry: "cash",
+  };
+
+const RecycleBinScreen: React.FC<Props> = () => {
+  const [items, setItems] = useState<RecycleBinItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [retentionInput, setRetentionInput] = useState("30");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const loadItems = async () => {
+    try {
+      const [rows, settings] = await Promise.all([
+        getRecycleBinItems(),
+        getSettings(),
+      ]);
+      setItems(rows);
+      setRetentionDays(settings.recycleBinRetentionDays);
+      setRetentionInput(String(settings.recycleBinRetentionDays));
+    } catch (error) {
+      console.error("Error loading recycle bin:", error);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadItems();
+    }, []),
+  );
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadItems();
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const getDaysLeft = (deletedAt: string) => {
+    const purgeAt = new Date(deletedAt).getTime() + retentionDays * DAY_MS;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+  };
+
+  const getItemTitle = (item: RecycleBinItem) => {
+    if (item.entity === "user") return item.userName;
+    return `${ENTITY_LABELS[item.entity]} #${item.id} · ${item.userName}`;
+  };
+
+  const handleSaveRetention = async () => {
+    const days = parseInt(retentionInput, 10);
+    if (isNaN(days) || days < 1) {
+      Alert.alert("Invalid Value", "Please enter at least 1 day");
+      return;
+    }
+
+    try {
+      await updateSettings({ recycleBinRetentionDays: days });
+      setRetentionDays(days);
+      Alert.alert(
+        "Saved",
+        `Deleted records will be removed permanently after ${days} days`,
+      );
+    } catch (error) {
+      console.error("Error saving retention:", error);
+      Alert.alert("Error", "Failed to save setting");
+    }
+  };
+
+  const handleRestore = async (item: RecycleBinItem) => {
+    try {
+      await restoreRecycleBinItem(item.entity, item.id);
+      loadItems();
+    } catch (error) {
+      console.error("Error restoring item:", error);
+      Alert.alert("Error", "Failed to restore");
+    }
+  };
+
+  const handlePurge = (item: RecycleBinItem) => {
+    const message =
+      item.entity === "user"
+        ? `Permanently delete ${item.userName} with all their entries and photos? This cannot be undone.`
+        : `Permanently delete this ${ENTITY_LABELS[item.entity]}? This cannot be undone.`;
+
+    Alert.alert("Delete Forever", message, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await purgeItem(item.entity, item.id);
+            loadItems();
+          } catch (error) {
+            console.error("Error purging item:", error);
+            Alert.alert("Error", "Failed to delete");
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderItem = (item: RecycleBinItem) => {
+    const daysLeft = getDaysLeft(item.deletedAt);
+
+    return (
+      <View key={`${item.entity}-${item.id}`} style={styles.itemCard}>
+        <View style={styles.itemHeader}>
+          <View style={styles.iconContainer}>
+            <Ionicons name={ENTITY_ICONS[item.entity]} size={20} color="#666" />
+          </View>
+          <View style={styles.itemInfo}>
+            <Text style={styles.itemTitle} numberOfLines={1}>
+              {getItemTitle(item)}
+            </Text>
+            {(item.productName || item.amount != null) && (
+              <Text style={styles.itemDetail} numberOfLines={1}>
+                {[
+                  item.productName,
+                  item.amount != null && `₹${item.amount.toLocaleString()}`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </Text>
+            )}
+            <Text style={styles.itemMeta}>
+              Deleted {formatDate(item.deletedAt)} ·{" "}
+              {daysLeft === 0
+                ? "removed on next start"
+                : `${daysLeft} days left`}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.restoreButton]}
+            onPress={() => handleRestore(item)}
+          >
+            <Ionicons name="arrow-undo" size={16} color="#007AFF" />
+            <Text style={styles.restoreText}>Restore</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.purgeButton]}
+            onPress={() => handlePurge(item)}
+          >
+            <Ionicons name="trash" size={16} color="#C62828" />
+            <Text style={styles.purgeText}>Delete Forever</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom"]}>
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Loading recycle bin...</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={handleRefresh}
+            />
+          }
+        >
+          {/* Retention Setting */}
+          <View style={styles.settingCard}>
+            <Text style={styles.settingLabel}>Auto-delete after (days)</Text>
+            <View style={styles.settingRow}>
+              <TextInput
+                style={styles.settingInput}
+                value={retentionInput}
+                onChangeText={setRetentionInput}
+                keyboardType="number-pad"
+                maxLength={4}
+              />
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={handleSaveRetention}
+              >
+                <Text style={styles.saveButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {items.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Ionicons name="trash-outline" size={48} color="#CCC" />
+              <Text style={styles.emptyText}>Recycle bin is empty</Text>
+            </View>
+          ) : (
+            items.map(renderItem)
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: "#666",
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  settingCard: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    padding: 12,
+    marginBottom: 16,
+  },
+  settingLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1A1A1A",
+    marginBottom: 8,
+  },
+  settingRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  settingInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: "#1A1A1A",
+  },
+  saveButton: {
+    backgroundColor: "#007AFF",
+    borderRadius: 8,
+    paddingHorizontal: 20,
+    justifyContent: "center",
+  },
+  saveButtonText: {
+    color: "#fff",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  itemCard: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    padding: 12,
+    marginBottom: 12,
+  },
+  itemHeader: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: "#F0F2F5",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  itemDetail: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 4,
+  },
+  actionRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  restoreButton: {
+    backgroundColor: "#E3F2FD",
+  },
+  restoreText: {
+    color: "#007AFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  purgeButton: {
+    backgroundColor: "#FFEBEE",
+  },
+  purgeText: {
+    color: "#C62828",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingVertical: 48,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: "#999",
+  },
+});
+
+export default RecycleBinScreen;
@@ -0,0 +1,432 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { RootStackParamList } from "../types/entry";
+import { getOpenRehanRecords } from "../database/entryDatabase";
+import {
+  AgingBucket,
+  AgingBucketKey,
+  AgingEntry,
+  buildAgingReport,
+} from "../services/AgingService";
+import { formatRehanNumber } from "../services/PdfService";
+
+type RehanAgingNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "RehanAging"
+>;
+
+interface Props {
+  navigation: RehanAgingNavigationProp;
+}
+
+// Older buckets get a stronger colour
+const BUCKET_COLORS: Record<AgingBucketKey, string> = {
+  "0-3": "#2E7D32",
+  "3-6": "#007AFF",
+  "6-12": "#E65100",
+  "12+": "#C62828",
+};
+
+const RehanAgingScreen: React.FC<Props> = ({ navigation }) => {
+  const [buckets, setBuckets] = useState<AgingBucket[]>([]);
+  const [selectedBucket, setSelectedBucket] = useState<AgingBucketKey | null>(
+    null,
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const loadReport = async () => {
+    try {
+      setBuckets(buildAgingReport(await getOpenRehanRecords()));
+    } catch (error) {
+      console.error("Error loading rehan aging:", error);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadReport();
+    }, []),
+  );
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadReport();
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const formatAge = (months: number) => {
+    if (months < 12) return `${months} mo`;
+    const years = Math.floor(months / 12);
+    const rest = months % 12;
+    return rest > 0 ? `${years} yr ${rest} mo` : `${years} yr`;
+  };
+
+  const totalCount = buckets.reduce((sum, b) => sum + b.entries.length, 0);
+  const totalOutstanding = buckets.reduce((sum, b) => sum + b.outstanding, 0);
+  const visibleBuckets = buckets.filter(
+    (b) =>
+      b.entries.length > 0 &&
+      (selectedBucket === null || b.key === selectedBucket),
+  );
+
+  const renderEntry = (entry: AgingEntry, color: string) => (
+    <TouchableOpacity
+      key={entry.rehan.id}
+      style={styles.entryCard}
+      onPress={() =>
+        navigation.navigate("TransactionDetail", {
+          transactionId: entry.rehan.id,
+          transactionType: "rehan",
+        })
+      }
+      activeOpacity={0.7}
+    >
+      <View style={styles.entryHeader}>
+        <View style={styles.entryInfo}>
+          <Text style={styles.entryName} numberOfLines={1}>
+            {entry.rehan.userName}
+          </Text>
+          <Text style={styles.entryProduct} numberOfLines={1}>
+            {formatRehanNumber(entry.rehan.id)}
+            {entry.rehan.productName ? ` · ${entry.rehan.productName}` : ""}
+          </Text>
+        </View>
+        <View style={[styles.ageBadge, { backgroundColor: `${color}1A` }]}>
+          <Text style={[styles.ageText, { color }]}>
+            {formatAge(entry.ageMonths)}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.entryStats}>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>Outstanding</Text>
+          <Text style={styles.statValue}>
+            ₹{entry.outstanding.toLocaleString()}
+          </Text>
+          {entry.interest > 0 && (
+            <Text style={styles.statHint}>
+              incl. ₹{entry.interest.toLocaleString()} interest
+            </Text>
+          )}
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>Opened</Text>
+          <Text style={styles.statValueSmall}>
+            {formatDate(entry.rehan.openDate)}
+          </Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>Last Payment</Text>
+          <Text
+            style={[
+              styles.statValueSmall,
+              !entry.rehan.lastPaymentDate && styles.noPaymentText,
+            ]}
+          >
+            {entry.rehan.lastPaymentDate
+              ? formatDate(entry.rehan.lastPaymentDate)
+              : "None yet"}
+          </Text>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+        <Text style={styles.loadingText}>Loading open rehan...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom"]}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+        }
+      >
+        {/* Summary */}
+        <View style={styles.summaryCard}>
+          <View>
+            <Text style={styles.summaryLabel}>Open Rehan</Text>
+            <Text style={styles.summaryValue}>{totalCount}</Text>
+          </View>
+          <View style={styles.summaryRight}>
+            <Text style={styles.summaryLabel}>Total Outstanding</Text>
+            <Text style={styles.summaryValue}>
+              ₹{totalOutstanding.toLocaleString()}
+            </Text>
+          </View>
+        </View>
+
+        {/* Bucket filter */}
+        <View style={styles.bucketRow}>
+          {buckets.map((bucket) => {
+            const isActive = selectedBucket === bucket.key;
+            const color = BUCKET_COLORS[bucket.key];
+            return (
+              <TouchableOpacity
+                key={bucket.key}
+                style={[
+                  styles.bucketChip,
+                  isActive && { backgroundColor: color, borderColor: color },
+                ]}
+                onPress={() => setSelectedBucket(isActive ? null : bucket.key)}
+              >
+                <Text
+                  style={[
+                    styles.bucketCount,
+                    { color: isActive ? "#fff" : color },
+                  ]}
+                >
+                  {bucket.entries.length}
+                </Text>
+                <Text
+                  style={[styles.bucketLabel, isActive && styles.textWhite]}
+                >
+                  {bucket.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {visibleBuckets.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="hourglass-outline" size={48} color="#CCC" />
+            <Text style={styles.emptyText}>No open rehan here</Text>
+          </View>
+        ) : (
+          visibleBuckets.map((bucket) => (
+            <View key={bucket.key} style={styles.bucketSection}>
+              <View style={styles.bucketHeader}>
+                <View
+                  style={[
+                    styles.bucketDot,
+                    { backgroundColor: BUCKET_COLORS[bucket.key] },
+                  ]}
+                />
+                <Text style={styles.bucketTitle}>
+                  {bucket.label} ({bucket.entries.length})
+                </Text>
+                <Text style={styles.bucketTotal}>
+                  ₹{bucket.outstanding.toLocaleString()}
+                </Text>
+              </View>
+              {bucket.entries.map((entry) =>
+                renderEntry(entry, BUCKET_COLORS[bucket.key]),
+              )}
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#F8F9FA",
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: "#666",
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  summaryCard: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    padding: 16,
+    marginBottom: 12,
+  },
+  summaryRight: {
+    alignItems: "flex-end",
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: "#999",
+    textTransform: "uppercase",
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: "800",
+    color: "#1A1A1A",
+  },
+  bucketRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 16,
+  },
+  bucketChip: {
+    flex: 1,
+    alignItems: "center",
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    paddingVertical: 10,
+  },
+  bucketCount: {
+    fontSize: 18,
+    fontWeight: "800",
+  },
+  bucketLabel: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#666",
+    marginTop: 2,
+  },
+  textWhite: {
+    color: "#fff",
+  },
+  bucketSection: {
+    marginBottom: 16,
+  },
+  bucketHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 8,
+  },
+  bucketDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  bucketTitle: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+    textTransform: "uppercase",
+  },
+  bucketTotal: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  entryCard: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    padding: 12,
+    marginBottom: 8,
+  },
+  entryHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  entryProduct: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  ageBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  ageText: {
+    fontSize: 12,
+    fontWeight: "700",
+  },
+  entryStats: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F2F5",
+  },
+  stat: {
+    flex: 1,
+  },
+  statLabel: {
+    fontSize: 11,
+    color: "#999",
+    marginBottom: 2,
+  },
+  statValue: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  statValueSmall: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  statHint: {
+    fontSize: 11,
+    color: "#E65100",
+    marginTop: 2,
+  },
+  noPaymentText: {
+    color: "#C62828",
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingVertical: 48,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: "#999",
+  },
+});
+
+export default RehanAgingScreen;
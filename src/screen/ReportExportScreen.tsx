@@ -0,0 +1,288 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { RootStackParamList } from "../types/entry";
+import {
+  SpreadsheetFormat,
+  exportGstr1Summary,
+  exportSpreadsheet,
+} from "../services/SpreadsheetExportService";
+import DateRangePicker, {
+  DATE_RANGE_PRESETS,
+  toReportDateRange,
+} from "../components/DateRangePicker";
+
+type ReportExportNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "ReportExport"
+>;
+
+interface Props {
+  navigation: ReportExportNavigationProp;
+}
+
+type ReportKind = "accounts" | "gst";
+
+const ReportExportScreen: React.FC<Props> = () => {
+  const [fromDate, setFromDate] = useState(
+    () => DATE_RANGE_PRESETS[0].getRange()[0],
+  );
+  const [toDate, setToDate] = useState(
+    () => DATE_RANGE_PRESETS[0].getRange()[1],
+  );
+  // GST returns are filed month by month
+  const [gstMonth, setGstMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const [exporting, setExporting] = useState<{
+    report: ReportKind;
+    format: SpreadsheetFormat;
+  } | null>(null);
+
+  const isCurrentMonth =
+    gstMonth.getFullYear() === new Date().getFullYear() &&
+    gstMonth.getMonth() === new Date().getMonth();
+
+  const changeGstMonth = (months: number) => {
+    setGstMonth(
+      (prev) => new Date(prev.getFullYear(), prev.getMonth() + months, 1),
+    );
+  };
+
+  const handleExport = async (
+    report: ReportKind,
+    format: SpreadsheetFormat,
+  ) => {
+    setExporting({ report, format });
+    try {
+      if (report === "gst") {
+        await exportGstr1Summary(gstMonth, format);
+      } else {
+        await exportSpreadsheet(toReportDateRange(fromDate, toDate), format);
+      }
+    } catch (error: any) {
+      console.error("Error exporting spreadsheet:", error);
+      Alert.alert("Export Failed", error.message || "Failed to export");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const renderExportButton = (
+    report: ReportKind,
+    format: SpreadsheetFormat,
+    title: string,
+    subtitle: string,
+    icon: keyof typeof Ionicons.glyphMap,
+    color: string,
+  ) => (
+    <TouchableOpacity
+      style={[styles.exportCard, exporting !== null && styles.exportDisabled]}
+      onPress={() => handleExport(report, format)}
+      disabled={exporting !== null}
+    >
+      <View style={[styles.exportIcon, { backgroundColor: `${color}1A` }]}>
+        {exporting?.report === report && exporting.format === format ? (
+          <ActivityIndicator color={color} />
+        ) : (
+          <Ionicons name={icon} size={24} color={color} />
+        )}
+      </View>
+      <View style={styles.exportContent}>
+        <Text style={styles.exportTitle}>{title}</Text>
+        <Text style={styles.exportSubtitle}>{subtitle}</Text>
+      </View>
+      <Ionicons name="share-outline" size={20} color="#999" />
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom"]}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>Date Range</Text>
+        <DateRangePicker
+          fromDate={fromDate}
+          toDate={toDate}
+          onChange={(from, to) => {
+            setFromDate(from);
+            setToDate(to);
+          }}
+        />
+
+        <Text style={styles.sectionTitle}>Export</Text>
+        {renderExportButton(
+          "accounts",
+          "xlsx",
+          "Excel Workbook",
+          "One .xlsx file with a sheet per table",
+          "document-text",
+          "#2E7D32",
+        )}
+        {renderExportButton(
+          "accounts",
+          "csv",
+          "CSV Files",
+          "A zip with one .csv file per table",
+          "documents",
+          "#007AFF",
+        )}
+
+        <View style={styles.infoCard}>
+          <Ionicons name="information-circle" size={18} color="#666" />
+          <Text style={styles.infoText}>
+            Includes customers, rehan, rehan transactions, len-den, jama
+            entries and a ledger of every payment. Entries are filtered by
+            their date; the customer list is always complete.
+          </Text>
+        </View>
+
+        <Text style={[styles.sectionTitle, styles.gstTitle]}>
+          GST Summary (GSTR-1)
+        </Text>
+        <View style={styles.monthSelector}>
+          <TouchableOpacity
+            style={styles.monthArrow}
+            onPress={() => changeGstMonth(-1)}
+          >
+            <Ionicons name="chevron-back" size={20} color="#007AFF" />
+          </TouchableOpacity>
+          <Text style={styles.monthText}>
+            {gstMonth.toLocaleDateString("en-IN", {
+              month: "long",
+              year: "numeric",
+            })}
+          </Text>
+          <TouchableOpacity
+            style={styles.monthArrow}
+            onPress={() => changeGstMonth(1)}
+            disabled={isCurrentMonth}
+          >
+            <Ionicons
+              name="chevron-forward"
+              size={20}
+              color={isCurrentMonth ? "#CCC" : "#007AFF"}
+            />
+          </TouchableOpacity>
+        </View>
+        {renderExportButton(
+          "gst",
+          "xlsx",
+          "GST Workbook",
+          "B2B, B2CS, HSN and document sheets",
+          "receipt",
+          "#E65100",
+        )}
+        {renderExportButton(
+          "gst",
+          "csv",
+          "GST CSV Files",
+          "A zip with one .csv file per GSTR-1 table",
+          "documents",
+          "#007AFF",
+        )}
+      </ScrollView>
+
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+    textTransform: "uppercase",
+    marginBottom: 8,
+  },
+  exportCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    padding: 14,
+    marginBottom: 12,
+  },
+  exportDisabled: {
+    opacity: 0.6,
+  },
+  exportIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  exportContent: {
+    flex: 1,
+  },
+  exportTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  exportSubtitle: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  gstTitle: {
+    marginTop: 24,
+  },
+  monthSelector: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    padding: 6,
+    marginBottom: 12,
+  },
+  monthArrow: {
+    padding: 8,
+  },
+  monthText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  infoCard: {
+    flexDirection: "row",
+    gap: 8,
+    backgroundColor: "#F0F2F5",
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#666",
+    lineHeight: 18,
+  },
+});
+
+export default ReportExportScreen;
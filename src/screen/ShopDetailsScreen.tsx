@@ -0,0 +1,295 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { RootStackParamList } from "../types/entry";
+import { getSettings, updateSettings } from "../storage/settingsStorage";
+import { isValidGstin } from "../services/GstService";
+
+type ShopDetailsNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "ShopDetails"
+>;
+
+interface Props {
+  navigation: ShopDetailsNavigationProp;
+}
+
+const ShopDetailsScreen: React.FC<Props> = ({ navigation }) => {
+  const [shopName, setShopName] = useState("");
+  const [shopAddress, setShopAddress] = useState("");
+  const [shopPhone, setShopPhone] = useState("");
+  const [shopGstin, setShopGstin] = useState("");
+  const [rehanTerms, setRehanTerms] = useState("");
+  const [ltvLimit, setLtvLimit] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getSettings()
+      .then((settings) => {
+        setShopName(settings.shopName);
+        setShopAddress(settings.shopAddress);
+        setShopPhone(settings.shopPhone);
+        setShopGstin(settings.shopGstin);
+        setRehanTerms(settings.rehanTerms);
+        setLtvLimit(String(settings.ltvLimitPercent));
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleSave = async () => {
+    if (!shopName.trim()) {
+      Alert.alert("Required", "Please enter the shop name");
+      return;
+    }
+    if (shopGstin && !isValidGstin(shopGstin)) {
+      Alert.alert("Invalid", "Please enter a valid 15-character GSTIN");
+      return;
+    }
+    const ltvLimitPercent = parseFloat(ltvLimit);
+    if (!(ltvLimitPercent > 0 && ltvLimitPercent <= 100)) {
+      Alert.alert("Invalid", "Loan-to-value limit must be between 1 and 100");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateSettings({
+        shopName: shopName.trim(),
+        shopAddress: shopAddress.trim(),
+        shopPhone: shopPhone.trim(),
+        shopGstin,
+        rehanTerms: rehanTerms.trim(),
+        ltvLimitPercent,
+      });
+      navigation.goBack();
+    } catch (error) {
+      console.error("Error saving shop details:", error);
+      Alert.alert("Error", "Failed to save shop details");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom"]}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.infoCard}>
+          <Ionicons name="information-circle" size={18} color="#666" />
+          <Text style={styles.infoText}>
+            Printed at the top of every bill and receipt you share.
+          </Text>
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>
+            Shop Name <Text style={styles.required}>*</Text>
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={shopName}
+            onChangeText={setShopName}
+            placeholder="Shop name"
+            placeholderTextColor="#999"
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Address</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={shopAddress}
+            onChangeText={setShopAddress}
+            placeholder="Shop address"
+            placeholderTextColor="#999"
+            multiline
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Phone</Text>
+          <TextInput
+            style={styles.input}
+            value={shopPhone}
+            onChangeText={setShopPhone}
+            placeholder="Shop phone number"
+            placeholderTextColor="#999"
+            keyboardType="phone-pad"
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>GSTIN</Text>
+          <TextInput
+            style={styles.input}
+            value={shopGstin}
+            onChangeText={(text) =>
+              setShopGstin(text.toUpperCase().replace(/[^0-9A-Z]/g, ""))
+            }
+            placeholder="e.g. 27ABCDE1234F1Z5"
+            placeholderTextColor="#999"
+            autoCapitalize="characters"
+            maxLength={15}
+          />
+          <Text style={styles.hint}>
+            Printed on GST invoices. Its state decides whether a sale is
+            charged CGST and SGST or IGST.
+          </Text>
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Pledge Receipt Terms</Text>
+          <TextInput
+            style={[styles.input, styles.termsInput]}
+            value={rehanTerms}
+            onChangeText={setRehanTerms}
+            placeholder="Terms printed on rehan receipts"
+            placeholderTextColor="#999"
+            multiline
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Loan-to-Value Limit (%)</Text>
+          <TextInput
+            style={styles.input}
+            value={ltvLimit}
+            onChangeText={(text) => setLtvLimit(text.replace(/[^0-9.]/g, ""))}
+            placeholder="75"
+            placeholderTextColor="#999"
+            keyboardType="decimal-pad"
+          />
+          <Text style={styles.hint}>
+            A rehan top-up (diya) that takes the loan past this share of the
+            pledged gold and silver value at today's bhav shows a warning.
+          </Text>
+        </View>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#F8F9FA",
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  infoCard: {
+    flexDirection: "row",
+    gap: 8,
+    backgroundColor: "#F0F2F5",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 20,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#666",
+    lineHeight: 18,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#444",
+    marginBottom: 8,
+  },
+  required: {
+    color: "#FF3B30",
+  },
+  input: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    color: "#1A1A1A",
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 6,
+    lineHeight: 16,
+  },
+  termsInput: {
+    minHeight: 160,
+    fontSize: 14,
+    textAlignVertical: "top",
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F2F5",
+    backgroundColor: "#fff",
+  },
+  saveButton: {
+    backgroundColor: "#007AFF",
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
+
+export default ShopDetailsScreen;
@@ -20,32 +20,91 @@ import { Ionicons } from "@expo/vector-icons";
 import * as ImagePicker from "expo-image-picker";
 // @ts-ignore
 import { ReactNativeZoomableView } from "@dudigital/react-native-zoomable-view";
-import { RootStackParamList, JamaEntry } from "../types/entry";
+import {
+  RootStackParamList,
+  JamaEntry,
+  LendenItem,
+} from "../types/entry";
 import {
   getRehanById,
   getLendenById,
   getUserById,
   updateRehanDetails,
   updateLendenDetails,
-  closeRehan,
   getJamaEntriesByLendenId,
+  getLendenItemsByLendenId,
   createJamaEntry,
   deleteJamaEntry,
-  updateLendenBaki,
   editJamaEntry,
+  setLendenInstallmentPlan,
 } from "../database/entryDatabase";
 import { User, Rehan, Lenden } from "../types/entry";
-import { saveImages } from "../storage/fileStorage";
+import { saveImages, deleteImages } from "../storage/fileStorage";
 import BillTable from "../components/BillTable";
 import AddJamaModal from "../components/AddJamaModal";
 import AddRehanTransactionModal from "../components/AddRehanTransactionModal";
 import RehanTransactionTable from "../components/RehanTransactionTable";
+import RehanItemsTable from "../components/RehanItemsTable";
+import RehanLtvSummary from "../components/RehanLtvSummary";
+import ReleaseItemsModal from "../components/ReleaseItemsModal";
+import RenewRehanModal from "../components/RenewRehanModal";
+import CloseRehanModal from "../components/CloseRehanModal";
+import InstallmentPlanModal from "../components/InstallmentPlanModal";
+import InstallmentScheduleTable from "../components/InstallmentScheduleTable";
+import GstInvoiceModal from "../components/GstInvoiceModal";
 import {
   getRehanTransactionsByRehanId,
+  getRehanItemsByRehanId,
   createRehanTransaction,
   deleteRehanTransaction,
+  releaseRehanItems,
+  settleRehan,
+  renewRehan,
+  getRenewalChain,
+  getAuditLogForTransaction,
+  createInvoice,
+  getInvoiceByLendenId,
+  getLastInvoiceForUser,
 } from "../database/entryDatabase";
-import { RehanTransaction } from "../types/entry";
+import {
+  RehanTransaction,
+  RehanItem,
+  InterestMode,
+  AuditLogEntry,
+  InstallmentPlan,
+  NewRehanSettlement,
+  NewRehanRenewal,
+  Invoice,
+} from "../types/entry";
+import {
+  calculateRehanInterest,
+  getOpeningPrincipal,
+} from "../services/InterestService";
+import RehanInterestSummary from "../components/RehanInterestSummary";
+import AuditHistoryList from "../components/AuditHistoryList";
+import {
+  shareGstInvoice,
+  shareLendenBill,
+  shareRehanReceipt,
+} from "../services/PdfService";
+import {
+  GST_RATE_PERCENT,
+  InvoiceDetails,
+  buildNewInvoice,
+  formatInvoiceNumber,
+  isValidGstin,
+} from "../services/GstService";
+import {
+  INSTALLMENT_FREQUENCY_LABELS,
+  buildInstallmentSchedule,
+  getInstallmentPlan,
+} from "../services/InstallmentService";
+import {
+  CollateralValuation,
+  getLiveBhav,
+  valueCollateral,
+} from "../services/ValuationService";
+import { getSettings } from "../storage/settingsStorage";
 
 type TransactionDetailScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -86,6 +145,14 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
   const [originalProductName, setOriginalProductName] = useState("");
   const [originalAmount, setOriginalAmount] = useState("");
 
+  // Rehan interest edit fields
+  const [editInterestRate, setEditInterestRate] = useState("");
+  const [editInterestMode, setEditInterestMode] =
+    useState<InterestMode>("simple");
+  const [originalInterestRate, setOriginalInterestRate] = useState("");
+  const [originalInterestMode, setOriginalInterestMode] =
+    useState<InterestMode>("simple");
+
   // Lenden-specific edit fields
   const [editDiscount, setEditDiscount] = useState("");
   const [editRemaining, setEditRemaining] = useState("");
@@ -98,9 +165,11 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
 
   // Jama Entries for Lenden
   const [jamaEntries, setJamaEntries] = useState<JamaEntry[]>([]);
+  const [lendenItems, setLendenItems] = useState<LendenItem[]>([]);
   const [showAddJamaModal, setShowAddJamaModal] = useState(false);
   const [editingJamaIndex, setEditingJamaIndex] = useState<number | null>(null);
   const isEditingJama = editingJamaIndex !== null;
+  const [showPlanModal, setShowPlanModal] = useState(false);
 
   // Rehan Transactions
   const [rehanTransactions, setRehanTransactions] = useState<
@@ -108,6 +177,33 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
   >([]);
   const [showAddRehanTransactionModal, setShowAddRehanTransactionModal] =
     useState(false);
+  const [rehanItems, setRehanItems] = useState<RehanItem[]>([]);
+  const [showReleaseModal, setShowReleaseModal] = useState(false);
+  const heldItems = rehanItems.filter((item) => !item.releasedAt);
+  const [renewalChain, setRenewalChain] = useState<Rehan[]>([]);
+  const [showRenewModal, setShowRenewModal] = useState(false);
+  const [showCloseModal, setShowCloseModal] = useState(false);
+
+  // Collateral value of the pledged items at today's bhav (open Rehan only)
+  const [valuation, setValuation] = useState<CollateralValuation | null>(
+    null,
+  );
+  const [ltvLimit, setLtvLimit] = useState(75);
+  const [isValuing, setIsValuing] = useState(false);
+  const [valuationError, setValuationError] = useState<string | null>(null);
+
+  // Change history (audit log)
+  const [history, setHistory] = useState<AuditLogEntry[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isSharingBill, setIsSharingBill] = useState(false);
+  const [isSharingReceipt, setIsSharingReceipt] = useState(false);
+
+  // GST invoice issued for a Lenden
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [lastInvoice, setLastInvoice] = useState<Invoice | null>(null);
+  const [shopGstin, setShopGstin] = useState("");
+  const [showInvoiceModal, setShowInvoiceModal] = useState(false);
+  const [isSharingInvoice, setIsSharingInvoice] = useState(false);
 
   // Auto-calculate Remaining = Amount - Discount (only for lenden in edit mode)
   useEffect(() => {
@@ -139,6 +235,9 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
       JSON.stringify(mediaPaths) !== JSON.stringify(originalMediaPaths);
     const productNameChanged = editProductName !== originalProductName;
     const amountChanged = editAmount !== originalAmount;
+    const interestChanged =
+      editInterestRate !== originalInterestRate ||
+      editInterestMode !== originalInterestMode;
     const discountChanged = editDiscount !== originalDiscount;
     const remainingChanged = editRemaining !== originalRemaining;
     const jamaChanged = editJama !== originalJama;
@@ -148,6 +247,7 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
       mediaChanged ||
         productNameChanged ||
         amountChanged ||
+        interestChanged ||
         discountChanged ||
         remainingChanged ||
         jamaChanged ||
@@ -160,6 +260,10 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
     originalProductName,
     editAmount,
     originalAmount,
+    editInterestRate,
+    originalInterestRate,
+    editInterestMode,
+    originalInterestMode,
     editDiscount,
     originalDiscount,
     editRemaining,
@@ -170,8 +274,35 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
     originalBaki,
   ]);
 
+  const loadHistory = async () => {
+    const entries = await getAuditLogForTransaction(
+      transactionType,
+      transactionId,
+    );
+    setHistory(entries);
+  };
+
+  const loadValuation = async (items: RehanItem[]) => {
+    setIsValuing(true);
+    setValuationError(null);
+    try {
+      const [rates, settings] = await Promise.all([
+        getLiveBhav(),
+        getSettings(),
+      ]);
+      setLtvLimit(settings.ltvLimitPercent);
+      setValuation(valueCollateral(items, rates));
+    } catch (error) {
+      console.error("Error valuing pledged items:", error);
+      setValuationError("Couldn't fetch today's bhav");
+    } finally {
+      setIsValuing(false);
+    }
+  };
+
   const loadData = async () => {
     try {
+      await loadHistory();
       if (transactionType === "rehan") {
         const rehanData = await getRehanById(transactionId);
         if (rehanData) {
@@ -179,12 +310,37 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
           const paths = JSON.parse(rehanData.media);
           setMediaPaths(paths);
           setOriginalMediaPaths(paths);
+
+          // Initialize Rehan edit fields
+          const productNameValue = rehanData.productName || "";
+          const openingAmount = rehanData.openingAmount ?? rehanData.amount;
+          const amountValue = openingAmount ? openingAmount.toString() : "";
+          const rateValue = rehanData.interestRate
+            ? rehanData.interestRate.toString()
+            : "";
+          const modeValue = rehanData.interestMode || "simple";
+          setEditProductName(productNameValue);
+          setOriginalProductName(productNameValue);
+          setEditAmount(amountValue);
+          setOriginalAmount(amountValue);
+          setEditInterestRate(rateValue);
+          setOriginalInterestRate(rateValue);
+          setEditInterestMode(modeValue);
+          setOriginalInterestMode(modeValue);
+
           const userData = await getUserById(rehanData.userId);
           setUser(userData);
           // Load transactions
           const transactions =
             await getRehanTransactionsByRehanId(transactionId);
           setRehanTransactions(transactions);
+          const items = await getRehanItemsByRehanId(transactionId);
+          setRehanItems(items);
+          const held = items.filter((item) => !item.releasedAt);
+          if (rehanData.status === 0 && held.length > 0) {
+            loadValuation(held);
+          }
+          setRenewalChain(await getRenewalChain(transactionId));
         }
       } else {
         const lendenData = await getLendenById(transactionId);
@@ -221,6 +377,8 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
           // Load jama entries
           const entries = await getJamaEntriesByLendenId(transactionId);
           setJamaEntries(entries);
+          setLendenItems(await getLendenItemsByLendenId(transactionId));
+          setInvoice(await getInvoiceByLendenId(transactionId));
         }
       }
     } catch (error) {
@@ -240,6 +398,14 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
     });
   };
 
+  const formatShortDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-IN", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
   const requestPermissions = async () => {
     const cameraPermission = await ImagePicker.requestCameraPermissionsAsync();
     const mediaPermission =
@@ -337,6 +503,8 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
           finalPaths,
           editProductName.trim() || undefined,
           editAmount ? parseInt(editAmount, 10) : undefined,
+          editInterestRate ? parseFloat(editInterestRate) : undefined,
+          editInterestMode,
         );
       } else {
         await updateLendenDetails(
@@ -354,6 +522,8 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
       setOriginalMediaPaths(finalPaths);
       setOriginalProductName(editProductName);
       setOriginalAmount(editAmount);
+      setOriginalInterestRate(editInterestRate);
+      setOriginalInterestMode(editInterestMode);
 
       // Refresh local data to show updated values in UI immediately
       if (transactionType === "rehan" && rehan) {
@@ -362,6 +532,8 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
           media: JSON.stringify(finalPaths),
           productName: editProductName.trim() || undefined,
           amount: editAmount ? parseInt(editAmount, 10) : undefined,
+          interestRate: editInterestRate ? parseFloat(editInterestRate) : 0,
+          interestMode: editInterestMode,
         });
       } else if (lenden) {
         setLenden({
@@ -381,6 +553,7 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
       }
 
       setIsEditMode(false);
+      await loadHistory();
       Alert.alert("Success", "Changes saved successfully!");
     } catch (error) {
       console.error("Error saving changes:", error);
@@ -390,36 +563,179 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
-  const handleCloseRehan = () => {
-    Alert.alert(
-      "Close Rehan Entry",
-      "Are you sure you want to mark this entry as closed? This action cannot be undone.",
-      [
-        { text: "Cancel", style: "cancel" },
-        {
-          text: "Close Entry",
-          style: "destructive",
-          onPress: async () => {
-            try {
-              await closeRehan(transactionId);
-              // Reload data to reflect changes
-              setIsLoading(true);
-              await loadData();
-              Alert.alert("Success", "Rehan entry has been closed.");
-            } catch (error) {
-              console.error("Error closing Rehan:", error);
-              Alert.alert("Error", "Failed to close entry. Please try again.");
-            }
+  const handleSettleRehan = async (
+    settlement: Omit<NewRehanSettlement, "rehanId">,
+  ) => {
+    try {
+      await settleRehan({ ...settlement, rehanId: transactionId });
+      // Reload data to reflect changes
+      setIsLoading(true);
+      await loadData();
+      Alert.alert("Success", "Rehan entry has been closed.");
+    } catch (error: any) {
+      console.error("Error closing Rehan:", error);
+      Alert.alert("Error", error.message || "Failed to close entry.");
+    }
+  };
+
+  const handleShareBill = async () => {
+    setIsSharingBill(true);
+    try {
+      await shareLendenBill(transactionId);
+    } catch (error: any) {
+      console.error("Error sharing bill:", error);
+      Alert.alert("Error", error.message || "Failed to create bill");
+    } finally {
+      setIsSharingBill(false);
+    }
+  };
+
+  const handleOpenInvoice = async () => {
+    if (!lenden) return;
+    const settings = await getSettings();
+    if (!isValidGstin(settings.shopGstin)) {
+      Alert.alert(
+        "Shop GSTIN Needed",
+        "Add your shop's GSTIN in Shop Details before issuing GST invoices.",
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Shop Details",
+            onPress: () => navigation.navigate("ShopDetails"),
           },
-        },
-      ],
-    );
+        ],
+      );
+      return;
+    }
+    setShopGstin(settings.shopGstin);
+    setLastInvoice(await getLastInvoiceForUser(lenden.userId));
+    setShowInvoiceModal(true);
+  };
+
+  const handleShareInvoice = async () => {
+    setIsSharingInvoice(true);
+    try {
+      await shareGstInvoice(transactionId);
+    } catch (error: any) {
+      console.error("Error sharing invoice:", error);
+      Alert.alert("Error", error.message || "Failed to create invoice");
+    } finally {
+      setIsSharingInvoice(false);
+    }
+  };
+
+  const handleCreateInvoice = async (details: InvoiceDetails) => {
+    if (!lenden || !user) return;
+    try {
+      await createInvoice(
+        buildNewInvoice(lenden, user, lendenItems, details, shopGstin),
+      );
+      setInvoice(await getInvoiceByLendenId(transactionId));
+      await loadHistory();
+      await handleShareInvoice();
+    } catch (error: any) {
+      console.error("Error issuing invoice:", error);
+      Alert.alert("Error", error.message || "Failed to issue invoice");
+    }
+  };
+
+  const handleSavePlan = async (plan: InstallmentPlan | null) => {
+    try {
+      await setLendenInstallmentPlan(transactionId, plan);
+      const lendenData = await getLendenById(transactionId);
+      if (lendenData) setLenden(lendenData);
+      await loadHistory();
+    } catch (error) {
+      Alert.alert("Error", "Failed to save installment plan");
+    }
+  };
+
+  const handleReleaseItems = async (
+    itemIds: number[],
+    amount: number,
+    date: Date,
+    photoUri: string | null,
+  ) => {
+    let media: string[] = [];
+    try {
+      media = photoUri ? await saveImages([photoUri]) : [];
+      await releaseRehanItems({
+        rehanId: transactionId,
+        itemIds,
+        amount,
+        date: date.toISOString(),
+        media,
+      });
+    } catch (error: any) {
+      // Nothing was released, so the photo saved for it goes too
+      await deleteImages(media);
+      Alert.alert("Error", error.message || "Failed to release items");
+      return;
+    }
+    try {
+      const [items, transactions, rehanData] = await Promise.all([
+        getRehanItemsByRehanId(transactionId),
+        getRehanTransactionsByRehanId(transactionId),
+        getRehanById(transactionId),
+      ]);
+      setRehanItems(items);
+      setRehanTransactions(transactions);
+      if (rehanData) setRehan(rehanData);
+      const held = items.filter((item) => !item.releasedAt);
+      if (held.length > 0) {
+        loadValuation(held);
+      } else {
+        setValuation(null);
+      }
+      await loadHistory();
+    } catch (error) {
+      console.error("Error reloading released items:", error);
+    }
+  };
+
+  const handleRenewRehan = async (
+    renewal: Omit<NewRehanRenewal, "rehanId" | "media">,
+    keepPhotos: boolean,
+  ) => {
+    let media: string[] = [];
+    try {
+      // The new Rehan gets its own copies so purging one keeps the other's
+      media = keepPhotos ? await saveImages(mediaPaths) : [];
+      const newRehanId = await renewRehan({
+        ...renewal,
+        rehanId: transactionId,
+        media,
+      });
+      navigation.replace("TransactionDetail", {
+        transactionId: newRehanId,
+        transactionType: "rehan",
+      });
+    } catch (error: any) {
+      console.error("Error renewing Rehan:", error);
+      // No new Rehan was opened, so drop the copies made for it
+      await deleteImages(media);
+      Alert.alert("Error", error.message || "Failed to renew Rehan");
+    }
+  };
+
+  const handleShareReceipt = async () => {
+    setIsSharingReceipt(true);
+    try {
+      await shareRehanReceipt(transactionId);
+    } catch (error: any) {
+      console.error("Error sharing receipt:", error);
+      Alert.alert("Error", error.message || "Failed to create receipt");
+    } finally {
+      setIsSharingReceipt(false);
+    }
   };
 
   const cancelEdit = () => {
     setMediaPaths(originalMediaPaths);
     setEditProductName(originalProductName);
     setEditAmount(originalAmount);
+    setEditInterestRate(originalInterestRate);
+    setEditInterestMode(originalInterestMode);
     setEditDiscount(originalDiscount);
     setEditRemaining(originalRemaining);
     setEditJama(originalJama);
@@ -427,6 +743,24 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
     setIsEditMode(false);
   };
 
+  // A Rehan shows the loan it opened with, next to its open date; what is
+  // still owed is in the interest summary
+  const displayAmount =
+    transactionType === "rehan"
+      ? rehan && getOpeningPrincipal(rehan, rehanTransactions)
+      : lenden?.amount;
+
+  // Principal and interest on the closing date, or today while still open
+  const rehanSummary = rehan
+    ? calculateRehanInterest(
+        rehan,
+        rehanTransactions,
+        rehan.status === 1 && rehan.closedDate
+          ? new Date(rehan.closedDate)
+          : new Date(),
+      )
+    : null;
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -546,20 +880,16 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
                     setEditAmount(text.replace(/[^0-9]/g, ""))
                   }
                   keyboardType="numeric"
+                  // An itemised bill's amount comes from its lines
+                  editable={lendenItems.length === 0}
                 />
               </View>
-            ) : (
-                transactionType === "rehan" ? rehan?.amount : lenden?.amount
-              ) ? (
+            ) : displayAmount ? (
               <View style={styles.amountDateRow}>
                 <View style={styles.amountHighlight}>
                   <Ionicons name="cash" size={22} color="#2E7D32" />
                   <Text style={styles.amountValue}>
-                    ₹
-                    {(transactionType === "rehan"
-                      ? rehan?.amount
-                      : lenden?.amount
-                    )?.toLocaleString()}
+                    ₹{displayAmount.toLocaleString()}
                   </Text>
                 </View>
                 <View style={styles.dateBadge}>
@@ -579,6 +909,44 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
               </View>
             ) : null}
 
+            {/* Rehan interest terms */}
+            {isEditMode && transactionType === "rehan" ? (
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>Interest (% per month)</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="0"
+                  value={editInterestRate}
+                  onChangeText={(text) =>
+                    setEditInterestRate(text.replace(/[^0-9.]/g, ""))
+                  }
+                  keyboardType="decimal-pad"
+                />
+                <View style={styles.modeSelector}>
+                  {(["simple", "compound"] as InterestMode[]).map((mode) => (
+                    <TouchableOpacity
+                      key={mode}
+                      style={[
+                        styles.modeChip,
+                        editInterestMode === mode && styles.modeChipActive,
+                      ]}
+                      onPress={() => setEditInterestMode(mode)}
+                    >
+                      <Text
+                        style={[
+                          styles.modeChipText,
+                          editInterestMode === mode &&
+                            styles.modeChipTextActive,
+                        ]}
+                      >
+                        {mode === "simple" ? "Simple" : "Monthly Compound"}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            ) : null}
+
             {/* Lenden-specific fields: Discount */}
             {isEditMode && transactionType === "lenden" ? (
               <View style={styles.inputContainer}>
@@ -704,7 +1072,7 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
             {/* Fallback if no details and not in edit mode */}
             {!isEditMode &&
               !(transactionType === "rehan" && rehan?.productName) &&
-              !(transactionType === "rehan" ? rehan?.amount : lenden?.amount) &&
+              !displayAmount &&
               !(
                 transactionType === "lenden" &&
                 (lenden?.discount ||
@@ -724,15 +1092,36 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
               <Text style={styles.sectionTitle}>Payment Summary</Text>
-              {lenden.status === 1 && (
-                <View style={styles.closedBadge}>
-                  <Text style={styles.closedBadgeText}>CLOSED</Text>
-                </View>
-              )}
+              <View style={styles.sectionActions}>
+                {lenden.status === 1 && (
+                  <View style={styles.closedBadge}>
+                    <Text style={styles.closedBadgeText}>CLOSED</Text>
+                  </View>
+                )}
+                {!isEditMode && (
+                  <TouchableOpacity
+                    style={styles.addTransactionButton}
+                    onPress={handleShareBill}
+                    disabled={isSharingBill}
+                  >
+                    {isSharingBill ? (
+                      <ActivityIndicator size="small" color="#007AFF" />
+                    ) : (
+                      <Ionicons
+                        name="share-outline"
+                        size={16}
+                        color="#007AFF"
+                      />
+                    )}
+                    <Text style={styles.addTransactionText}>Share Bill</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
             </View>
             <BillTable
               amount={lenden.amount || 0}
               discount={lenden.discount || 0}
+              items={lendenItems}
               jamaEntries={jamaEntries}
               editable={!isEditMode}
               onAddJama={() => setShowAddJamaModal(true)}
@@ -745,12 +1134,12 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
                 if (entry?.id) {
                   try {
                     await deleteJamaEntry(entry.id);
-                    await updateLendenBaki(transactionId);
                     const entries =
                       await getJamaEntriesByLendenId(transactionId);
                     setJamaEntries(entries);
                     const lendenData = await getLendenById(transactionId);
                     if (lendenData) setLenden(lendenData);
+                    await loadHistory();
                   } catch (error) {
                     Alert.alert("Error", "Failed to delete jama entry");
                   }
@@ -760,21 +1149,201 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
           </View>
         )}
 
-        {/* Rehan Transactions Table */}
+        {/* GST Invoice for Lenden */}
+        {transactionType === "lenden" && lenden && (lenden.amount || 0) > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>GST Invoice</Text>
+              {!isEditMode && (
+                <TouchableOpacity
+                  style={styles.addTransactionButton}
+                  onPress={invoice ? handleShareInvoice : handleOpenInvoice}
+                  disabled={isSharingInvoice}
+                >
+                  {isSharingInvoice ? (
+                    <ActivityIndicator size="small" color="#007AFF" />
+                  ) : (
+                    <Ionicons
+                      name={invoice ? "share-outline" : "receipt-outline"}
+                      size={16}
+                      color="#007AFF"
+                    />
+                  )}
+                  <Text style={styles.addTransactionText}>
+                    {invoice ? "Share Invoice" : "Issue Invoice"}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {invoice ? (
+              [
+                { label: "Invoice No.", value: formatInvoiceNumber(invoice) },
+                { label: "Date", value: formatDate(invoice.date) },
+                {
+                  label: "Taxable Value",
+                  value: `₹${invoice.taxableValue.toLocaleString("en-IN")}`,
+                },
+                {
+                  label: invoice.isInterState
+                    ? `IGST @ ${GST_RATE_PERCENT}%`
+                    : `CGST + SGST @ ${GST_RATE_PERCENT}%`,
+                  value: `₹${(
+                    invoice.cgst +
+                    invoice.sgst +
+                    invoice.igst
+                  ).toLocaleString("en-IN")}`,
+                },
+                {
+                  label: "Invoice Total",
+                  value: `₹${invoice.total.toLocaleString("en-IN")}`,
+                },
+                ...(invoice.customerGstin
+                  ? [{ label: "Customer GSTIN", value: invoice.customerGstin }]
+                  : []),
+              ].map((row) => (
+                <View key={row.label} style={styles.settlementRow}>
+                  <Text style={styles.settlementLabel}>{row.label}</Text>
+                  <Text style={styles.settlementValue}>{row.value}</Text>
+                </View>
+              ))
+            ) : (
+              <Text style={styles.noDetailsText}>No GST invoice issued</Text>
+            )}
+          </View>
+        )}
+
+        {/* Installment Plan for Lenden */}
+        {transactionType === "lenden" && lenden && (lenden.amount || 0) > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Installment Plan</Text>
+              {!isEditMode && lenden.status === 0 && (
+                <TouchableOpacity
+                  style={styles.addTransactionButton}
+                  onPress={() => setShowPlanModal(true)}
+                >
+                  <Ionicons
+                    name={lenden.installmentCount ? "create-outline" : "add"}
+                    size={16}
+                    color="#007AFF"
+                  />
+                  <Text style={styles.addTransactionText}>
+                    {lenden.installmentCount ? "Edit Plan" : "Set Plan"}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {lenden.installmentCount ? (
+              <>
+                <Text style={styles.planSummaryText}>
+                  {lenden.installmentCount} ×{" "}
+                  {lenden.installmentFrequency
+                    ? INSTALLMENT_FREQUENCY_LABELS[lenden.installmentFrequency]
+                    : ""}{" "}
+                  from{" "}
+                  {lenden.firstDueDate
+                    ? formatDate(lenden.firstDueDate)
+                    : "—"}
+                </Text>
+                <InstallmentScheduleTable
+                  installments={buildInstallmentSchedule(lenden, jamaEntries)}
+                />
+              </>
+            ) : (
+              <Text style={styles.noDetailsText}>No installment plan</Text>
+            )}
+          </View>
+        )}
+
+        {/* Pledged Items */}
         {transactionType === "rehan" && rehan && (
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
-              <Text style={styles.sectionTitle}>Transaction History</Text>
-              {rehan.status === 0 && (
+              <Text style={styles.sectionTitle}>Pledged Items</Text>
+              {!isEditMode && rehan.status === 0 && heldItems.length > 0 && (
                 <TouchableOpacity
                   style={styles.addTransactionButton}
-                  onPress={() => setShowAddRehanTransactionModal(true)}
+                  onPress={() => setShowReleaseModal(true)}
                 >
-                  <Ionicons name="add-circle" size={16} color="#007AFF" />
-                  <Text style={styles.addTransactionText}>Add Transaction</Text>
+                  <Ionicons name="exit-outline" size={16} color="#007AFF" />
+                  <Text style={styles.addTransactionText}>Release</Text>
                 </TouchableOpacity>
               )}
             </View>
+            <RehanItemsTable items={rehanItems} />
+            {rehan.status === 0 && rehanItems.length > 0 && (
+              <View style={styles.holdingRow}>
+                <View style={styles.holdingItem}>
+                  <Text style={styles.infoLabel}>Items Held</Text>
+                  <Text style={styles.holdingValue}>
+                    {heldItems.length} of {rehanItems.length}
+                  </Text>
+                </View>
+                <View style={styles.holdingItem}>
+                  <Text style={styles.infoLabel}>Remaining Principal</Text>
+                  <Text style={styles.holdingValue}>
+                    ₹{(rehanSummary?.principal || 0).toLocaleString()}
+                  </Text>
+                </View>
+              </View>
+            )}
+            {rehan.status === 0 && heldItems.length > 0 && (
+              <RehanLtvSummary
+                loanAmount={rehanSummary?.total || 0}
+                valuation={valuation}
+                limitPercent={ltvLimit}
+                isLoading={isValuing}
+                error={valuationError}
+                onRetry={() => loadValuation(heldItems)}
+              />
+            )}
+          </View>
+        )}
+
+        {/* Rehan Transactions Table */}
+        {transactionType === "rehan" && rehan && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Transaction History</Text>
+              <View style={styles.sectionActions}>
+                {!isEditMode && (
+                  <TouchableOpacity
+                    style={styles.addTransactionButton}
+                    onPress={handleShareReceipt}
+                    disabled={isSharingReceipt}
+                  >
+                    {isSharingReceipt ? (
+                      <ActivityIndicator size="small" color="#007AFF" />
+                    ) : (
+                      <Ionicons
+                        name="print-outline"
+                        size={16}
+                        color="#007AFF"
+                      />
+                    )}
+                    <Text style={styles.addTransactionText}>Receipt</Text>
+                  </TouchableOpacity>
+                )}
+                {rehan.status === 0 && (
+                  <TouchableOpacity
+                    style={styles.addTransactionButton}
+                    onPress={() => setShowAddRehanTransactionModal(true)}
+                  >
+                    <Ionicons name="add-circle" size={16} color="#007AFF" />
+                    <Text style={styles.addTransactionText}>
+                      Add Transaction
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+            {rehanSummary && (
+              <RehanInterestSummary
+                summary={rehanSummary}
+                interestRate={rehan.interestRate || 0}
+                interestMode={rehan.interestMode || "simple"}
+              />
+            )}
             <RehanTransactionTable
               transactions={rehanTransactions}
               onDeleteTransaction={async (id) => {
@@ -788,7 +1357,9 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
                       style: "destructive",
                       onPress: async () => {
                         try {
-                          await deleteRehanTransaction(id);
+                          const releaseMedia =
+                            await deleteRehanTransaction(id);
+                          await deleteImages(releaseMedia);
                           // Refresh data
                           const updated =
                             await getRehanTransactionsByRehanId(transactionId);
@@ -796,6 +1367,7 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
                           // Refresh balance
                           const rehanData = await getRehanById(transactionId);
                           if (rehanData) setRehan(rehanData);
+                          await loadHistory();
                         } catch (error) {
                           Alert.alert("Error", "Failed to delete transaction");
                         }
@@ -808,10 +1380,137 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
           </View>
         )}
 
+        {/* Renewal Chain */}
+        {transactionType === "rehan" && rehan && renewalChain.length > 1 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Renewal Chain</Text>
+            <View style={styles.infoCard}>
+              {renewalChain.map((link, index) => {
+                const isCurrent = link.id === transactionId;
+                return (
+                  <TouchableOpacity
+                    key={link.id}
+                    style={[
+                      styles.chainRow,
+                      isCurrent && styles.chainRowCurrent,
+                    ]}
+                    onPress={() =>
+                      navigation.push("TransactionDetail", {
+                        transactionId: link.id,
+                        transactionType: "rehan",
+                      })
+                    }
+                    disabled={isCurrent}
+                  >
+                    <View style={styles.chainIndex}>
+                      <Text style={styles.chainIndexText}>{index + 1}</Text>
+                    </View>
+                    <View style={styles.infoContent}>
+                      <Text style={styles.chainTitle}>
+                        {formatShortDate(link.openDate)}
+                        {link.closedDate
+                          ? ` – ${formatShortDate(link.closedDate)}`
+                          : " – Open"}
+                      </Text>
+                      <Text style={styles.infoLabel}>
+                        {isCurrent ? "This Rehan" : "Tap to view"}
+                      </Text>
+                    </View>
+                    <Text style={styles.chainAmount}>
+                      {link.status === 0
+                        ? `₹${(link.amount || 0).toLocaleString()}`
+                        : link.settlementCarriedForward != null
+                          ? `₹${link.settlementCarriedForward.toLocaleString()} carried`
+                          : "Closed"}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {/* Settlement - recorded when the Rehan was closed or renewed */}
+        {transactionType === "rehan" &&
+          rehan &&
+          rehan.settlementPrincipal != null && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Settlement</Text>
+              <View style={styles.infoCard}>
+                {[
+                  { label: "Principal", value: rehan.settlementPrincipal },
+                  { label: "Interest", value: rehan.settlementInterest },
+                  { label: "Paid", value: rehan.settlementPaid },
+                  { label: "Waived", value: rehan.settlementWaived },
+                  {
+                    label: "Carried Forward",
+                    value: rehan.settlementCarriedForward,
+                  },
+                ]
+                  .filter((row) => row.value != null)
+                  .map((row) => (
+                    <View key={row.label} style={styles.settlementRow}>
+                      <Text style={styles.settlementLabel}>{row.label}</Text>
+                      <Text style={styles.settlementValue}>
+                        ₹{(row.value || 0).toLocaleString()}
+                      </Text>
+                    </View>
+                  ))}
+                {rehan.settlementNote && (
+                  <Text style={styles.settlementNote}>
+                    {rehan.settlementNote}
+                  </Text>
+                )}
+              </View>
+            </View>
+          )}
+
+        {/* Close Rehan Modal */}
+        {rehan && (
+          <CloseRehanModal
+            visible={showCloseModal}
+            rehan={rehan}
+            transactions={rehanTransactions}
+            heldItemCount={heldItems.length}
+            onClose={() => setShowCloseModal(false)}
+            onSettle={handleSettleRehan}
+          />
+        )}
+
+        {/* Renew Rehan Modal */}
+        {rehan && (
+          <RenewRehanModal
+            visible={showRenewModal}
+            rehan={rehan}
+            transactions={rehanTransactions}
+            items={heldItems}
+            onClose={() => setShowRenewModal(false)}
+            onRenew={handleRenewRehan}
+          />
+        )}
+
+        {/* Release Items Modal */}
+        <ReleaseItemsModal
+          visible={showReleaseModal}
+          items={heldItems}
+          principal={rehanSummary?.principal || 0}
+          onClose={() => setShowReleaseModal(false)}
+          onRelease={handleReleaseItems}
+        />
+
         {/* Add Rehan Transaction Modal */}
         <AddRehanTransactionModal
           visible={showAddRehanTransactionModal}
           onClose={() => setShowAddRehanTransactionModal(false)}
+          ltvCheck={
+            rehan && valuation && valuation.value > 0
+              ? {
+                  loanAmount: rehanSummary?.total || 0,
+                  collateralValue: valuation.value,
+                  limitPercent: ltvLimit,
+                }
+              : null
+          }
           onAdd={async (amount, type, date) => {
             try {
               await createRehanTransaction({
@@ -827,12 +1526,45 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
               // Refresh balance
               const rehanData = await getRehanById(transactionId);
               if (rehanData) setRehan(rehanData);
+              await loadHistory();
             } catch (error) {
               Alert.alert("Error", "Failed to add transaction");
             }
           }}
         />
 
+        {/* Installment Plan Modal */}
+        {lenden && (
+          <InstallmentPlanModal
+            visible={showPlanModal}
+            plan={getInstallmentPlan(lenden)}
+            totalAmount={
+              lenden.remaining ??
+              (lenden.amount || 0) - (lenden.discount || 0)
+            }
+            onClose={() => setShowPlanModal(false)}
+            onSave={handleSavePlan}
+            onRemove={() => handleSavePlan(null)}
+          />
+        )}
+
+        {/* GST Invoice Modal */}
+        {lenden && (
+          <GstInvoiceModal
+            visible={showInvoiceModal}
+            billAmount={Math.max(
+              (lenden.amount || 0) - (lenden.discount || 0),
+              0,
+            )}
+            billDate={lenden.date}
+            shopGstin={shopGstin}
+            lastGstin={lastInvoice?.customerGstin}
+            lastPan={lastInvoice?.customerPan}
+            onClose={() => setShowInvoiceModal(false)}
+            onCreate={handleCreateInvoice}
+          />
+        )}
+
         {/* Add/Edit Jama Modal */}
         <AddJamaModal
           visible={showAddJamaModal}
@@ -863,13 +1595,13 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
                   date: date.toISOString(),
                 });
               }
-              await updateLendenBaki(transactionId);
               // Reload data
               const entries = await getJamaEntriesByLendenId(transactionId);
               setJamaEntries(entries);
               const lendenData = await getLendenById(transactionId);
               if (lendenData) setLenden(lendenData);
               setEditingJamaIndex(null);
+              await loadHistory();
             } catch (error) {
               Alert.alert(
                 "Error",
@@ -1024,11 +1756,41 @@ const TransactionDetailScreen: React.FC<Props> = ({ navigation, route }) => {
           </View>
         </View>
 
-        {/* Close Rehan Button - only for open Rehan entries */}
+        {/* History Section (audit log) */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>History ({history.length})</Text>
+            <TouchableOpacity
+              style={styles.editButton}
+              onPress={() => setShowHistory(!showHistory)}
+            >
+              <Ionicons
+                name={showHistory ? "chevron-up" : "time-outline"}
+                size={16}
+                color="#007AFF"
+              />
+              <Text style={styles.editButtonText}>
+                {showHistory ? "Hide" : "Show"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+          {showHistory && <AuditHistoryList entries={history} />}
+        </View>
+
+        {/* Renew / Close Rehan Buttons - only for open Rehan entries */}
+        {transactionType === "rehan" && rehan?.status === 0 && !isEditMode && (
+          <TouchableOpacity
+            style={styles.renewRehanButton}
+            onPress={() => setShowRenewModal(true)}
+          >
+            <Ionicons name="refresh" size={20} color="#007AFF" />
+            <Text style={styles.renewRehanButtonText}>Renew Rehan</Text>
+          </TouchableOpacity>
+        )}
         {transactionType === "rehan" && rehan?.status === 0 && !isEditMode && (
           <TouchableOpacity
             style={styles.closeRehanButton}
-            onPress={handleCloseRehan}
+            onPress={() => setShowCloseModal(true)}
           >
             <Ionicons name="checkmark-circle" size={20} color="#fff" />
             <Text style={styles.closeRehanButtonText}>Mark as Closed</Text>
@@ -1284,6 +2046,11 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     color: "#1A1A1A",
   },
+  sectionActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
   addTransactionButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -1444,6 +2211,23 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "600",
   },
+  renewRehanButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#007AFF",
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 10,
+  },
+  renewRehanButtonText: {
+    color: "#007AFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
   saveContainer: {
     position: "absolute",
     bottom: 0,
@@ -1524,6 +2308,84 @@ const styles = StyleSheet.create({
     fontStyle: "italic",
     padding: 10,
   },
+  holdingRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 12,
+  },
+  holdingItem: {
+    flex: 1,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+    padding: 12,
+  },
+  holdingValue: {
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  chainRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  chainRowCurrent: {
+    backgroundColor: "#F0F7FF",
+  },
+  chainIndex: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: "#E3F2FD",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  chainIndexText: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#007AFF",
+  },
+  chainTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  chainAmount: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  settlementLabel: {
+    fontSize: 14,
+    color: "#666",
+  },
+  settlementRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 6,
+  },
+  settlementValue: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  settlementNote: {
+    fontSize: 13,
+    color: "#666",
+    fontStyle: "italic",
+    marginTop: 6,
+  },
+  planSummaryText: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 12,
+  },
   inputContainer: {
     padding: 12,
     borderBottomWidth: 1,
@@ -1545,6 +2407,28 @@ const styles = StyleSheet.create({
     borderBottomColor: "#007AFF",
     paddingBottom: 4,
   },
+  modeSelector: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+  },
+  modeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: "#F0F2F5",
+  },
+  modeChipActive: {
+    backgroundColor: "#007AFF",
+  },
+  modeChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+  },
+  modeChipTextActive: {
+    color: "#fff",
+  },
   autoCalcLabel: {
     color: "#999",
     fontWeight: "400",
@@ -20,9 +20,14 @@ import {
   getUserById,
   deleteRehan,
   deleteLenden,
+  getRemindersByUserId,
+  getCustomerRecords,
   Transaction,
 } from "../database/entryDatabase";
-import { User } from "../types/entry";
+import { Reminder, User } from "../types/entry";
+import ReminderModal from "../components/ReminderModal";
+import { REMINDER_CHANNEL_LABELS } from "../services/ReminderService";
+import { calculateRehanInterest } from "../services/InterestService";
 
 type UserTransactionsScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -45,6 +50,9 @@ const UserTransactionsScreen: React.FC<Props> = ({ navigation, route }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [lastReminder, setLastReminder] = useState<Reminder | null>(null);
+  const [totalOpenRehanAmount, setTotalOpenRehanAmount] = useState(0);
+  const [showReminderModal, setShowReminderModal] = useState(false);
 
   // Filter state
   const [typeFilter, setTypeFilter] = useState<"all" | "rehan" | "lenden">(
@@ -60,6 +68,27 @@ const UserTransactionsScreen: React.FC<Props> = ({ navigation, route }) => {
       setUser(userData);
       const data = await getTransactionsByUserId(userId);
       setTransactions(data);
+      const reminders = await getRemindersByUserId(userId);
+      setLastReminder(reminders[0] || null);
+      // Jamas pay interest first, so work out what open Rehan still owe
+      const records = await getCustomerRecords(userId);
+      setTotalOpenRehanAmount(
+        records
+          ? records.rehan
+              .filter((rehan) => rehan.status === 0)
+              .reduce(
+                (sum, rehan) =>
+                  sum +
+                  calculateRehanInterest(
+                    rehan,
+                    records.rehanTransactions.filter(
+                      (t) => t.rehanId === rehan.id,
+                    ),
+                  ).total,
+                0,
+              )
+          : 0,
+      );
     } catch (error) {
       console.error("Error loading transactions:", error);
     } finally {
@@ -107,7 +136,7 @@ const UserTransactionsScreen: React.FC<Props> = ({ navigation, route }) => {
   const handleDeleteTransaction = (transaction: Transaction) => {
     Alert.alert(
       "Delete Transaction",
-      "Are you sure you want to delete this transaction? This action cannot be undone.",
+      "Are you sure you want to delete this transaction? You can restore it from the Recycle Bin.",
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -345,10 +374,6 @@ const UserTransactionsScreen: React.FC<Props> = ({ navigation, route }) => {
     .filter((t) => t.type === "lenden" && t.baki)
     .reduce((sum, t) => sum + (t.baki || 0), 0);
 
-  const totalOpenRehanAmount = transactions
-    .filter((t) => t.type === "rehan" && t.status === 0 && t.amount)
-    .reduce((sum, t) => sum + (t.amount || 0), 0);
-
   return (
     <SafeAreaView style={styles.container} edges={["bottom"]}>
       {/* Summary Header */}
@@ -409,6 +434,38 @@ const UserTransactionsScreen: React.FC<Props> = ({ navigation, route }) => {
             </View>
           </View>
         </View>
+
+        {/* Actions */}
+        <View style={styles.actionsRow}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() =>
+              navigation.navigate("CustomerStatement", { userId, userName })
+            }
+          >
+            <Ionicons name="document-text-outline" size={16} color="#007AFF" />
+            <Text style={styles.actionButtonText}>Statement</Text>
+          </TouchableOpacity>
+          {totalBaki + totalOpenRehanAmount > 0 && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => setShowReminderModal(true)}
+            >
+              <Ionicons
+                name="chatbubble-ellipses-outline"
+                size={16}
+                color="#007AFF"
+              />
+              <Text style={styles.actionButtonText}>Send Reminder</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {lastReminder && (
+          <Text style={styles.lastReminderText}>
+            Last reminded on {formatDate(lastReminder.sentAt)} via{" "}
+            {REMINDER_CHANNEL_LABELS[lastReminder.channel]}
+          </Text>
+        )}
       </View>
 
       {/* Filter Section */}
@@ -549,6 +606,17 @@ const UserTransactionsScreen: React.FC<Props> = ({ navigation, route }) => {
       >
         <Ionicons name="add" size={28} color="#fff" />
       </TouchableOpacity>
+
+      {user && (
+        <ReminderModal
+          visible={showReminderModal}
+          user={user}
+          lendenBaki={totalBaki}
+          rehanAmount={totalOpenRehanAmount}
+          onClose={() => setShowReminderModal(false)}
+          onSent={loadTransactions}
+        />
+      )}
     </SafeAreaView>
   );
 };
@@ -582,6 +650,30 @@ const styles = StyleSheet.create({
     color: "#1A1A1A",
     marginBottom: 4,
   },
+  actionsRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: "#F0F7FF",
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#007AFF",
+  },
+  lastReminderText: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 8,
+  },
   addressRow: {
     flexDirection: "row",
     alignItems: "center",
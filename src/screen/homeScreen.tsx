@@ -10,11 +10,28 @@ import {
   RefreshControl,
 } from "react-native";
 import { StatusBar } from "expo-status-bar";
+import { useFocusEffect } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { Ionicons } from "@expo/vector-icons";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { RootStackParamList } from "../types/entry";
+import { DashboardTile, RootStackParamList } from "../types/entry";
 import { exportData } from "../services/ExportService";
+import {
+  LocalBackup,
+  getLastBackup,
+  isBackupStale,
+  subscribeToBackups,
+} from "../services/BackupService";
+import { getSettings } from "../storage/settingsStorage";
+import { DashboardStats, loadDashboard } from "../services/DashboardService";
+import {
+  DueInstallment,
+  INSTALLMENT_STATUS_LABELS,
+  getDueInstallments,
+} from "../services/InstallmentService";
+import { getInstallmentRecords } from "../database/entryDatabase";
+import BackupStatusBanner from "../components/BackupStatusBanner";
+import BackupPasswordModal from "../components/BackupPasswordModal";
 
 type HomeScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -27,6 +44,52 @@ interface Props {
 
 const HomeScreen: React.FC<Props> = ({ navigation }) => {
   const [isExporting, setIsExporting] = React.useState(false);
+  const [showPasswordModal, setShowPasswordModal] = React.useState(false);
+  const [lastBackup, setLastBackup] = React.useState<LocalBackup | null>(null);
+  const [isStale, setIsStale] = React.useState(false);
+  const [stats, setStats] = React.useState<DashboardStats | null>(null);
+  const [dueInstallments, setDueInstallments] = React.useState<
+    DueInstallment[]
+  >([]);
+
+  const loadBackupStatus = React.useCallback(async () => {
+    try {
+      const [backup, settings] = await Promise.all([
+        getLastBackup(),
+        getSettings(),
+      ]);
+      setLastBackup(backup);
+      setIsStale(isBackupStale(backup, settings.backupStaleDays));
+    } catch (error) {
+      console.error("Error loading backup status:", error);
+    }
+  }, []);
+
+  const loadStats = React.useCallback(async () => {
+    try {
+      const [dashboard, installmentRecords] = await Promise.all([
+        loadDashboard(),
+        getInstallmentRecords(),
+      ]);
+      setStats(dashboard.stats);
+      setDueInstallments(getDueInstallments(installmentRecords));
+    } catch (error) {
+      console.error("Error loading dashboard:", error);
+    }
+  }, []);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadBackupStatus();
+      loadStats();
+    }, [loadBackupStatus, loadStats]),
+  );
+
+  // Refresh when the scheduled backup finishes in the background
+  React.useEffect(
+    () => subscribeToBackups(loadBackupStatus),
+    [loadBackupStatus],
+  );
 
   const handleExistingPress = () => {
     navigation.navigate("ExistingCustomers");
@@ -36,10 +99,11 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
     navigation.navigate("NewCustomer");
   };
 
-  const handleExport = async () => {
+  const handleExport = async (password?: string) => {
+    setShowPasswordModal(false);
     try {
       setIsExporting(true);
-      await exportData();
+      await exportData(password);
     } catch (error) {
       console.error("Export failed:", error);
       alert("Export failed. Please try again.");
@@ -48,6 +112,77 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
     }
   };
 
+  const formatAmount = (amount?: number) =>
+    stats ? `₹${(amount || 0).toLocaleString()}` : "—";
+
+  const renderTile = (
+    tile: DashboardTile,
+    label: string,
+    value: string,
+    icon: keyof typeof Ionicons.glyphMap,
+    color: string,
+    hint?: string,
+  ) => (
+    <TouchableOpacity
+      key={tile}
+      style={styles.statTile}
+      onPress={() => navigation.navigate("DashboardList", { tile })}
+      activeOpacity={0.8}
+    >
+      <View style={styles.statHeader}>
+        <Ionicons name={icon} size={16} color={color} />
+        <Text style={styles.statLabel} numberOfLines={1}>
+          {label}
+        </Text>
+      </View>
+      <Text style={[styles.statValue, { color }]} numberOfLines={1}>
+        {value}
+      </Text>
+      {hint && (
+        <Text style={styles.statHint} numberOfLines={1}>
+          {hint}
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+
+  const renderDueInstallment = ({ lenden, installment }: DueInstallment) => (
+    <TouchableOpacity
+      key={`${lenden.id}-${installment.number}`}
+      style={styles.dueRow}
+      onPress={() =>
+        navigation.navigate("TransactionDetail", {
+          transactionId: lenden.id,
+          transactionType: "lenden",
+        })
+      }
+      activeOpacity={0.7}
+    >
+      <View style={styles.dueInfo}>
+        <Text style={styles.dueName} numberOfLines={1}>
+          {lenden.userName}
+        </Text>
+        <Text style={styles.dueMeta}>
+          Installment {installment.number} ·{" "}
+          {new Date(installment.dueDate).toLocaleDateString("en-IN", {
+            day: "2-digit",
+            month: "short",
+          })}
+        </Text>
+      </View>
+      <View style={styles.dueAmounts}>
+        <Text style={styles.dueAmount}>
+          ₹{(installment.amount - installment.paid).toLocaleString()}
+        </Text>
+        {installment.status === "missed" && (
+          <Text style={styles.dueMissed}>
+            {INSTALLMENT_STATUS_LABELS.missed}
+          </Text>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+
   // Get current date and day
   const today = new Date();
   const options: Intl.DateTimeFormatOptions = {
@@ -70,20 +205,115 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
             <Text style={styles.greeting}>Welcome back,</Text>
             <Text style={styles.userName}>Ayush</Text>
           </View>
-          <TouchableOpacity
-            style={styles.exportButton}
-            onPress={handleExport}
-            disabled={isExporting}
-          >
-            {isExporting ? (
-              <Ionicons name="cloud-upload" size={24} color="#999" />
-            ) : (
-              <Ionicons name="cloud-upload-outline" size={24} color="#007AFF" />
-            )}
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.exportButton}
+              onPress={() => navigation.navigate("ShopDetails")}
+            >
+              <Ionicons name="storefront-outline" size={24} color="#007AFF" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.exportButton}
+              onPress={() => navigation.navigate("Import")}
+            >
+              <Ionicons
+                name="cloud-download-outline"
+                size={24}
+                color="#007AFF"
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.exportButton}
+              onPress={() => setShowPasswordModal(true)}
+              disabled={isExporting}
+            >
+              {isExporting ? (
+                <Ionicons name="cloud-upload" size={24} color="#999" />
+              ) : (
+                <Ionicons
+                  name="cloud-upload-outline"
+                  size={24}
+                  color="#007AFF"
+                />
+              )}
+            </TouchableOpacity>
+          </View>
         </View>
 
         <View style={styles.contentSection}>
+          <View style={styles.backupBanner}>
+            <BackupStatusBanner
+              backup={lastBackup}
+              isStale={isStale}
+              onPress={() => navigation.navigate("Backups")}
+            />
+          </View>
+
+          <Text style={styles.helpText}>Business at a glance</Text>
+          <View style={styles.statsGrid}>
+            {renderTile(
+              "lendenBaki",
+              "Lenden Baki",
+              formatAmount(stats?.lendenBaki),
+              "wallet-outline",
+              "#C62828",
+            )}
+            {renderTile(
+              "rehanPrincipal",
+              "Rehan Out",
+              formatAmount(stats?.rehanPrincipal),
+              "diamond-outline",
+              "#B8860B",
+            )}
+            {renderTile(
+              "openLenden",
+              "Open Lenden",
+              stats ? String(stats.openLendenCount) : "—",
+              "receipt-outline",
+              "#007AFF",
+            )}
+            {renderTile(
+              "openRehan",
+              "Open Rehan",
+              stats ? String(stats.openRehanCount) : "—",
+              "lock-closed-outline",
+              "#8B5CF6",
+            )}
+            {renderTile(
+              "collectedToday",
+              "Collected Today",
+              formatAmount(stats?.collectedToday),
+              "cash-outline",
+              "#2E7D32",
+            )}
+            {renderTile(
+              "collectedThisMonth",
+              "Collected This Month",
+              formatAmount(stats?.collectedThisMonth),
+              "calendar-outline",
+              "#2E7D32",
+            )}
+            {renderTile(
+              "newLoansThisMonth",
+              "New Loans This Month",
+              formatAmount(stats?.newLoanAmountThisMonth),
+              "trending-up-outline",
+              "#E65100",
+              stats
+                ? `${stats.newLoansThisMonth} rehan & lenden entries`
+                : undefined,
+            )}
+          </View>
+
+          <Text style={styles.helpText}>Due this week</Text>
+          <View style={styles.dueList}>
+            {dueInstallments.length === 0 ? (
+              <Text style={styles.dueEmpty}>No installments due this week</Text>
+            ) : (
+              dueInstallments.map(renderDueInstallment)
+            )}
+          </View>
+
           <Text style={styles.helpText}>What would you like to do?</Text>
 
           <View style={styles.cardsContainer}>
@@ -183,9 +413,125 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
               </View>
               <Ionicons name="chevron-forward" size={24} color="#10B981" />
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.card, styles.cardAudit]}
+              onPress={() => navigation.navigate("AuditLog")}
+              activeOpacity={0.9}
+            >
+              <View
+                style={[styles.cardIconContainer, styles.iconContainerAudit]}
+              >
+                <Ionicons name="time-outline" size={32} color="#F97316" />
+              </View>
+              <View style={styles.cardContent}>
+                <Text style={[styles.cardTitle, styles.textDark]}>
+                  Audit Log
+                </Text>
+                <Text style={[styles.cardSubtitle, styles.textDarkDim]}>
+                  Every change to the ledger
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={24} color="#F97316" />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.card, styles.cardRecycleBin]}
+              onPress={() => navigation.navigate("RecycleBin")}
+              activeOpacity={0.9}
+            >
+              <View
+                style={[
+                  styles.cardIconContainer,
+                  styles.iconContainerRecycleBin,
+                ]}
+              >
+                <Ionicons name="trash-outline" size={32} color="#EF4444" />
+              </View>
+              <View style={styles.cardContent}>
+                <Text style={[styles.cardTitle, styles.textDark]}>
+                  Recycle Bin
+                </Text>
+                <Text style={[styles.cardSubtitle, styles.textDarkDim]}>
+                  Restore deleted records
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={24} color="#EF4444" />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.card, styles.cardCashBook]}
+              onPress={() => navigation.navigate("CashBook")}
+              activeOpacity={0.9}
+            >
+              <View
+                style={[styles.cardIconContainer, styles.iconContainerCashBook]}
+              >
+                <Ionicons name="book-outline" size={32} color="#2E7D32" />
+              </View>
+              <View style={styles.cardContent}>
+                <Text style={[styles.cardTitle, styles.textDark]}>
+                  Cash Book
+                </Text>
+                <Text style={[styles.cardSubtitle, styles.textDarkDim]}>
+                  Day-wise rojmel with balances
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={24} color="#2E7D32" />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.card, styles.cardAging]}
+              onPress={() => navigation.navigate("RehanAging")}
+              activeOpacity={0.9}
+            >
+              <View
+                style={[styles.cardIconContainer, styles.iconContainerAging]}
+              >
+                <Ionicons name="hourglass-outline" size={32} color="#D97706" />
+              </View>
+              <View style={styles.cardContent}>
+                <Text style={[styles.cardTitle, styles.textDark]}>
+                  Rehan Aging
+                </Text>
+                <Text style={[styles.cardSubtitle, styles.textDarkDim]}>
+                  Open rehan by months outstanding
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={24} color="#D97706" />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.card, styles.cardReports]}
+              onPress={() => navigation.navigate("ReportExport")}
+              activeOpacity={0.9}
+            >
+              <View
+                style={[styles.cardIconContainer, styles.iconContainerReports]}
+              >
+                <Ionicons name="grid-outline" size={32} color="#0EA5E9" />
+              </View>
+              <View style={styles.cardContent}>
+                <Text style={[styles.cardTitle, styles.textDark]}>
+                  Export for Accounts
+                </Text>
+                <Text style={[styles.cardSubtitle, styles.textDarkDim]}>
+                  Excel and CSV for your CA
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={24} color="#0EA5E9" />
+            </TouchableOpacity>
           </View>
         </View>
       </ScrollView>
+
+      <BackupPasswordModal
+        visible={showPasswordModal}
+        mode="set"
+        onClose={() => setShowPasswordModal(false)}
+        onSubmit={handleExport}
+        onSkip={() => handleExport()}
+      />
     </SafeAreaView>
   );
 };
@@ -214,6 +560,10 @@ const styles = StyleSheet.create({
     justifyContent: "space-between",
     alignItems: "center",
   },
+  headerActions: {
+    flexDirection: "row",
+    gap: 10,
+  },
   exportButton: {
     padding: 10,
     backgroundColor: "#F0F7FF",
@@ -254,6 +604,98 @@ const styles = StyleSheet.create({
     padding: 24,
     paddingTop: 32,
   },
+  backupBanner: {
+    marginBottom: 24,
+  },
+  statsGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "space-between",
+    rowGap: 12,
+    marginBottom: 32,
+  },
+  statTile: {
+    flexBasis: "48%",
+    flexGrow: 1,
+    maxWidth: "100%",
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#EEF0F2",
+    padding: 14,
+  },
+  statHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  statLabel: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#666",
+    textTransform: "uppercase",
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: "800",
+    marginTop: 8,
+  },
+  statHint: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 2,
+  },
+  dueList: {
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#EEF0F2",
+    overflow: "hidden",
+    marginBottom: 32,
+  },
+  dueRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F2F5",
+  },
+  dueInfo: {
+    flex: 1,
+  },
+  dueName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  dueMeta: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 2,
+  },
+  dueAmounts: {
+    alignItems: "flex-end",
+  },
+  dueAmount: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  dueMissed: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#C62828",
+    marginTop: 2,
+  },
+  dueEmpty: {
+    fontSize: 14,
+    color: "#999",
+    textAlign: "center",
+    paddingVertical: 20,
+  },
   helpText: {
     fontSize: 20,
     fontWeight: "700",
@@ -319,6 +761,46 @@ const styles = StyleSheet.create({
   iconContainerProduct: {
     backgroundColor: "#D1FAE5",
   },
+  cardAudit: {
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#EEF0F2",
+  },
+  iconContainerAudit: {
+    backgroundColor: "#FFEDD5",
+  },
+  cardRecycleBin: {
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#EEF0F2",
+  },
+  iconContainerRecycleBin: {
+    backgroundColor: "#FEE2E2",
+  },
+  cardReports: {
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#EEF0F2",
+  },
+  iconContainerReports: {
+    backgroundColor: "#E0F2FE",
+  },
+  cardCashBook: {
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#EEF0F2",
+  },
+  iconContainerCashBook: {
+    backgroundColor: "#E8F5E9",
+  },
+  cardAging: {
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#EEF0F2",
+  },
+  iconContainerAging: {
+    backgroundColor: "#FEF3C7",
+  },
   cardContent: {
     flex: 1,
   },
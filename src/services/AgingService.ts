@@ -0,0 +1,88 @@
+// AgingService.ts - Open Rehan grouped by how long they have been open
+
+import { OpenRehanRecords, OpenRehanRow } from "../database/entryDatabase";
+import { RehanTransaction } from "../types/entry";
+import { calculateRehanInterest } from "./InterestService";
+
+export type AgingBucketKey = "0-3" | "3-6" | "6-12" | "12+";
+
+export interface AgingEntry {
+  rehan: OpenRehanRow;
+  ageMonths: number; // Whole months since the open date
+  principal: number; // Principal outstanding
+  interest: number; // Accrued interest not yet paid
+  outstanding: number; // Principal + interest
+}
+
+export interface AgingBucket {
+  key: AgingBucketKey;
+  label: string;
+  entries: AgingEntry[];
+  outstanding: number;
+}
+
+// Oldest bucket last; an entry goes in the last bucket it has reached
+const BUCKETS: { key: AgingBucketKey; label: string; minMonths: number }[] = [
+  { key: "0-3", label: "0–3 months", minMonths: 0 },
+  { key: "3-6", label: "3–6 months", minMonths: 3 },
+  { key: "6-12", label: "6–12 months", minMonths: 6 },
+  { key: "12+", label: "12+ months", minMonths: 12 },
+];
+
+/**
+ * Whole calendar months from one date to another
+ * (15 Jan -> 14 Mar is 1 month, 15 Jan -> 15 Mar is 2).
+ */
+export const getMonthsBetween = (from: Date, to: Date): number => {
+  let months =
+    (to.getFullYear() - from.getFullYear()) * 12 +
+    (to.getMonth() - from.getMonth());
+  if (to.getDate() < from.getDate()) months -= 1;
+  return Math.max(months, 0);
+};
+
+/**
+ * Put every open Rehan in its age bucket with what is outstanding on it
+ * today. Entries in each bucket stay oldest first.
+ */
+export const buildAgingReport = (
+  records: OpenRehanRecords,
+  asOf: Date = new Date(),
+): AgingBucket[] => {
+  const transactionsByRehan: Record<number, RehanTransaction[]> = {};
+  for (const transaction of records.transactions) {
+    if (!transactionsByRehan[transaction.rehanId]) {
+      transactionsByRehan[transaction.rehanId] = [];
+    }
+    transactionsByRehan[transaction.rehanId].push(transaction);
+  }
+
+  const buckets: AgingBucket[] = BUCKETS.map((bucket) => ({
+    key: bucket.key,
+    label: bucket.label,
+    entries: [],
+    outstanding: 0,
+  }));
+
+  for (const rehan of records.rehan) {
+    const ageMonths = getMonthsBetween(new Date(rehan.openDate), asOf);
+    const summary = calculateRehanInterest(
+      rehan,
+      transactionsByRehan[rehan.id] || [],
+      asOf,
+    );
+    let index = BUCKETS.length - 1;
+    while (index > 0 && ageMonths < BUCKETS[index].minMonths) index -= 1;
+
+    buckets[index].entries.push({
+      rehan,
+      ageMonths,
+      principal: summary.principal,
+      interest: summary.interest,
+      outstanding: summary.total,
+    });
+    buckets[index].outstanding += summary.total;
+  }
+
+  return buckets;
+};
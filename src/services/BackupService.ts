@@ -0,0 +1,197 @@
+// BackupService.ts - Automatic daily local backups with rotation
+
+import * as FileSystem from "expo-file-system/legacy";
+import * as Sharing from "expo-sharing";
+import { createBackupZip } from "./ExportService";
+import { getSettings } from "../storage/settingsStorage";
+
+const BACKUP_DIR_NAME = "backups";
+const BACKUP_FILE_PATTERN = /^aj_backup_(\d{4}-\d{2}-\d{2})\.zip$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LocalBackup {
+  fileName: string;
+  path: string;
+  date: string; // Day the backup belongs to (YYYY-MM-DD)
+  createdAt: string; // When the file was written
+  size: number; // Bytes
+}
+
+const getBackupDir = () => `${FileSystem.documentDirectory}${BACKUP_DIR_NAME}/`;
+
+// Local calendar date as YYYY-MM-DD
+const toDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Notified whenever a new backup has been written
+const listeners = new Set<() => void>();
+
+export const subscribeToBackups = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Get all local backups, newest first.
+ */
+export const listBackups = async (): Promise<LocalBackup[]> => {
+  const dir = getBackupDir();
+  const dirInfo = await FileSystem.getInfoAsync(dir);
+  if (!dirInfo.exists) return [];
+
+  const backups: LocalBackup[] = [];
+  for (const fileName of await FileSystem.readDirectoryAsync(dir)) {
+    const match = fileName.match(BACKUP_FILE_PATTERN);
+    if (!match) continue;
+
+    const info = await FileSystem.getInfoAsync(`${dir}${fileName}`);
+    if (!info.exists) continue;
+    backups.push({
+      fileName,
+      path: `${dir}${fileName}`,
+      date: match[1],
+      createdAt: new Date(info.modificationTime * 1000).toISOString(),
+      size: info.size,
+    });
+  }
+
+  return backups.sort((a, b) => b.date.localeCompare(a.date));
+};
+
+/**
+ * Get the newest local backup, or null if there are none.
+ */
+export const getLastBackup = async (): Promise<LocalBackup | null> => {
+  const backups = await listBackups();
+  return backups[0] || null;
+};
+
+/**
+ * Check if the newest backup is older than `staleDays` (or missing).
+ */
+export const isBackupStale = (
+  backup: LocalBackup | null,
+  staleDays: number,
+): boolean => {
+  if (!backup) return true;
+  return Date.now() - new Date(backup.createdAt).getTime() > staleDays * DAY_MS;
+};
+
+// Keep the newest `keepDaily` backups, plus the newest backup of each of the
+// last `keepMonthly` months
+const selectBackupsToKeep = (
+  backups: LocalBackup[],
+  keepDaily: number,
+  keepMonthly: number,
+): Set<string> => {
+  const keep = new Set(backups.slice(0, keepDaily).map((b) => b.fileName));
+  const months = new Set<string>();
+
+  for (const backup of backups) {
+    const month = backup.date.slice(0, 7);
+    if (months.has(month)) continue;
+    if (months.size >= keepMonthly) break;
+    months.add(month);
+    keep.add(backup.fileName);
+  }
+
+  return keep;
+};
+
+/**
+ * Delete backups that fall outside the daily/monthly retention.
+ * Returns the number of backups deleted.
+ */
+export const rotateBackups = async (): Promise<number> => {
+  const { backupKeepDaily, backupKeepMonthly } = await getSettings();
+  const backups = await listBackups();
+  const keep = selectBackupsToKeep(
+    backups,
+    Math.max(1, backupKeepDaily), // Never delete the newest backup
+    backupKeepMonthly,
+  );
+
+  let deleted = 0;
+  for (const backup of backups) {
+    if (keep.has(backup.fileName)) continue;
+    await FileSystem.deleteAsync(backup.path, { idempotent: true });
+    deleted += 1;
+  }
+  return deleted;
+};
+
+// Write today's backup (replacing one already taken today) and rotate
+const takeBackup = async (): Promise<LocalBackup> => {
+  const dir = getBackupDir();
+  await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+
+  // Build under a temporary name so a failed backup never replaces a good one
+  const tempPath = `${dir}in_progress.zip`;
+  const fileName = `aj_backup_${toDateKey(new Date())}.zip`;
+  await FileSystem.deleteAsync(tempPath, { idempotent: true });
+  await createBackupZip(tempPath);
+  await FileSystem.deleteAsync(`${dir}${fileName}`, { idempotent: true });
+  await FileSystem.moveAsync({ from: tempPath, to: `${dir}${fileName}` });
+
+  await rotateBackups();
+  listeners.forEach((listener) => listener());
+
+  const backups = await listBackups();
+  return backups.find((b) => b.fileName === fileName) || backups[0];
+};
+
+let runningBackup: Promise<LocalBackup> | null = null;
+
+/**
+ * Take today's backup now (replacing one already taken today) and rotate.
+ * Backups share one temporary file, so a backup asked for while another is
+ * running (e.g. the scheduled one) waits for it and gets its result.
+ */
+export const backUpNow = (): Promise<LocalBackup> => {
+  if (!runningBackup) {
+    runningBackup = takeBackup().finally(() => {
+      runningBackup = null;
+    });
+  }
+  return runningBackup;
+};
+
+let scheduledRun: Promise<boolean> | null = null;
+
+/**
+ * Take the daily backup if automatic backups are on and today's is missing.
+ * Safe to call often (app start, app coming back to the foreground).
+ * Returns true if a backup was taken.
+ */
+export const runScheduledBackup = (): Promise<boolean> => {
+  if (!scheduledRun) {
+    scheduledRun = (async () => {
+      const { autoBackupEnabled } = await getSettings();
+      if (!autoBackupEnabled) return false;
+
+      const last = await getLastBackup();
+      if (last?.date === toDateKey(new Date())) return false;
+
+      await backUpNow();
+      return true;
+    })().finally(() => {
+      scheduledRun = null;
+    });
+  }
+  return scheduledRun;
+};
+
+/**
+ * Open the share sheet for a local backup (e.g. to send it off the phone).
+ */
+export const shareBackup = async (backup: LocalBackup): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device");
+  }
+  await Sharing.shareAsync(backup.path);
+};
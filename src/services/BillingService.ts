@@ -0,0 +1,52 @@
+// BillingService.ts - Weight × rate pricing of itemised Len-Den bills
+
+import { LendenItem, MakingChargeType, NewLendenItem } from "../types/entry";
+
+export const MAKING_CHARGE_TYPE_LABELS: Record<MakingChargeType, string> = {
+  perGram: "₹ per gram",
+  percent: "% of metal",
+};
+
+// What one bill line is made up of, each part rounded to rupees
+export interface LineAmount {
+  metalValue: number; // Net weight × rate
+  wastage: number; // Wastage weight × rate
+  making: number;
+  stoneCharges: number;
+  total: number;
+}
+
+/**
+ * Price one bill line: the net weight at the rate, wastage as extra weight
+ * at the same rate, making charges per gram of net weight or as a percent
+ * of the metal value, and stone charges on top.
+ */
+export const priceLendenItem = (
+  item: Omit<NewLendenItem, "amount"> | LendenItem,
+): LineAmount => {
+  const weight = item.netWeight ?? item.grossWeight ?? 0;
+  const metalValue = Math.round(weight * item.rate);
+  const wastage = Math.round(
+    ((weight * (item.wastagePercent || 0)) / 100) * item.rate,
+  );
+  const making = Math.round(
+    item.makingChargeType === "percent"
+      ? (metalValue * (item.makingCharge || 0)) / 100
+      : weight * (item.makingCharge || 0),
+  );
+  const stoneCharges = Math.round(item.stoneCharges || 0);
+
+  return {
+    metalValue,
+    wastage,
+    making,
+    stoneCharges,
+    total: metalValue + wastage + making + stoneCharges,
+  };
+};
+
+/**
+ * Bill amount of a set of priced lines.
+ */
+export const getBillAmount = (items: { amount: number }[]): number =>
+  items.reduce((sum, item) => sum + item.amount, 0);
@@ -0,0 +1,45 @@
+// CashBookService.ts - Day-wise cash book (rojmel) built from the ledger
+
+import {
+  LedgerEntry,
+  getLedgerBalanceBefore,
+  getLedgerEntries,
+} from "../database/entryDatabase";
+
+// Jama received is money in; rehan principal, diya and len-den bills are out
+export interface CashBookDay {
+  date: Date; // Start of the local day
+  opening: number; // Closing balance carried forward from the day before
+  entries: LedgerEntry[]; // credit = in, debit = out
+  totalIn: number;
+  totalOut: number;
+  closing: number;
+}
+
+/**
+ * Every money movement on a local calendar day, with the opening balance
+ * carried forward from all earlier days.
+ */
+export const getCashBookDay = async (day: Date): Promise<CashBookDay> => {
+  const start = new Date(day);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(day);
+  end.setHours(23, 59, 59, 999);
+
+  const [opening, entries] = await Promise.all([
+    getLedgerBalanceBefore(start.toISOString()),
+    getLedgerEntries({ from: start.toISOString(), to: end.toISOString() }),
+  ]);
+
+  const totalIn = entries.reduce((sum, entry) => sum + entry.credit, 0);
+  const totalOut = entries.reduce((sum, entry) => sum + entry.debit, 0);
+
+  return {
+    date: start,
+    opening,
+    entries,
+    totalIn,
+    totalOut,
+    closing: opening + totalIn - totalOut,
+  };
+};
@@ -0,0 +1,158 @@
+// DashboardService.ts - Business summary tiles for the home screen
+
+import {
+  LedgerEntry,
+  getLedgerEntries,
+  getOpenLendenRows,
+  getOpenRehanRecords,
+} from "../database/entryDatabase";
+import { DashboardTile, RehanTransaction } from "../types/entry";
+import { calculateRehanInterest } from "./InterestService";
+
+export interface DashboardStats {
+  lendenBaki: number; // Baki still due on open Lenden
+  rehanPrincipal: number; // Principal still out on open Rehan
+  openRehanCount: number;
+  openLendenCount: number;
+  collectedToday: number; // Lenden jama + Rehan jama
+  collectedThisMonth: number;
+  newLoansThisMonth: number; // Rehan opened + Lenden bills
+  newLoanAmountThisMonth: number;
+}
+
+// One entry behind a tile; opens the Rehan or Lenden it belongs to
+export interface DashboardRow {
+  key: string;
+  source: "rehan" | "lenden";
+  sourceId: number;
+  userName: string;
+  date: string;
+  amount: number;
+  note: string;
+}
+
+export interface Dashboard {
+  stats: DashboardStats;
+  rows: Record<DashboardTile, DashboardRow[]>;
+}
+
+export const DASHBOARD_TILE_TITLES: Record<DashboardTile, string> = {
+  lendenBaki: "Lenden Baki",
+  rehanPrincipal: "Rehan Principal Out",
+  openRehan: "Open Rehan",
+  openLenden: "Open Lenden",
+  collectedToday: "Collected Today",
+  collectedThisMonth: "Collected This Month",
+  newLoansThisMonth: "New Loans This Month",
+};
+
+const LEDGER_NOTES: Partial<Record<LedgerEntry["type"], string>> = {
+  rehan_loan: "Rehan opened",
+  rehan_jama: "Rehan jama",
+  lenden_bill: "Lenden bill",
+  lenden_jama: "Lenden jama",
+};
+
+const byDateDesc = (a: DashboardRow, b: DashboardRow) =>
+  new Date(b.date).getTime() - new Date(a.date).getTime();
+
+const byAmountDesc = (a: DashboardRow, b: DashboardRow) => b.amount - a.amount;
+
+const toLedgerRow = (entry: LedgerEntry, index: number): DashboardRow => ({
+  key: `${entry.type}-${index}`,
+  source: entry.source,
+  sourceId: entry.sourceId,
+  userName: entry.userName,
+  date: entry.date,
+  amount: entry.credit || entry.debit,
+  note: LEDGER_NOTES[entry.type] || "",
+});
+
+const sumAmounts = (rows: DashboardRow[]) =>
+  rows.reduce((sum, row) => sum + row.amount, 0);
+
+/**
+ * Work out every dashboard tile along with the entries behind it.
+ * "Today" and "this month" are local calendar days up to the end of today.
+ */
+export const loadDashboard = async (
+  asOf: Date = new Date(),
+): Promise<Dashboard> => {
+  const startOfToday = new Date(asOf);
+  startOfToday.setHours(0, 0, 0, 0);
+  const startOfMonth = new Date(startOfToday);
+  startOfMonth.setDate(1);
+  const endOfToday = new Date(asOf);
+  endOfToday.setHours(23, 59, 59, 999);
+
+  const [openRehan, openLenden, ledger] = await Promise.all([
+    getOpenRehanRecords(),
+    getOpenLendenRows(),
+    getLedgerEntries({
+      from: startOfMonth.toISOString(),
+      to: endOfToday.toISOString(),
+    }),
+  ]);
+
+  const transactionsByRehan: Record<number, RehanTransaction[]> = {};
+  for (const transaction of openRehan.transactions) {
+    (transactionsByRehan[transaction.rehanId] ??= []).push(transaction);
+  }
+  // Interest jamas lower the running balance too, so work the principal out
+  const rehanRows: DashboardRow[] = openRehan.rehan.map((rehan) => ({
+    key: `rehan-${rehan.id}`,
+    source: "rehan",
+    sourceId: rehan.id,
+    userName: rehan.userName,
+    date: rehan.openDate,
+    amount: calculateRehanInterest(
+      rehan,
+      transactionsByRehan[rehan.id] || [],
+      asOf,
+    ).principal,
+    note: rehan.productName || "",
+  }));
+  const lendenRows: DashboardRow[] = openLenden.map((lenden) => ({
+    key: `lenden-${lenden.id}`,
+    source: "lenden",
+    sourceId: lenden.id,
+    userName: lenden.userName,
+    date: lenden.date,
+    amount: lenden.baki || 0,
+    note: `Bill ₹${(lenden.remaining || 0).toLocaleString()}`,
+  }));
+
+  const collectedThisMonth = ledger
+    .filter((e) => e.type === "rehan_jama" || e.type === "lenden_jama")
+    .map(toLedgerRow)
+    .sort(byDateDesc);
+  const collectedToday = collectedThisMonth.filter(
+    (row) => new Date(row.date).getTime() >= startOfToday.getTime(),
+  );
+  const newLoansThisMonth = ledger
+    .filter((e) => e.type === "rehan_loan" || e.type === "lenden_bill")
+    .map(toLedgerRow)
+    .sort(byDateDesc);
+
+  return {
+    stats: {
+      lendenBaki: sumAmounts(lendenRows),
+      rehanPrincipal: sumAmounts(rehanRows),
+      openRehanCount: rehanRows.length,
+      openLendenCount: lendenRows.length,
+      collectedToday: sumAmounts(collectedToday),
+      collectedThisMonth: sumAmounts(collectedThisMonth),
+      newLoansThisMonth: newLoansThisMonth.length,
+      newLoanAmountThisMonth: sumAmounts(newLoansThisMonth),
+    },
+    rows: {
+      lendenBaki: [...lendenRows].sort(byAmountDesc),
+      rehanPrincipal: [...rehanRows].sort(byAmountDesc),
+      openRehan: [...rehanRows].sort(byDateDesc),
+      openLenden: [...lendenRows].sort(byDateDesc),
+      collectedToday,
+      collectedThisMonth,
+      newLoansThisMonth,
+    },
+  };
+};
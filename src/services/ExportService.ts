@@ -1,67 +1,158 @@
 import * as FileSystem from "expo-file-system/legacy";
 import * as Sharing from "expo-sharing";
-import { zip } from "react-native-zip-archive";
-import {
-  getAllUsers,
-  getAllRehan,
-  getAllLenden,
-} from "../database/entryDatabase";
-import { Rehan, Lenden } from "../types/entry";
+import * as Application from "expo-application";
+import { zip, zipWithPassword } from "react-native-zip-archive";
+import { BackupRecords, getBackupRecords } from "../database/entryDatabase";
+import { LATEST_SCHEMA_VERSION } from "../database/migrations";
+import { getFileChecksum } from "../storage/fileStorage";
+import { Rehan, Lenden, RehanItem } from "../types/entry";
 
 const EXPORT_DIR_NAME = "aj_export";
 
-export const exportData = async (): Promise<void> => {
-  try {
-    // 1. Prepare export directory
-    const exportDir = `${FileSystem.documentDirectory}${EXPORT_DIR_NAME}`;
-    const imagesDir = `${exportDir}/images`;
-
-    // Clean up previous export if exists
-    const dirInfo = await FileSystem.getInfoAsync(exportDir);
-    if (dirInfo.exists) {
-      await FileSystem.deleteAsync(exportDir, { idempotent: true });
-    }
+// Version 1 had only users/rehan/lenden and no manifest
+export const BACKUP_FORMAT_VERSION = 2;
+
+export const MANIFEST_FILE = "manifest.json";
+
+export const MIN_BACKUP_PASSWORD_LENGTH = 6;
+
+// Data file for each table in a backup
+export const BACKUP_FILES: Record<keyof BackupRecords, string> = {
+  users: "users.json",
+  rehan: "rehan.json",
+  rehanTransactions: "rehan_transactions.json",
+  rehanItems: "rehan_items.json",
+  lenden: "lenden.json",
+  lendenItems: "lenden_items.json",
+  jamaEntries: "jama_entries.json",
+  invoices: "invoices.json",
+  reminders: "reminders.json",
+  auditLog: "audit_log.json",
+};
+
+export interface BackupManifest {
+  formatVersion: number;
+  appVersion: string | null;
+  schemaVersion: number;
+  createdAt: string;
+  counts: Record<string, number>; // Rows in each data file
+  checksums: Record<string, string>; // SHA-256 of every file, by zip path
+}
+
+// Backups share the export folder, so they are built one at a time
+let backupQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Write a complete backup (every table, every photo and a manifest with
+ * checksums) to a zip file and return its path.
+ *
+ * With a password every file in the zip is encrypted with WinZip AES-256:
+ * the key is derived from the password with PBKDF2 and each file carries an
+ * authentication code, so a wrong password or tampering is detected.
+ */
+export const createBackupZip = (
+  zipPath?: string,
+  password?: string,
+): Promise<string> => {
+  if (password !== undefined && password.length < MIN_BACKUP_PASSWORD_LENGTH) {
+    return Promise.reject(
+      new Error(
+        `Password must be at least ${MIN_BACKUP_PASSWORD_LENGTH} characters`,
+      ),
+    );
+  }
 
-    // Create directories
-    await FileSystem.makeDirectoryAsync(exportDir, { intermediates: true });
-    await FileSystem.makeDirectoryAsync(imagesDir, { intermediates: true });
+  const run = backupQueue.then(() => buildBackupZip(zipPath, password));
+  backupQueue = run.catch(() => undefined);
+  return run;
+};
+
+const buildBackupZip = async (
+  zipPath?: string,
+  password?: string,
+): Promise<string> => {
+  // 1. Prepare export directory
+  const exportDir = `${FileSystem.documentDirectory}${EXPORT_DIR_NAME}`;
+  const imagesDir = `${exportDir}/images`;
+
+  // Clean up previous export if exists
+  const dirInfo = await FileSystem.getInfoAsync(exportDir);
+  if (dirInfo.exists) {
+    await FileSystem.deleteAsync(exportDir, { idempotent: true });
+  }
+
+  // Create directories
+  await FileSystem.makeDirectoryAsync(exportDir, { intermediates: true });
+  await FileSystem.makeDirectoryAsync(imagesDir, { intermediates: true });
 
+  try {
     // 2. Fetch all data
-    const users = await getAllUsers();
-    const rehan = await getAllRehan();
-    const lenden = await getAllLenden();
+    const records = await getBackupRecords();
 
     // 3. Process data and copy images
-    const processedRehan = await processEntries(rehan, imagesDir);
-    const processedLenden = await processEntries(lenden, imagesDir);
+    const files: string[] = [];
+    const data: BackupRecords = {
+      ...records,
+      rehan: await processEntries(records.rehan, "rehan", exportDir, files),
+      lenden: await processEntries(records.lenden, "lenden", exportDir, files),
+      rehanItems: await processRehanItems(records.rehanItems, exportDir, files),
+    };
 
     // 4. Write JSON files
+    const counts: Record<string, number> = {};
+    for (const key of Object.keys(BACKUP_FILES) as (keyof BackupRecords)[]) {
+      const fileName = BACKUP_FILES[key];
+      await FileSystem.writeAsStringAsync(
+        `${exportDir}/${fileName}`,
+        JSON.stringify(data[key], null, 2),
+      );
+      counts[fileName] = data[key].length;
+      files.push(fileName);
+    }
+
+    // 5. Write the manifest with a checksum of every file
+    const checksums: Record<string, string> = {};
+    for (const file of files) {
+      checksums[file] = await getFileChecksum(`${exportDir}/${file}`);
+    }
+    const manifest: BackupManifest = {
+      formatVersion: BACKUP_FORMAT_VERSION,
+      appVersion: Application.nativeApplicationVersion,
+      schemaVersion: LATEST_SCHEMA_VERSION,
+      createdAt: new Date().toISOString(),
+      counts,
+      checksums,
+    };
     await FileSystem.writeAsStringAsync(
-      `${exportDir}/users.json`,
-      JSON.stringify(users, null, 2)
-    );
-    await FileSystem.writeAsStringAsync(
-      `${exportDir}/rehan.json`,
-      JSON.stringify(processedRehan, null, 2)
-    );
-    await FileSystem.writeAsStringAsync(
-      `${exportDir}/lenden.json`,
-      JSON.stringify(processedLenden, null, 2)
+      `${exportDir}/${MANIFEST_FILE}`,
+      JSON.stringify(manifest, null, 2),
     );
 
-    // 5. Zip the directory
-    const zipPath = `${FileSystem.documentDirectory}export_${Date.now()}.zip`;
-    await zip(exportDir, zipPath);
+    // 6. Zip the directory
+    const target =
+      zipPath || `${FileSystem.documentDirectory}export_${Date.now()}.zip`;
+    if (password) {
+      await zipWithPassword(exportDir, target, password, "AES-256");
+    } else {
+      await zip(exportDir, target);
+    }
+    return target;
+  } finally {
+    // 7. Cleanup
+    await FileSystem.deleteAsync(exportDir, { idempotent: true });
+  }
+};
+
+export const exportData = async (password?: string): Promise<void> => {
+  try {
+    const zipPath = await createBackupZip(undefined, password);
 
-    // 6. Share the zip file
+    // Share the zip file
     if (await Sharing.isAvailableAsync()) {
       await Sharing.shareAsync(zipPath);
     } else {
       throw new Error("Sharing is not available on this device");
     }
-
-    // 7. Cleanup
-    await FileSystem.deleteAsync(exportDir, { idempotent: true });
     // Optional: Delete zip after sharing? Expo sharing might need it.
     // Usually, we can leave the zip for a while or delete it next time.
   } catch (error) {
@@ -70,49 +161,93 @@ export const exportData = async (): Promise<void> => {
   }
 };
 
-const processEntries = async (
-  entries: (Rehan | Lenden)[],
-  targetImagesDir: string
-) => {
-  const processed = [];
-
-  for (const entry of entries) {
-    const rawMedia = JSON.parse(entry.media);
-    const newMediaPaths = [];
-
-    if (Array.isArray(rawMedia)) {
-      for (const mediaPath of rawMedia) {
-        if (typeof mediaPath === "string") {
-          // Extract filename
-          const filename = mediaPath.split("/").pop();
-          if (filename) {
-            const destPath = `${targetImagesDir}/${filename}`;
-
-            // Copy file if it exists
-            const fileInfo = await FileSystem.getInfoAsync(mediaPath);
-            if (fileInfo.exists) {
-              await FileSystem.copyAsync({
-                from: mediaPath,
-                to: destPath,
-              });
-              // Store relative path for DB portability
-              newMediaPaths.push(`images/${filename}`);
-            } else {
-              console.warn(`Image not found: ${mediaPath}`);
-              // Keep original path or mark missing? Let's keep original just in case
-              newMediaPaths.push(mediaPath);
-            }
-          }
-        }
+// Copy a media list's photos into the export and return the list pointing at
+// the copies. Copies are named after the entry (e.g. images/rehan_12_0.jpg) so
+// two photos with the same original filename can't overwrite each other.
+const copyMedia = async (
+  media: string,
+  prefix: string,
+  exportDir: string,
+  copiedFiles: string[],
+): Promise<string> => {
+  const rawMedia = JSON.parse(media);
+  const newMediaPaths: string[] = [];
+
+  if (Array.isArray(rawMedia)) {
+    for (const [index, mediaPath] of rawMedia.entries()) {
+      if (typeof mediaPath !== "string") continue;
+
+      const extension = mediaPath.match(/\.[a-zA-Z0-9]+$/)?.[0] || ".jpg";
+      const relativePath = `images/${prefix}_${index}${extension}`;
+
+      // Copy file if it exists
+      const fileInfo = await FileSystem.getInfoAsync(mediaPath);
+      if (fileInfo.exists) {
+        await FileSystem.copyAsync({
+          from: mediaPath,
+          to: `${exportDir}/${relativePath}`,
+        });
+        // Store relative path for DB portability
+        newMediaPaths.push(relativePath);
+        copiedFiles.push(relativePath);
+      } else {
+        console.warn(`Image not found: ${mediaPath}`);
+        // Keep original path so nothing is silently lost
+        newMediaPaths.push(mediaPath);
       }
     }
+  }
 
+  return JSON.stringify(newMediaPaths);
+};
+
+// Copy each entry's photos into the export and point its media at the copies
+const processEntries = async <T extends Rehan | Lenden>(
+  entries: T[],
+  prefix: string,
+  exportDir: string,
+  copiedFiles: string[],
+): Promise<T[]> => {
+  const processed: T[] = [];
+
+  for (const entry of entries) {
     processed.push({
       ...entry,
-      media: JSON.stringify(newMediaPaths), // Update media with relative paths
-      originalMedia: entry.media, // Optional: keep original paths reference
+      media: await copyMedia(
+        entry.media,
+        `${prefix}_${entry.id}`,
+        exportDir,
+        copiedFiles,
+      ),
     });
   }
 
   return processed;
 };
+
+// Same for the photos taken when pledged items were released
+const processRehanItems = async (
+  items: RehanItem[],
+  exportDir: string,
+  copiedFiles: string[],
+): Promise<RehanItem[]> => {
+  const processed: RehanItem[] = [];
+
+  for (const item of items) {
+    processed.push(
+      item.releaseMedia
+        ? {
+            ...item,
+            releaseMedia: await copyMedia(
+              item.releaseMedia,
+              `rehan_item_${item.id}`,
+              exportDir,
+              copiedFiles,
+            ),
+          }
+        : item,
+    );
+  }
+
+  return processed;
+};
@@ -0,0 +1,323 @@
+// GstService.ts - GST tax invoices for jewellery sales and the GSTR-1 summary
+
+import { ReportDateRange } from "../database/entryDatabase";
+import { Invoice, Lenden, LendenItem, NewInvoice, User } from "../types/entry";
+
+export const GST_RATE_PERCENT = 3; // Gold, silver and jewellery
+export const JEWELLERY_HSN = "7113"; // Articles of jewellery of precious metal
+
+// GST state codes, the first two digits of a GSTIN
+export const GST_STATES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+};
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const PAN_PATTERN = /^[A-Z]{5}\d{4}[A-Z]$/;
+
+/**
+ * Check the shape of a GSTIN: state code, the holder's PAN, entity number,
+ * "Z" and a check character.
+ */
+export const isValidGstin = (gstin: string): boolean =>
+  GSTIN_PATTERN.test(gstin) && gstin.slice(0, 2) in GST_STATES;
+
+export const isValidPan = (pan: string): boolean => PAN_PATTERN.test(pan);
+
+// State code of a GSTIN, or null if it isn't one
+export const getGstinStateCode = (gstin: string | null): string | null =>
+  gstin && isValidGstin(gstin) ? gstin.slice(0, 2) : null;
+
+// e.g. "27-Maharashtra", the way GST returns print a place of supply
+export const formatPlaceOfSupply = (stateCode: string) =>
+  `${stateCode}-${GST_STATES[stateCode] || "Unknown"}`;
+
+/**
+ * Financial year (April to March) a date falls in, e.g. "2025-26".
+ */
+export const getFinancialYear = (date: Date | string): string => {
+  const d = new Date(date);
+  const startYear = d.getMonth() >= 3 ? d.getFullYear() : d.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+};
+
+// Invoice numbers run from 1 each financial year, e.g. "GST/2025-26/0001"
+export const formatInvoiceNumber = (
+  invoice: Pick<Invoice, "financialYear" | "sequence">,
+) =>
+  `GST/${invoice.financialYear}/${String(invoice.sequence).padStart(4, "0")}`;
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface GstBreakup {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+/**
+ * Split a GST-inclusive amount into the taxable value and the tax: IGST for a
+ * sale to another state, otherwise half as CGST and half as SGST.
+ */
+export const splitGst = (total: number, isInterState: boolean): GstBreakup => {
+  const taxableValue = roundToPaise((total * 100) / (100 + GST_RATE_PERCENT));
+  const tax = roundToPaise(total - taxableValue);
+  const cgst = isInterState ? 0 : roundToPaise(tax / 2);
+  return {
+    taxableValue,
+    cgst,
+    sgst: isInterState ? 0 : roundToPaise(tax - cgst),
+    igst: isInterState ? tax : 0,
+    total,
+  };
+};
+
+export interface InvoiceDetails {
+  date: string;
+  customerGstin?: string;
+  customerPan?: string;
+  placeOfSupply: string; // State code of the buyer
+}
+
+/**
+ * Prepare the invoice for a Lenden. The bill's net amount (amount less
+ * discount) is what the customer pays, so it is taken as GST-inclusive and
+ * the ledger is unchanged by invoicing.
+ */
+export const buildNewInvoice = (
+  lenden: Lenden,
+  user: User,
+  items: LendenItem[],
+  details: InvoiceDetails,
+  shopGstin: string,
+): NewInvoice => {
+  const isInterState = details.placeOfSupply !== getGstinStateCode(shopGstin);
+  const total = Math.max((lenden.amount || 0) - (lenden.discount || 0), 0);
+  const totalWeight = items.reduce(
+    (sum, item) => sum + (item.netWeight ?? item.grossWeight ?? 0),
+    0,
+  );
+
+  return {
+    lendenId: lenden.id,
+    financialYear: getFinancialYear(details.date),
+    date: details.date,
+    customerName: user.name,
+    customerAddress: user.address || undefined,
+    customerGstin: details.customerGstin || undefined,
+    customerPan: details.customerPan || undefined,
+    placeOfSupply: details.placeOfSupply,
+    isInterState,
+    ...splitGst(total, isInterState),
+    totalWeight: totalWeight > 0 ? totalWeight : undefined,
+  };
+};
+
+// ============ AMOUNT IN WORDS ============
+
+const ONES = [
+  "",
+  "One",
+  "Two",
+  "Three",
+  "Four",
+  "Five",
+  "Six",
+  "Seven",
+  "Eight",
+  "Nine",
+  "Ten",
+  "Eleven",
+  "Twelve",
+  "Thirteen",
+  "Fourteen",
+  "Fifteen",
+  "Sixteen",
+  "Seventeen",
+  "Eighteen",
+  "Nineteen",
+];
+const TENS = [
+  "",
+  "",
+  "Twenty",
+  "Thirty",
+  "Forty",
+  "Fifty",
+  "Sixty",
+  "Seventy",
+  "Eighty",
+  "Ninety",
+];
+
+// Words for 1-99
+const twoDigitWords = (n: number): string =>
+  n < 20
+    ? ONES[n]
+    : [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(" ");
+
+// Words for a whole number in the Indian system (lakh, crore)
+const numberToWords = (n: number): string => {
+  if (n === 0) return "Zero";
+  const parts: string[] = [];
+  const crore = Math.floor(n / 10000000);
+  if (crore > 0) parts.push(`${numberToWords(crore)} Crore`);
+  const lakh = Math.floor((n % 10000000) / 100000);
+  if (lakh > 0) parts.push(`${twoDigitWords(lakh)} Lakh`);
+  const thousand = Math.floor((n % 100000) / 1000);
+  if (thousand > 0) parts.push(`${twoDigitWords(thousand)} Thousand`);
+  const hundred = Math.floor((n % 1000) / 100);
+  if (hundred > 0) parts.push(`${ONES[hundred]} Hundred`);
+  const rest = n % 100;
+  if (rest > 0) {
+    parts.push(parts.length > 0 ? `and ${twoDigitWords(rest)}` : ONES[rest]);
+  }
+  return parts.join(" ");
+};
+
+/**
+ * Amount as printed on an invoice, e.g.
+ * "Rupees One Lakh Two Thousand and Five and Fifty Paise Only".
+ */
+export const amountInWords = (amount: number): string => {
+  const paise = Math.round(amount * 100);
+  const rupees = Math.floor(paise / 100);
+  const words = `Rupees ${numberToWords(rupees)}`;
+  return paise % 100 > 0
+    ? `${words} and ${twoDigitWords(paise % 100)} Paise Only`
+    : `${words} Only`;
+};
+
+// ============ GSTR-1 SUMMARY ============
+
+// Sales to unregistered buyers, added up per place of supply
+export interface B2csRow {
+  placeOfSupply: string;
+  invoices: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface Gstr1Summary {
+  b2b: Invoice[]; // Buyers with a GSTIN, listed invoice by invoice
+  b2cs: B2csRow[];
+  hsn: {
+    quantity: number; // Grams
+    totalValue: number;
+    taxableValue: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+  };
+  documents: { from: string; to: string; count: number } | null;
+}
+
+/**
+ * Group a period's invoices the way GSTR-1 asks for them: registered
+ * buyers one by one, the rest per state, a single HSN line and the range of
+ * invoice numbers issued.
+ */
+export const buildGstr1Summary = (invoices: Invoice[]): Gstr1Summary => {
+  const b2csByState: Record<string, B2csRow> = {};
+  const hsn = {
+    quantity: 0,
+    totalValue: 0,
+    taxableValue: 0,
+    cgst: 0,
+    sgst: 0,
+    igst: 0,
+  };
+
+  for (const invoice of invoices) {
+    hsn.quantity += invoice.totalWeight || 0;
+    hsn.totalValue += invoice.total;
+    hsn.taxableValue += invoice.taxableValue;
+    hsn.cgst += invoice.cgst;
+    hsn.sgst += invoice.sgst;
+    hsn.igst += invoice.igst;
+    if (invoice.customerGstin) continue;
+
+    const row = (b2csByState[invoice.placeOfSupply] ??= {
+      placeOfSupply: invoice.placeOfSupply,
+      invoices: 0,
+      taxableValue: 0,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+    });
+    row.invoices += 1;
+    row.taxableValue = roundToPaise(row.taxableValue + invoice.taxableValue);
+    row.cgst = roundToPaise(row.cgst + invoice.cgst);
+    row.sgst = roundToPaise(row.sgst + invoice.sgst);
+    row.igst = roundToPaise(row.igst + invoice.igst);
+  }
+
+  return {
+    b2b: invoices.filter((invoice) => invoice.customerGstin),
+    b2cs: Object.values(b2csByState).sort((a, b) =>
+      a.placeOfSupply.localeCompare(b.placeOfSupply),
+    ),
+    hsn: {
+      quantity: Math.round(hsn.quantity * 1000) / 1000,
+      totalValue: roundToPaise(hsn.totalValue),
+      taxableValue: roundToPaise(hsn.taxableValue),
+      cgst: roundToPaise(hsn.cgst),
+      sgst: roundToPaise(hsn.sgst),
+      igst: roundToPaise(hsn.igst),
+    },
+    documents:
+      invoices.length > 0
+        ? {
+            from: formatInvoiceNumber(invoices[0]),
+            to: formatInvoiceNumber(invoices[invoices.length - 1]),
+            count: invoices.length,
+          }
+        : null,
+  };
+};
+
+// The calendar month containing `month`, as a report range
+export const getMonthRange = (month: Date): ReportDateRange => {
+  const start = new Date(month.getFullYear(), month.getMonth(), 1);
+  const end = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+  end.setHours(23, 59, 59, 999);
+  return { from: start.toISOString(), to: end.toISOString() };
+};
@@ -0,0 +1,549 @@
+// ImportService.ts - Read an export zip back in (restore or merge)
+
+import * as FileSystem from "expo-file-system/legacy";
+import * as DocumentPicker from "expo-document-picker";
+import {
+  unzip,
+  unzipWithPassword,
+  isPasswordProtected,
+} from "react-native-zip-archive";
+import {
+  BackupRecords,
+  ImportCounts,
+  importRecords,
+  isDatabaseEmpty,
+  findUserByNameAndMobile,
+} from "../database/entryDatabase";
+import {
+  saveImages,
+  deleteImages,
+  getFileChecksum,
+} from "../storage/fileStorage";
+import {
+  BACKUP_FORMAT_VERSION,
+  BACKUP_FILES,
+  MANIFEST_FILE,
+  BackupManifest,
+} from "./ExportService";
+
+const IMPORT_DIR_NAME = "aj_import";
+
+export interface BackupFile {
+  fileName: string;
+  rootDir: string; // Folder the zip was extracted to
+  encrypted: boolean; // Opened with a password
+  manifest: BackupManifest | null; // Null for version 1 backups
+  records: BackupRecords;
+  imageCount: number; // Photos referenced by the backup
+  missingImages: number; // Referenced photos that aren't in the zip
+}
+
+export interface PickedFile {
+  uri: string;
+  name: string;
+}
+
+// A backup customer that matches an existing one by name + mobile
+export interface ImportConflict {
+  backupUserId: number;
+  existingUserId: number;
+  name: string;
+  mobileNumber: string | null;
+}
+
+// What to do with conflicting customers when merging
+export type ConflictStrategy = "skip" | "link";
+
+export interface ImportResult extends ImportCounts {
+  mode: "restore" | "merge";
+  images: number;
+  skippedUsers: number;
+}
+
+// Thrown by readBackup so the password can be asked for again
+export class WrongPasswordError extends Error {
+  constructor() {
+    super("Wrong password. Please check the password and try again.");
+    this.name = "WrongPasswordError";
+  }
+}
+
+const getImportDir = () => `${FileSystem.documentDirectory}${IMPORT_DIR_NAME}`;
+
+const isRelativeImage = (path: string) => path.startsWith("images/");
+
+const parseMediaList = (media: string): string[] => {
+  const parsed = JSON.parse(media);
+  if (!Array.isArray(parsed)) throw new Error("media is not a list");
+  return parsed.filter((p): p is string => typeof p === "string");
+};
+
+// Read and parse one JSON array from the extracted backup
+const readJsonArray = async <T>(
+  rootDir: string,
+  fileName: string,
+): Promise<T[]> => {
+  const path = `${rootDir}/${fileName}`;
+  const info = await FileSystem.getInfoAsync(path);
+  if (!info.exists) {
+    throw new Error(`This is not a valid backup: ${fileName} is missing.`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await FileSystem.readAsStringAsync(path));
+  } catch {
+    throw new Error(`The backup is damaged: ${fileName} can't be read.`);
+  }
+  if (!Array.isArray(data)) {
+    throw new Error(`The backup is damaged: ${fileName} has no records.`);
+  }
+  return data as T[];
+};
+
+// The zip may hold the files at its root or inside a single folder
+const findBackupRoot = async (extractDir: string): Promise<string> => {
+  const entries = await FileSystem.readDirectoryAsync(extractDir);
+  if (entries.includes("users.json")) return extractDir;
+
+  for (const entry of entries) {
+    const nested = `${extractDir}/${entry}`;
+    const info = await FileSystem.getInfoAsync(`${nested}/users.json`);
+    if (info.exists) return nested;
+  }
+  throw new Error("This is not a valid backup: users.json is missing.");
+};
+
+// Check the manifest: format version, every file present and unchanged
+const verifyManifest = async (rootDir: string, manifest: BackupManifest) => {
+  if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error(
+      "This backup was made by a newer version of the app. Please update the app first.",
+    );
+  }
+
+  for (const [path, checksum] of Object.entries(manifest.checksums || {})) {
+    const info = await FileSystem.getInfoAsync(`${rootDir}/${path}`);
+    if (!info.exists) {
+      throw new Error(`The backup is incomplete: ${path} is missing.`);
+    }
+    if ((await getFileChecksum(`${rootDir}/${path}`)) !== checksum) {
+      throw new Error(`The backup is damaged: ${path} has been changed.`);
+    }
+  }
+};
+
+// Read the manifest, if this backup has one (version 2 onwards)
+const readManifest = async (
+  rootDir: string,
+): Promise<BackupManifest | null> => {
+  const path = `${rootDir}/${MANIFEST_FILE}`;
+  const info = await FileSystem.getInfoAsync(path);
+  if (!info.exists) return null;
+
+  try {
+    return JSON.parse(await FileSystem.readAsStringAsync(path));
+  } catch {
+    throw new Error(`The backup is damaged: ${MANIFEST_FILE} can't be read.`);
+  }
+};
+
+// Check that every record is complete and points at a record in the backup
+const validateRecords = (records: BackupRecords) => {
+  const userIds = new Set<number>();
+  for (const user of records.users) {
+    if (typeof user.id !== "number" || !user.name) {
+      throw new Error("The backup is damaged: a customer has no name.");
+    }
+    userIds.add(user.id);
+  }
+
+  const entries = [
+    ...records.rehan.map((r) => ({ ...r, label: "Rehan", date: r.openDate })),
+    ...records.lenden.map((l) => ({ ...l, label: "Len-Den", date: l.date })),
+  ];
+  for (const entry of entries) {
+    if (typeof entry.id !== "number" || !entry.date) {
+      throw new Error(
+        `The backup is damaged: a ${entry.label} is incomplete.`,
+      );
+    }
+    if (!userIds.has(entry.userId)) {
+      throw new Error(
+        `The backup is damaged: ${entry.label} #${entry.id} belongs to a customer that isn't in the file.`,
+      );
+    }
+    try {
+      parseMediaList(entry.media);
+    } catch {
+      throw new Error(
+        `The backup is damaged: ${entry.label} #${entry.id} has invalid photos.`,
+      );
+    }
+  }
+
+  const rehanIds = new Set(records.rehan.map((r) => r.id));
+  for (const transaction of records.rehanTransactions) {
+    if (!rehanIds.has(transaction.rehanId)) {
+      throw new Error(
+        `The backup is damaged: rehan transaction #${transaction.id} belongs to a Rehan that isn't in the file.`,
+      );
+    }
+  }
+  for (const item of records.rehanItems) {
+    if (!item.itemType || !item.metal) {
+      throw new Error(
+        `The backup is damaged: pledged item #${item.id} is incomplete.`,
+      );
+    }
+    if (!rehanIds.has(item.rehanId)) {
+      throw new Error(
+        `The backup is damaged: pledged item #${item.id} belongs to a Rehan that isn't in the file.`,
+      );
+    }
+    try {
+      if (item.releaseMedia) parseMediaList(item.releaseMedia);
+    } catch {
+      throw new Error(
+        `The backup is damaged: pledged item #${item.id} has invalid photos.`,
+      );
+    }
+  }
+
+  const lendenIds = new Set(records.lenden.map((l) => l.id));
+  for (const item of records.lendenItems) {
+    if (!item.description || !item.metal) {
+      throw new Error(
+        `The backup is damaged: bill line #${item.id} is incomplete.`,
+      );
+    }
+    if (!lendenIds.has(item.lendenId)) {
+      throw new Error(
+        `The backup is damaged: bill line #${item.id} belongs to a Len-Den that isn't in the file.`,
+      );
+    }
+  }
+  for (const entry of records.jamaEntries) {
+    if (!lendenIds.has(entry.lendenId)) {
+      throw new Error(
+        `The backup is damaged: jama entry #${entry.id} belongs to a Len-Den that isn't in the file.`,
+      );
+    }
+  }
+  for (const invoice of records.invoices) {
+    if (!invoice.financialYear || !invoice.sequence || !invoice.date) {
+      throw new Error(
+        `The backup is damaged: invoice #${invoice.id} is incomplete.`,
+      );
+    }
+    // Invoices of purged bills have no Len-Den
+    if (invoice.lendenId !== null && !lendenIds.has(invoice.lendenId)) {
+      throw new Error(
+        `The backup is damaged: invoice #${invoice.id} belongs to a Len-Den that isn't in the file.`,
+      );
+    }
+  }
+
+  for (const reminder of records.reminders) {
+    if (!userIds.has(reminder.userId)) {
+      throw new Error(
+        `The backup is damaged: reminder #${reminder.id} belongs to a customer that isn't in the file.`,
+      );
+    }
+  }
+};
+
+/**
+ * Let the user choose a backup zip. Returns null if they cancel.
+ */
+export const pickBackupFile = async (): Promise<PickedFile | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ["application/zip", "application/x-zip-compressed"],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+  return { uri: result.assets[0].uri, name: result.assets[0].name };
+};
+
+/**
+ * Check if a backup zip was exported with a password.
+ */
+export const isBackupEncrypted = async (uri: string): Promise<boolean> => {
+  try {
+    return await isPasswordProtected(uri);
+  } catch (error) {
+    console.error("Error checking backup encryption:", error);
+    return false;
+  }
+};
+
+// Whether unzipping failed because the password doesn't open the backup:
+// zip4j (Android) says so in its message, SSZipArchive (iOS) fails to open
+// the first entry and reports that in the error's userInfo
+const isWrongPasswordError = (error: unknown): boolean => {
+  const { message, userInfo } = (error || {}) as {
+    message?: string;
+    userInfo?: unknown;
+  };
+  return /wrong password|failed to open file in zip/i.test(
+    `${message} ${JSON.stringify(userInfo ?? null)}`,
+  );
+};
+
+/**
+ * Extract a backup zip and validate its contents.
+ * Password-protected backups need `password`.
+ * Throws an Error with a user-facing message if the file can't be used.
+ */
+export const readBackup = async (
+  uri: string,
+  fileName: string,
+  password?: string,
+): Promise<BackupFile> => {
+  const encrypted = await isBackupEncrypted(uri);
+  if (encrypted && !password) {
+    throw new Error("This backup is password protected. Enter its password.");
+  }
+
+  const extractDir = getImportDir();
+  await FileSystem.deleteAsync(extractDir, { idempotent: true });
+  await FileSystem.makeDirectoryAsync(extractDir, { intermediates: true });
+
+  if (encrypted && password) {
+    try {
+      await unzipWithPassword(uri, extractDir, password);
+    } catch (error) {
+      console.error("Unzip with password failed:", error);
+      await FileSystem.deleteAsync(extractDir, { idempotent: true });
+      if (isWrongPasswordError(error)) {
+        throw new WrongPasswordError();
+      }
+      throw error;
+    }
+  } else {
+    try {
+      await unzip(uri, extractDir);
+    } catch (error) {
+      console.error("Unzip failed:", error);
+      throw new Error(
+        "This file could not be opened. Please choose a backup zip.",
+      );
+    }
+  }
+
+  const rootDir = await findBackupRoot(extractDir);
+  const manifest = await readManifest(rootDir);
+  if (manifest) {
+    await verifyManifest(rootDir, manifest);
+  }
+
+  // Version 1 backups only have customers, rehan and len-den, and backups
+  // made before pledged items, reminders, bill lines or invoices were
+  // recorded lack those files
+  const hasRehanItems =
+    manifest?.counts?.[BACKUP_FILES.rehanItems] !== undefined;
+  const hasReminders =
+    manifest?.counts?.[BACKUP_FILES.reminders] !== undefined;
+  const hasLendenItems =
+    manifest?.counts?.[BACKUP_FILES.lendenItems] !== undefined;
+  const hasInvoices = manifest?.counts?.[BACKUP_FILES.invoices] !== undefined;
+  const records: BackupRecords = {
+    users: await readJsonArray(rootDir, BACKUP_FILES.users),
+    rehan: await readJsonArray(rootDir, BACKUP_FILES.rehan),
+    rehanTransactions: manifest
+      ? await readJsonArray(rootDir, BACKUP_FILES.rehanTransactions)
+      : [],
+    rehanItems: hasRehanItems
+      ? await readJsonArray(rootDir, BACKUP_FILES.rehanItems)
+      : [],
+    lenden: await readJsonArray(rootDir, BACKUP_FILES.lenden),
+    lendenItems: hasLendenItems
+      ? await readJsonArray(rootDir, BACKUP_FILES.lendenItems)
+      : [],
+    jamaEntries: manifest
+      ? await readJsonArray(rootDir, BACKUP_FILES.jamaEntries)
+      : [],
+    invoices: hasInvoices
+      ? await readJsonArray(rootDir, BACKUP_FILES.invoices)
+      : [],
+    reminders: hasReminders
+      ? await readJsonArray(rootDir, BACKUP_FILES.reminders)
+      : [],
+    auditLog: manifest
+      ? await readJsonArray(rootDir, BACKUP_FILES.auditLog)
+      : [],
+  };
+
+  if (manifest) {
+    for (const key of Object.keys(BACKUP_FILES) as (keyof BackupRecords)[]) {
+      if (key === "rehanItems" && !hasRehanItems) continue;
+      if (key === "reminders" && !hasReminders) continue;
+      if (key === "lendenItems" && !hasLendenItems) continue;
+      if (key === "invoices" && !hasInvoices) continue;
+      const fileName = BACKUP_FILES[key];
+      if (manifest.counts?.[fileName] !== records[key].length) {
+        throw new Error(
+          `The backup is incomplete: ${fileName} doesn't have all its records.`,
+        );
+      }
+    }
+  }
+  validateRecords(records);
+
+  // Count the photos, and the ones the zip doesn't actually contain
+  const images = new Set<string>();
+  const mediaLists = [
+    ...records.rehan.map((r) => r.media),
+    ...records.lenden.map((l) => l.media),
+    ...records.rehanItems.map((i) => i.releaseMedia || "[]"),
+  ];
+  for (const media of mediaLists) {
+    parseMediaList(media)
+      .filter(isRelativeImage)
+      .forEach((path) => images.add(path));
+  }
+  let missingImages = 0;
+  for (const path of images) {
+    const info = await FileSystem.getInfoAsync(`${rootDir}/${path}`);
+    if (!info.exists) missingImages += 1;
+  }
+
+  return {
+    fileName,
+    rootDir,
+    encrypted,
+    manifest,
+    records,
+    imageCount: images.size,
+    missingImages,
+  };
+};
+
+/**
+ * Find backup customers that already exist here (same name and mobile).
+ */
+export const findConflicts = async (
+  backup: BackupFile,
+): Promise<ImportConflict[]> => {
+  const conflicts: ImportConflict[] = [];
+  for (const user of backup.records.users) {
+    const existing = await findUserByNameAndMobile(
+      user.name,
+      user.mobileNumber,
+    );
+    if (existing) {
+      conflicts.push({
+        backupUserId: user.id,
+        existingUserId: existing.id,
+        name: user.name,
+        mobileNumber: user.mobileNumber,
+      });
+    }
+  }
+  return conflicts;
+};
+
+/**
+ * Import a validated backup.
+ *
+ * Into an empty database everything is restored with its original ids.
+ * Otherwise the records are merged in with new ids; customers in `conflicts`
+ * are either skipped entirely or have their entries attached to the existing
+ * customer, depending on `strategy`.
+ */
+export const importBackup = async (
+  backup: BackupFile,
+  conflicts: ImportConflict[],
+  strategy: ConflictStrategy,
+): Promise<ImportResult> => {
+  const restore = await isDatabaseEmpty();
+  const { users, rehan, rehanItems, lenden, jamaEntries } = backup.records;
+
+  // Work out which customers are skipped or linked to existing ones
+  const skippedUserIds = new Set<number>();
+  const existingUserIds: Record<number, number> = {};
+  if (!restore) {
+    for (const conflict of conflicts) {
+      if (strategy === "skip") {
+        skippedUserIds.add(conflict.backupUserId);
+      } else {
+        existingUserIds[conflict.backupUserId] = conflict.existingUserId;
+      }
+    }
+  }
+  const isIncluded = (userId: number) => !skippedUserIds.has(userId);
+  // A merge brings in live records only; a restore keeps the recycle bin too
+  const isLive = (row: { deletedAt?: string | null }) =>
+    restore || !row.deletedAt;
+
+  // Copy photos into the app's image folder and point the media at them
+  const copiedImages: Record<string, string> = {};
+  const rewriteMedia = async (media: string): Promise<string> => {
+    const paths: string[] = [];
+    for (const path of parseMediaList(media)) {
+      if (!isRelativeImage(path)) {
+        paths.push(path);
+        continue;
+      }
+      if (!copiedImages[path]) {
+        const source = `${backup.rootDir}/${path}`;
+        const info = await FileSystem.getInfoAsync(source);
+        if (!info.exists) continue; // Photo missing from the backup
+        const [saved] = await saveImages([source]);
+        if (!saved) continue;
+        copiedImages[path] = saved;
+      }
+      paths.push(copiedImages[path]);
+    }
+    return JSON.stringify(paths);
+  };
+
+  try {
+    const records: BackupRecords = {
+      ...backup.records,
+      users: users.filter((u) => isIncluded(u.id) && isLive(u)),
+      rehan: [],
+      rehanItems: [],
+      lenden: [],
+      jamaEntries: jamaEntries.filter(isLive),
+    };
+    for (const r of rehan.filter((r) => isIncluded(r.userId) && isLive(r))) {
+      records.rehan.push({ ...r, media: await rewriteMedia(r.media) });
+    }
+    for (const l of lenden.filter((l) => isIncluded(l.userId) && isLive(l))) {
+      records.lenden.push({ ...l, media: await rewriteMedia(l.media) });
+    }
+    const rehanIds = new Set(records.rehan.map((r) => r.id));
+    for (const item of rehanItems.filter((i) => rehanIds.has(i.rehanId))) {
+      records.rehanItems.push(
+        item.releaseMedia
+          ? { ...item, releaseMedia: await rewriteMedia(item.releaseMedia) }
+          : item,
+      );
+    }
+
+    const counts = await importRecords(records, {
+      keepIds: restore,
+      existingUserIds,
+    });
+
+    return {
+      ...counts,
+      mode: restore ? "restore" : "merge",
+      images: Object.keys(copiedImages).length,
+      skippedUsers: skippedUserIds.size,
+    };
+  } catch (error) {
+    // Nothing was written to the database, so drop the copied photos
+    await deleteImages(Object.values(copiedImages));
+    console.error("Import failed:", error);
+    throw error;
+  }
+};
+
+/**
+ * Remove the extracted backup files.
+ */
+export const cleanupImport = async (): Promise<void> => {
+  await FileSystem.deleteAsync(getImportDir(), { idempotent: true });
+};
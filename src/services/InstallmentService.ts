@@ -0,0 +1,190 @@
+// InstallmentService.ts - Installment schedules for Lenden and their dues
+
+import { InstallmentRecords, OpenLendenRow } from "../database/entryDatabase";
+import {
+  InstallmentFrequency,
+  InstallmentPlan,
+  JamaEntry,
+  Lenden,
+} from "../types/entry";
+import { addMonths } from "./InterestService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DUE_WINDOW_DAYS = 7; // "This week" is today and the six days after
+
+export const INSTALLMENT_FREQUENCY_LABELS: Record<
+  InstallmentFrequency,
+  string
+> = {
+  weekly: "Weekly",
+  fortnightly: "Fortnightly",
+  monthly: "Monthly",
+};
+
+export type InstallmentStatus = "onTime" | "late" | "missed" | "upcoming";
+
+export const INSTALLMENT_STATUS_LABELS: Record<InstallmentStatus, string> = {
+  onTime: "On time",
+  late: "Paid late",
+  missed: "Missed",
+  upcoming: "Upcoming",
+};
+
+export interface Installment {
+  number: number; // 1-based
+  dueDate: string;
+  amount: number;
+  paid: number; // Jama counted towards this installment so far
+  paidDate: string | null; // Jama that cleared it in full
+  status: InstallmentStatus;
+}
+
+// An unpaid installment of some customer's Lenden
+export interface DueInstallment {
+  lenden: OpenLendenRow;
+  installment: Installment;
+}
+
+// Midnight at the start of a date's local day
+const startOfDay = (date: Date) => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+const getDueDate = (
+  firstDueDate: Date,
+  frequency: InstallmentFrequency,
+  index: number,
+): Date => {
+  if (frequency === "monthly") return addMonths(firstDueDate, index);
+  const days = frequency === "weekly" ? 7 : 14;
+  const result = new Date(firstDueDate);
+  result.setDate(result.getDate() + days * index);
+  return result;
+};
+
+/**
+ * The installment plan attached to a Lenden, if it has one.
+ */
+export const getInstallmentPlan = (
+  lenden: Lenden,
+): InstallmentPlan | null => {
+  if (
+    !lenden.installmentCount ||
+    !lenden.installmentFrequency ||
+    !lenden.firstDueDate
+  ) {
+    return null;
+  }
+  return {
+    count: lenden.installmentCount,
+    frequency: lenden.installmentFrequency,
+    firstDueDate: lenden.firstDueDate,
+  };
+};
+
+/**
+ * Split the Lenden remaining (amount - discount) into equal installments,
+ * the last one taking any rupees left over from rounding, and match the jama
+ * entries against them in date order. An installment is on time if it was
+ * cleared by the end of its due day, and missed once that day has passed
+ * without it being cleared.
+ */
+export const buildInstallmentSchedule = (
+  lenden: Lenden,
+  jamaEntries: JamaEntry[],
+  asOf: Date = new Date(),
+): Installment[] => {
+  const plan = getInstallmentPlan(lenden);
+  if (!plan) return [];
+
+  const total =
+    lenden.remaining ?? (lenden.amount || 0) - (lenden.discount || 0);
+  const baseAmount = Math.floor(total / plan.count);
+  const firstDueDate = startOfDay(new Date(plan.firstDueDate));
+  const today = startOfDay(asOf).getTime();
+  const payments = [...jamaEntries].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
+  );
+
+  const installments: Installment[] = [];
+  let dueSoFar = 0;
+  let paidSoFar = 0;
+  let paymentIndex = 0;
+
+  for (let index = 0; index < plan.count; index++) {
+    const isLast = index === plan.count - 1;
+    const amount = isLast ? total - baseAmount * index : baseAmount;
+    const dueDate = getDueDate(firstDueDate, plan.frequency, index);
+    dueSoFar += amount;
+
+    // Take payments until this installment is covered
+    let paidDate: string | null = null;
+    while (paidSoFar < dueSoFar && paymentIndex < payments.length) {
+      paidSoFar += payments[paymentIndex].amount;
+      paymentIndex++;
+    }
+    if (paidSoFar >= dueSoFar) {
+      // An earlier payment may have covered it already
+      const clearedBy = payments[Math.max(paymentIndex - 1, 0)];
+      paidDate = clearedBy ? clearedBy.date : null;
+    }
+
+    const paid = Math.min(
+      Math.max(paidSoFar - (dueSoFar - amount), 0),
+      amount,
+    );
+    const dueEnd = dueDate.getTime() + DAY_MS;
+    let status: InstallmentStatus;
+    if (paidDate !== null) {
+      status = new Date(paidDate).getTime() < dueEnd ? "onTime" : "late";
+    } else {
+      status = dueDate.getTime() < today ? "missed" : "upcoming";
+    }
+
+    installments.push({
+      number: index + 1,
+      dueDate: dueDate.toISOString(),
+      amount,
+      paid,
+      paidDate,
+      status,
+    });
+  }
+
+  return installments;
+};
+
+/**
+ * Unpaid installments of every open Lenden that fall due by the end of this
+ * week, including missed ones still waiting to be paid, earliest first.
+ */
+export const getDueInstallments = (
+  records: InstallmentRecords,
+  asOf: Date = new Date(),
+): DueInstallment[] => {
+  const windowEnd = startOfDay(asOf).getTime() + DUE_WINDOW_DAYS * DAY_MS;
+  const due: DueInstallment[] = [];
+
+  for (const lenden of records.lenden) {
+    const entries = records.jamaEntries.filter(
+      (entry) => entry.lendenId === lenden.id,
+    );
+    for (const installment of buildInstallmentSchedule(
+      lenden,
+      entries,
+      asOf,
+    )) {
+      if (installment.paidDate !== null) continue;
+      if (new Date(installment.dueDate).getTime() >= windowEnd) break;
+      due.push({ lenden, installment });
+    }
+  }
+
+  return due.sort(
+    (a, b) =>
+      new Date(a.installment.dueDate).getTime() -
+      new Date(b.installment.dueDate).getTime(),
+  );
+};
@@ -0,0 +1,122 @@
+// InterestService.ts - Interest accrual calculator for Rehan (girvi) entries
+
+import { Rehan, RehanTransaction, InterestMode } from "../types/entry";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30; // Girvi interest is counted on a 30-day month
+
+export interface InterestSummary {
+  principal: number; // Principal outstanding
+  interest: number; // Accrued interest not yet paid
+  total: number; // Total payable (principal + interest)
+  asOf: string;
+}
+
+// Add calendar months to a date (clamped to the last day of the month)
+export const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date.getTime());
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(
+    result.getFullYear(),
+    result.getMonth() + 1,
+    0,
+  ).getDate();
+  result.setDate(Math.min(day, lastDay));
+  return result;
+};
+
+/**
+ * Work out the principal the Rehan was opened with.
+ * Without a stored one, `rehan.amount` is the running balance, so undo every
+ * transaction on it.
+ */
+export const getOpeningPrincipal = (
+  rehan: Rehan,
+  transactions: RehanTransaction[],
+): number => {
+  if (rehan.openingAmount != null) return rehan.openingAmount;
+  return transactions.reduce(
+    (sum, t) => (t.type === "diya" ? sum - t.amount : sum + t.amount),
+    rehan.amount || 0,
+  );
+};
+
+/**
+ * Calculate principal outstanding and accrued interest for a Rehan as of a date.
+ *
+ * Walks the transaction history in date order: "diya" adds to the principal,
+ * "jama" pays off accrued interest first and then the principal. In "compound"
+ * mode unpaid interest is added to the principal at every monthly anniversary
+ * of the open date.
+ */
+export const calculateRehanInterest = (
+  rehan: Rehan,
+  transactions: RehanTransaction[],
+  asOfDate: Date = new Date(),
+): InterestSummary => {
+  const rate = (rehan.interestRate || 0) / 100;
+  const mode: InterestMode = rehan.interestMode || "simple";
+  const openDate = new Date(rehan.openDate);
+  const asOf = asOfDate.getTime();
+
+  let principal = getOpeningPrincipal(rehan, transactions);
+  let capitalised = 0; // Interest already compounded into the base
+  let pending = 0; // Interest accrued since the last monthly anniversary
+  let cursor = openDate.getTime();
+  let monthIndex = 1;
+  let nextAnniversary = addMonths(openDate, monthIndex).getTime();
+
+  const accrueUntil = (until: number) => {
+    while (cursor < until) {
+      const segmentEnd = Math.min(until, nextAnniversary);
+      const base = mode === "compound" ? principal + capitalised : principal;
+      const months = (segmentEnd - cursor) / DAY_MS / DAYS_PER_MONTH;
+      if (base > 0) {
+        pending += base * rate * months;
+      }
+      cursor = segmentEnd;
+
+      if (cursor === nextAnniversary) {
+        capitalised += pending;
+        pending = 0;
+        monthIndex += 1;
+        nextAnniversary = addMonths(openDate, monthIndex).getTime();
+      }
+    }
+  };
+
+  const events = transactions
+    .filter((t) => new Date(t.date).getTime() <= asOf)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  for (const event of events) {
+    accrueUntil(Math.max(new Date(event.date).getTime(), cursor));
+
+    if (event.type === "diya") {
+      principal += event.amount;
+    } else {
+      let payment = event.amount;
+      const fromPending = Math.min(payment, pending);
+      pending -= fromPending;
+      payment -= fromPending;
+      const fromCapitalised = Math.min(payment, capitalised);
+      capitalised -= fromCapitalised;
+      payment -= fromCapitalised;
+      principal -= payment;
+    }
+  }
+
+  accrueUntil(asOf);
+
+  const roundedPrincipal = Math.max(0, Math.round(principal));
+  const roundedInterest = Math.max(0, Math.round(capitalised + pending));
+
+  return {
+    principal: roundedPrincipal,
+    interest: roundedInterest,
+    total: roundedPrincipal + roundedInterest,
+    asOf: asOfDate.toISOString(),
+  };
+};
@@ -0,0 +1,660 @@
+// PdfService.ts - Printable bills and receipts, shared as PDF
+
+import * as FileSystem from "expo-file-system/legacy";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import {
+  getLendenById,
+  getRehanById,
+  getUserById,
+  getJamaEntriesByLendenId,
+  getRehanTransactionsByRehanId,
+  getRehanItemsByRehanId,
+  getLendenItemsByLendenId,
+  getInvoiceByLendenId,
+  ReportDateRange,
+} from "../database/entryDatabase";
+import { getSettings, AppSettings } from "../storage/settingsStorage";
+import { getOpeningPrincipal } from "./InterestService";
+import {
+  STATEMENT_EVENT_LABELS,
+  StatementAccount,
+  buildCustomerStatement,
+} from "./StatementService";
+import {
+  GST_RATE_PERCENT,
+  JEWELLERY_HSN,
+  amountInWords,
+  formatInvoiceNumber,
+  formatPlaceOfSupply,
+} from "./GstService";
+import { LendenItem, RehanItem, User } from "../types/entry";
+
+const PDF_DIR_NAME = "aj_pdf";
+const THUMBNAIL_WIDTH = 320;
+
+// ============ HTML HELPERS ============
+
+const escapeHtml = (value: string | number | null | undefined): string =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatCurrency = (amount: number) =>
+  `₹${amount.toLocaleString("en-IN")}`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+
+// Styles shared by every document
+const BASE_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, Roboto, "Helvetica Neue", Arial, sans-serif; color: #1A1A1A; margin: 0; padding: 28px; font-size: 13px; }
+  .shop { text-align: center; border-bottom: 2px solid #1A1A1A; padding-bottom: 12px; margin-bottom: 16px; }
+  .shop h1 { margin: 0; font-size: 24px; letter-spacing: 1px; }
+  .shop p { margin: 4px 0 0; color: #444; }
+  .doc-title { text-align: center; font-size: 15px; font-weight: 700; text-transform: uppercase; letter-spacing: 2px; margin-bottom: 16px; }
+  .meta { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 16px; }
+  .meta .label { color: #666; font-size: 11px; text-transform: uppercase; }
+  .meta .value { font-weight: 600; margin-bottom: 6px; }
+  .right { text-align: right; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 8px 10px; border-bottom: 1px solid #E5E5E5; text-align: left; }
+  th { background: #F8F9FA; font-size: 11px; text-transform: uppercase; color: #666; }
+  td.amount, th.amount { text-align: right; white-space: nowrap; }
+  tr.strong td { font-weight: 700; border-top: 2px solid #1A1A1A; }
+  .green { color: #2E7D32; }
+  .red { color: #C62828; }
+  .footer { margin-top: 32px; text-align: center; color: #999; font-size: 11px; }
+  .section-title { font-size: 11px; font-weight: 700; color: #666; text-transform: uppercase; margin: 18px 0 8px; }
+  .photos { display: flex; flex-wrap: wrap; gap: 8px; }
+  .photos img { width: 120px; height: 120px; object-fit: cover; border: 1px solid #E5E5E5; border-radius: 6px; }
+  .terms { font-size: 11px; color: #444; white-space: pre-line; line-height: 1.5; }
+  .signatures { display: flex; justify-content: space-between; gap: 40px; margin-top: 48px; }
+  .signature { flex: 1; border-top: 1px solid #1A1A1A; padding-top: 6px; text-align: center; font-size: 11px; color: #444; }
+`;
+
+const renderShopHeader = (settings: AppSettings) => `
+  <div class="shop">
+    <h1>${escapeHtml(settings.shopName)}</h1>
+    ${settings.shopAddress ? `<p>${escapeHtml(settings.shopAddress)}</p>` : ""}
+    ${settings.shopPhone ? `<p>Phone: ${escapeHtml(settings.shopPhone)}</p>` : ""}
+  </div>
+`;
+
+const renderCustomer = (user: User | null) => `
+  <div>
+    <div class="label">Customer</div>
+    <div class="value">${escapeHtml(user?.name || "-")}</div>
+    ${user?.address ? `<div>${escapeHtml(user.address)}</div>` : ""}
+    ${user?.mobileNumber ? `<div>Mobile: ${escapeHtml(user.mobileNumber)}</div>` : ""}
+  </div>
+`;
+
+const renderDocument = (title: string, body: string) => `
+  <!DOCTYPE html>
+  <html>
+    <head>
+      <meta charset="utf-8" />
+      <meta name="viewport" content="width=device-width, initial-scale=1" />
+      <title>${escapeHtml(title)}</title>
+      <style>${BASE_STYLES}</style>
+    </head>
+    <body>${body}</body>
+  </html>
+`;
+
+// Small JPEG data URIs of the photos, so they are embedded in the PDF.
+// Photos that can't be read are left out.
+const getThumbnails = async (media: string): Promise<string[]> => {
+  let paths: unknown;
+  try {
+    paths = JSON.parse(media || "[]");
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(paths)) return [];
+
+  const thumbnails: string[] = [];
+  for (const path of paths) {
+    if (typeof path !== "string") continue;
+    try {
+      const image = await ImageManipulator.manipulate(path)
+        .resize({ width: THUMBNAIL_WIDTH })
+        .renderAsync();
+      const result = await image.saveAsync({
+        base64: true,
+        compress: 0.6,
+        format: SaveFormat.JPEG,
+      });
+      if (result.base64) {
+        thumbnails.push(`data:image/jpeg;base64,${result.base64}`);
+      }
+    } catch (error) {
+      console.warn(`Could not add photo to PDF: ${path}`, error);
+    }
+  }
+  return thumbnails;
+};
+
+// Render the HTML to a PDF named `fileName` and open the share sheet
+const sharePdf = async (html: string, fileName: string): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device");
+  }
+
+  const { uri } = await Print.printToFileAsync({ html });
+
+  // Give the file a readable name for the person receiving it
+  const pdfDir = `${FileSystem.documentDirectory}${PDF_DIR_NAME}/`;
+  await FileSystem.makeDirectoryAsync(pdfDir, { intermediates: true });
+  const target = `${pdfDir}${fileName}.pdf`;
+  await FileSystem.deleteAsync(target, { idempotent: true });
+  await FileSystem.moveAsync({ from: uri, to: target });
+
+  await Sharing.shareAsync(target, {
+    mimeType: "application/pdf",
+    UTI: "com.adobe.pdf",
+  });
+};
+
+// ============ LEN-DEN BILL ============
+
+// Bill numbers are the len-den id, so a reprint always gets the same number
+export const formatBillNumber = (lendenId: number) =>
+  `B-${String(lendenId).padStart(5, "0")}`;
+
+/**
+ * Create a PDF of a len-den bill (amount, discount, each jama with the running
+ * baki, and the final baki) and open the share sheet.
+ */
+export const shareLendenBill = async (lendenId: number): Promise<void> => {
+  const lenden = await getLendenById(lendenId);
+  if (!lenden) {
+    throw new Error("Len-den entry not found");
+  }
+  const [user, jamaEntries, settings] = await Promise.all([
+    getUserById(lenden.userId),
+    getJamaEntriesByLendenId(lendenId),
+    getSettings(),
+  ]);
+
+  const amount = lenden.amount || 0;
+  const discount = lenden.discount || 0;
+  const remaining = amount - discount;
+  const billNumber = formatBillNumber(lenden.id);
+
+  let runningBaki = remaining;
+  const jamaRows = jamaEntries
+    .map((entry) => {
+      runningBaki -= entry.amount;
+      return `
+        <tr>
+          <td>Jama · ${escapeHtml(formatDate(entry.date))}</td>
+          <td class="amount green">-${formatCurrency(entry.amount)}</td>
+          <td class="amount">${formatCurrency(runningBaki)}</td>
+        </tr>`;
+    })
+    .join("");
+
+  const body = `
+    ${renderShopHeader(settings)}
+    <div class="doc-title">Bill</div>
+    <div class="meta">
+      ${renderCustomer(user)}
+      <div class="right">
+        <div class="label">Bill No.</div>
+        <div class="value">${billNumber}</div>
+        <div class="label">Date</div>
+        <div class="value">${escapeHtml(formatDate(lenden.date))}</div>
+      </div>
+    </div>
+    <table>
+      <thead>
+        <tr>
+          <th>Description</th>
+          <th class="amount">Amount</th>
+          <th class="amount">Baki</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr>
+          <td>Amount</td>
+          <td class="amount">${formatCurrency(amount)}</td>
+          <td></td>
+        </tr>
+        <tr>
+          <td>Discount</td>
+          <td class="amount">-${formatCurrency(discount)}</td>
+          <td></td>
+        </tr>
+        <tr class="strong">
+          <td>Remaining</td>
+          <td class="amount">${formatCurrency(remaining)}</td>
+          <td class="amount">${formatCurrency(remaining)}</td>
+        </tr>
+        ${jamaRows}
+        <tr class="strong">
+          <td>Final Baki</td>
+          <td></td>
+          <td class="amount ${runningBaki > 0 ? "red" : "green"}">
+            ${formatCurrency(Math.max(runningBaki, 0))}
+          </td>
+        </tr>
+      </tbody>
+    </table>
+    <div class="footer">Thank you for your business</div>
+  `;
+
+  await sharePdf(
+    renderDocument(`Bill ${billNumber}`, body),
+    `Bill_${billNumber}`,
+  );
+};
+
+// ============ GST TAX INVOICE ============
+
+// Tax is worked out to the paisa, so invoices always show two decimals
+const formatTaxAmount = (amount: number) =>
+  `₹${amount.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+// A bill without lines is invoiced as a single line for its full amount
+const renderInvoiceLines = (items: LendenItem[], billAmount: number) => {
+  const lines =
+    items.length > 0
+      ? items
+      : [
+          {
+            description: "Jewellery",
+            purity: null,
+            netWeight: null,
+            rate: 0,
+            amount: billAmount,
+          },
+        ];
+  return lines
+    .map(
+      (line, index) => `
+        <tr>
+          <td>${index + 1}</td>
+          <td>${escapeHtml(line.description)}</td>
+          <td>${JEWELLERY_HSN}</td>
+          <td>${escapeHtml(line.purity || "-")}</td>
+          <td class="amount">${formatWeight(line.netWeight)}</td>
+          <td class="amount">${line.rate ? formatTaxAmount(line.rate) : "-"}</td>
+          <td class="amount">${formatCurrency(line.amount)}</td>
+        </tr>`,
+    )
+    .join("");
+};
+
+/**
+ * Create the GST tax invoice issued for a len-den bill (seller and buyer
+ * GSTIN, HSN-wise lines, the CGST/SGST or IGST split and the amount in
+ * words) and open the share sheet.
+ */
+export const shareGstInvoice = async (lendenId: number): Promise<void> => {
+  const [invoice, lenden] = await Promise.all([
+    getInvoiceByLendenId(lendenId),
+    getLendenById(lendenId),
+  ]);
+  if (!invoice || !lenden) {
+    throw new Error("GST invoice not found");
+  }
+  const [items, settings] = await Promise.all([
+    getLendenItemsByLendenId(lendenId),
+    getSettings(),
+  ]);
+
+  const invoiceNumber = formatInvoiceNumber(invoice);
+  const discount = lenden.discount || 0;
+  const halfRate = GST_RATE_PERCENT / 2;
+  const taxRows = invoice.isInterState
+    ? `<tr>
+         <td colspan="6">IGST @ ${GST_RATE_PERCENT}%</td>
+         <td class="amount">${formatTaxAmount(invoice.igst)}</td>
+       </tr>`
+    : `<tr>
+         <td colspan="6">CGST @ ${halfRate}%</td>
+         <td class="amount">${formatTaxAmount(invoice.cgst)}</td>
+       </tr>
+       <tr>
+         <td colspan="6">SGST @ ${halfRate}%</td>
+         <td class="amount">${formatTaxAmount(invoice.sgst)}</td>
+       </tr>`;
+
+  const body = `
+    ${renderShopHeader(settings)}
+    <div class="doc-title">Tax Invoice</div>
+    <div class="meta">
+      <div>
+        <div class="label">Billed To</div>
+        <div class="value">${escapeHtml(invoice.customerName)}</div>
+        ${invoice.customerAddress ? `<div>${escapeHtml(invoice.customerAddress)}</div>` : ""}
+        ${invoice.customerGstin ? `<div>GSTIN: ${escapeHtml(invoice.customerGstin)}</div>` : ""}
+        ${invoice.customerPan ? `<div>PAN: ${escapeHtml(invoice.customerPan)}</div>` : ""}
+        <div>Place of Supply: ${escapeHtml(formatPlaceOfSupply(invoice.placeOfSupply))}</div>
+      </div>
+      <div class="right">
+        <div class="label">Invoice No.</div>
+        <div class="value">${escapeHtml(invoiceNumber)}</div>
+        <div class="label">Date</div>
+        <div class="value">${escapeHtml(formatDate(invoice.date))}</div>
+        <div class="label">GSTIN</div>
+        <div class="value">${escapeHtml(settings.shopGstin || "-")}</div>
+      </div>
+    </div>
+    <table>
+      <thead>
+        <tr>
+          <th>#</th>
+          <th>Description</th>
+          <th>HSN</th>
+          <th>Purity</th>
+          <th class="amount">Net Wt</th>
+          <th class="amount">Rate / g</th>
+          <th class="amount">Amount</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${renderInvoiceLines(items, lenden.amount || 0)}
+        ${
+          discount > 0
+            ? `<tr>
+                 <td colspan="6">Discount</td>
+                 <td class="amount">-${formatCurrency(discount)}</td>
+               </tr>`
+            : ""
+        }
+        <tr class="strong">
+          <td colspan="6">Taxable Value</td>
+          <td class="amount">${formatTaxAmount(invoice.taxableValue)}</td>
+        </tr>
+        ${taxRows}
+        <tr class="strong">
+          <td colspan="6">Invoice Total</td>
+          <td class="amount">${formatTaxAmount(invoice.total)}</td>
+        </tr>
+      </tbody>
+    </table>
+    <div class="section-title">Amount in Words</div>
+    <div>${escapeHtml(amountInWords(invoice.total))}</div>
+    <div class="footer">
+      Item amounts include GST at ${GST_RATE_PERCENT}%.
+      Against bill ${formatBillNumber(lenden.id)}.
+    </div>
+    <div class="signatures">
+      <div class="signature">Customer Signature</div>
+      <div class="signature">For ${escapeHtml(settings.shopName)}</div>
+    </div>
+  `;
+
+  await sharePdf(
+    renderDocument(`Tax Invoice ${invoiceNumber}`, body),
+    `Invoice_${invoiceNumber.replace(/\//g, "-")}`,
+  );
+};
+
+// ============ REHAN PLEDGE RECEIPT ============
+
+export const formatRehanNumber = (rehanId: number) =>
+  `R-${String(rehanId).padStart(5, "0")}`;
+
+const formatWeight = (grams: number | null) =>
+  grams != null ? `${grams.toFixed(3)} g` : "-";
+
+const renderRehanItems = (items: RehanItem[]) => `
+  <table>
+    <thead>
+      <tr>
+        <th>Item</th>
+        <th>Metal</th>
+        <th>Purity</th>
+        <th class="amount">Pcs</th>
+        <th class="amount">Gross Wt</th>
+        <th class="amount">Net Wt</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${items
+        .map(
+          (item) => `
+        <tr>
+          <td>${escapeHtml(item.itemType)}</td>
+          <td>${item.metal === "gold" ? "Gold" : "Silver"}</td>
+          <td>${escapeHtml(item.purity || "-")}</td>
+          <td class="amount">${item.pieces}</td>
+          <td class="amount">${formatWeight(item.grossWeight)}</td>
+          <td class="amount">${formatWeight(item.netWeight)}</td>
+        </tr>`,
+        )
+        .join("")}
+    </tbody>
+  </table>
+  <br />
+`;
+
+/**
+ * Create the pledge receipt for a rehan (customer, pledged items, amount
+ * given, photos, terms and signature boxes) and open the share sheet.
+ * The amount is the opening principal, so a reprint matches the original.
+ */
+export const shareRehanReceipt = async (rehanId: number): Promise<void> => {
+  const rehan = await getRehanById(rehanId);
+  if (!rehan) {
+    throw new Error("Rehan entry not found");
+  }
+  const [user, transactions, items, settings, thumbnails] = await Promise.all(
+    [
+      getUserById(rehan.userId),
+      getRehanTransactionsByRehanId(rehanId),
+      getRehanItemsByRehanId(rehanId),
+      getSettings(),
+      getThumbnails(rehan.media),
+    ],
+  );
+
+  const rehanNumber = formatRehanNumber(rehan.id);
+  const principal = getOpeningPrincipal(rehan, transactions);
+  const interestText = rehan.interestRate
+    ? `${rehan.interestRate}% per month (${
+        rehan.interestMode === "compound" ? "monthly compound" : "simple"
+      })`
+    : "-";
+
+  const body = `
+    ${renderShopHeader(settings)}
+    <div class="doc-title">Pledge Receipt</div>
+    <div class="meta">
+      ${renderCustomer(user)}
+      <div class="right">
+        <div class="label">Rehan No.</div>
+        <div class="value">${rehanNumber}</div>
+        <div class="label">Open Date</div>
+        <div class="value">${escapeHtml(formatDate(rehan.openDate))}</div>
+      </div>
+    </div>
+    ${items.length > 0 ? renderRehanItems(items) : ""}
+    <table>
+      <tbody>
+        <tr>
+          <td>Items Pledged</td>
+          <td class="amount">${escapeHtml(rehan.productName || "-")}</td>
+        </tr>
+        <tr>
+          <td>Interest</td>
+          <td class="amount">${escapeHtml(interestText)}</td>
+        </tr>
+        <tr class="strong">
+          <td>Amount Given</td>
+          <td class="amount">${formatCurrency(principal)}</td>
+        </tr>
+      </tbody>
+    </table>
+    ${
+      thumbnails.length > 0
+        ? `<div class="section-title">Photos</div>
+           <div class="photos">
+             ${thumbnails.map((src) => `<img src="${src}" />`).join("")}
+           </div>`
+        : ""
+    }
+    <div class="section-title">Terms</div>
+    <div class="terms">${escapeHtml(settings.rehanTerms)}</div>
+    <div class="signatures">
+      <div class="signature">Customer Signature</div>
+      <div class="signature">For ${escapeHtml(settings.shopName)}</div>
+    </div>
+  `;
+
+  await sharePdf(
+    renderDocument(`Pledge Receipt ${rehanNumber}`, body),
+    `Receipt_${rehanNumber}`,
+  );
+};
+
+// ============ CUSTOMER STATEMENT ============
+
+// Rehan and len-den numbers as printed on their own receipts and bills
+export const formatAccountNumber = (
+  account: Pick<StatementAccount, "source" | "sourceId">,
+) =>
+  account.source === "rehan"
+    ? formatRehanNumber(account.sourceId)
+    : formatBillNumber(account.sourceId);
+
+// Positive balances are owed by the customer, negative ones are advances
+const formatBalance = (amount: number) =>
+  amount < 0
+    ? `${formatCurrency(Math.abs(amount))} Cr`
+    : formatCurrency(amount);
+
+/**
+ * Create the khata statement of a customer for a date range (balance brought
+ * forward, every event with running balances, and each account's closing
+ * balance) and open the share sheet.
+ */
+export const shareCustomerStatement = async (
+  userId: number,
+  range: ReportDateRange,
+): Promise<void> => {
+  const [statement, settings] = await Promise.all([
+    buildCustomerStatement(userId, range),
+    getSettings(),
+  ]);
+  const period = `${formatDate(range.from)} – ${formatDate(range.to)}`;
+
+  const eventRows = statement.events
+    .map(
+      (event) => `
+        <tr>
+          <td>${escapeHtml(formatDate(event.date))}</td>
+          <td>
+            ${escapeHtml(STATEMENT_EVENT_LABELS[event.type])}
+            · ${escapeHtml(formatAccountNumber(event))}
+          </td>
+          <td class="amount red">
+            ${event.debit > 0 ? formatCurrency(event.debit) : ""}
+          </td>
+          <td class="amount green">
+            ${event.credit > 0 ? formatCurrency(event.credit) : ""}
+          </td>
+          <td class="amount">${formatBalance(event.accountBalance)}</td>
+          <td class="amount">${formatBalance(event.balance)}</td>
+        </tr>`,
+    )
+    .join("");
+
+  const accountRows = statement.accounts
+    .map(
+      (account) => `
+        <tr>
+          <td>${escapeHtml(formatAccountNumber(account))}</td>
+          <td class="amount">${formatBalance(account.opening)}</td>
+          <td class="amount">${formatBalance(account.closing)}</td>
+        </tr>`,
+    )
+    .join("");
+
+  const body = `
+    ${renderShopHeader(settings)}
+    <div class="doc-title">Khata Statement</div>
+    <div class="meta">
+      ${renderCustomer(statement.user)}
+      <div class="right">
+        <div class="label">Period</div>
+        <div class="value">${escapeHtml(period)}</div>
+        <div class="label">Closing Balance</div>
+        <div class="value">${formatBalance(statement.closingBalance)}</div>
+      </div>
+    </div>
+    <table>
+      <thead>
+        <tr>
+          <th>Date</th>
+          <th>Particulars</th>
+          <th class="amount">Debit</th>
+          <th class="amount">Credit</th>
+          <th class="amount">Account</th>
+          <th class="amount">Balance</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr>
+          <td>${escapeHtml(formatDate(range.from))}</td>
+          <td>Balance brought forward</td>
+          <td></td>
+          <td></td>
+          <td></td>
+          <td class="amount">${formatBalance(statement.openingBalance)}</td>
+        </tr>
+        ${eventRows}
+        <tr class="strong">
+          <td></td>
+          <td>Total</td>
+          <td class="amount red">${formatCurrency(statement.totalDebit)}</td>
+          <td class="amount green">
+            ${formatCurrency(statement.totalCredit)}
+          </td>
+          <td></td>
+          <td class="amount">${formatBalance(statement.closingBalance)}</td>
+        </tr>
+      </tbody>
+    </table>
+    ${
+      accountRows
+        ? `<div class="section-title">Accounts</div>
+           <table>
+             <thead>
+               <tr>
+                 <th>Rehan / Bill</th>
+                 <th class="amount">Opening</th>
+                 <th class="amount">Closing</th>
+               </tr>
+             </thead>
+             <tbody>${accountRows}</tbody>
+           </table>`
+        : ""
+    }
+    <div class="footer">
+      Rehan balances are principal only; interest is not included.
+    </div>
+  `;
+
+  const fileName = statement.user.name.replace(/[^A-Za-z0-9]+/g, "_");
+  const fileDate = new Date(range.to).toISOString().split("T")[0];
+  await sharePdf(
+    renderDocument(`Statement ${statement.user.name}`, body),
+    `Statement_${fileName}_${fileDate}`,
+  );
+};
@@ -0,0 +1,46 @@
+// RecycleBinService.ts - Restore and permanently purge soft-deleted records
+
+import { RecycleBinEntity } from "../types/entry";
+import {
+  getRecycleBinItems,
+  purgeRecycleBinItem,
+} from "../database/entryDatabase";
+import { deleteImages } from "../storage/fileStorage";
+import { getSettings } from "../storage/settingsStorage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Permanently delete a record from the recycle bin, along with its photos.
+ */
+export const purgeItem = async (
+  entity: RecycleBinEntity,
+  id: number,
+): Promise<void> => {
+  const media = await purgeRecycleBinItem(entity, id);
+  // Files go only after the rows are gone, so a failed purge keeps its photos
+  await deleteImages(media);
+};
+
+/**
+ * Purge everything that has been in the recycle bin longer than the
+ * configured retention period. Returns the number of records purged.
+ */
+export const purgeExpiredItems = async (): Promise<number> => {
+  const { recycleBinRetentionDays } = await getSettings();
+  const cutoff = Date.now() - recycleBinRetentionDays * DAY_MS;
+  const expired = (await getRecycleBinItems()).filter(
+    (item) => new Date(item.deletedAt).getTime() < cutoff,
+  );
+
+  let purged = 0;
+  for (const item of expired) {
+    try {
+      await purgeItem(item.entity, item.id);
+      purged += 1;
+    } catch (error) {
+      console.error(`Error auto-purging ${item.entity} ${item.id}:`, error);
+    }
+  }
+  return purged;
+};
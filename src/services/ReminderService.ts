@@ -0,0 +1,114 @@
+// ReminderService.ts - Payment reminder messages sent over SMS or WhatsApp
+
+import { Linking, Platform } from "react-native";
+import { createReminder } from "../database/entryDatabase";
+import {
+  NewReminder,
+  ReminderChannel,
+  ReminderLanguage,
+} from "../types/entry";
+
+export interface ReminderDetails {
+  customerName: string;
+  shopName: string;
+  shopPhone: string;
+  lendenBaki: number;
+  rehanAmount: number;
+}
+
+export const REMINDER_LANGUAGES: { label: string; value: ReminderLanguage }[] =
+  [
+    { label: "English", value: "en" },
+    { label: "हिंदी", value: "hi" },
+  ];
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  sms: "SMS",
+  whatsapp: "WhatsApp",
+};
+
+const formatRupees = (amount: number) => `₹${amount.toLocaleString("en-IN")}`;
+
+// Only the dues the customer actually has are mentioned
+const REMINDER_TEMPLATES: Record<
+  ReminderLanguage,
+  (details: ReminderDetails) => string[]
+> = {
+  en: (d) => [
+    `Dear ${d.customerName},`,
+    `This is a reminder from ${d.shopName} about your pending dues:`,
+    d.lendenBaki > 0 ? `Len-den baki: ${formatRupees(d.lendenBaki)}` : "",
+    d.rehanAmount > 0 ? `Rehan amount: ${formatRupees(d.rehanAmount)}` : "",
+    `Total: ${formatRupees(d.lendenBaki + d.rehanAmount)}`,
+    "Please clear the payment at the earliest. Thank you.",
+    d.shopPhone ? `${d.shopName} · ${d.shopPhone}` : "",
+  ],
+  hi: (d) => [
+    `नमस्ते ${d.customerName} जी,`,
+    `${d.shopName} की ओर से याद दिलाना है कि आपका बकाया है:`,
+    d.lendenBaki > 0 ? `लेन-देन बाकी: ${formatRupees(d.lendenBaki)}` : "",
+    d.rehanAmount > 0 ? `रेहन राशि: ${formatRupees(d.rehanAmount)}` : "",
+    `कुल: ${formatRupees(d.lendenBaki + d.rehanAmount)}`,
+    "कृपया जल्द से जल्द भुगतान करें। धन्यवाद।",
+    d.shopPhone ? `${d.shopName} · ${d.shopPhone}` : "",
+  ],
+};
+
+/**
+ * Fill the reminder template of a language with the customer's dues.
+ */
+export const buildReminderMessage = (
+  language: ReminderLanguage,
+  details: ReminderDetails,
+): string =>
+  REMINDER_TEMPLATES[language](details)
+    .filter((line) => line.length > 0)
+    .join("\n");
+
+// Indian mobile numbers without a country code get +91
+const toInternationalNumber = (mobileNumber: string) => {
+  const digits = mobileNumber.replace(/\D/g, "");
+  return digits.length === 10 ? `91${digits}` : digits;
+};
+
+const getReminderUrl = (
+  channel: ReminderChannel,
+  mobileNumber: string | null,
+  message: string,
+) => {
+  const text = encodeURIComponent(message);
+  if (channel === "whatsapp") {
+    const phone = mobileNumber
+      ? `phone=${toInternationalNumber(mobileNumber)}&`
+      : "";
+    return `whatsapp://send?${phone}text=${text}`;
+  }
+  // iOS reads the body after "&", Android after "?"
+  const separator = Platform.OS === "ios" ? "&" : "?";
+  const recipient = mobileNumber ? mobileNumber.replace(/[^\d+]/g, "") : "";
+  return `sms:${recipient}${separator}body=${text}`;
+};
+
+/**
+ * Open SMS or WhatsApp with the message for the customer, then log the
+ * reminder against them. Throws if the app can't be opened; nothing is
+ * logged in that case.
+ */
+export const sendReminder = async (
+  reminder: NewReminder,
+  mobileNumber: string | null,
+): Promise<void> => {
+  const url = getReminderUrl(reminder.channel, mobileNumber, reminder.message);
+  try {
+    await Linking.openURL(url);
+  } catch (error) {
+    console.error("Error opening reminder app:", error);
+    throw new Error(
+      reminder.channel === "whatsapp"
+        ? "WhatsApp could not be opened. Is it installed?"
+        : "The SMS app could not be opened",
+    );
+  }
+
+  await createReminder(reminder);
+};
@@ -0,0 +1,457 @@
+// SpreadsheetExportService.ts - CSV / Excel export of customers, ledgers and
+// the monthly GST summary
+
+import * as FileSystem from "expo-file-system/legacy";
+import * as Sharing from "expo-sharing";
+import * as XLSX from "xlsx";
+import { zip } from "react-native-zip-archive";
+import {
+  LedgerEntryType,
+  ReportDateRange,
+  ReportRecords,
+  getInvoicesInRange,
+  getReportRecords,
+} from "../database/entryDatabase";
+import {
+  GST_RATE_PERCENT,
+  JEWELLERY_HSN,
+  buildGstr1Summary,
+  formatInvoiceNumber,
+  formatPlaceOfSupply,
+  getMonthRange,
+} from "./GstService";
+import {
+  calculateRehanInterest,
+  getOpeningPrincipal,
+} from "./InterestService";
+import { Invoice, RehanTransaction } from "../types/entry";
+
+const REPORT_DIR_NAME = "aj_reports";
+
+const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+type Cell = string | number | null;
+
+// One table of the report: a sheet in the workbook, or one CSV file
+interface ReportSheet {
+  name: string;
+  fileName: string;
+  header: string[];
+  rows: Cell[][];
+}
+
+export const LEDGER_TYPE_LABELS: Record<LedgerEntryType, string> = {
+  rehan_loan: "Rehan Given",
+  rehan_jama: "Rehan Jama",
+  rehan_diya: "Rehan Diya",
+  lenden_bill: "Len-Den Bill",
+  lenden_jama: "Len-Den Jama",
+};
+
+// Local calendar date as YYYY-MM-DD (sorts correctly in any spreadsheet)
+const formatDate = (dateString: string | null): string | null => {
+  if (!dateString) return null;
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return dateString;
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const formatStatus = (status: number) => (status === 1 ? "Closed" : "Open");
+
+const buildSheets = (records: ReportRecords): ReportSheet[] => {
+  const totalDebit = records.ledger.reduce((sum, e) => sum + e.debit, 0);
+  const totalCredit = records.ledger.reduce((sum, e) => sum + e.credit, 0);
+  const historyByRehan: Record<number, RehanTransaction[]> = {};
+  for (const transaction of records.rehanHistory) {
+    (historyByRehan[transaction.rehanId] ??= []).push(transaction);
+  }
+
+  return [
+    {
+      name: "Customers",
+      fileName: "customers.csv",
+      header: ["Customer ID", "Name", "Nickname", "Mobile", "Address", "Added"],
+      rows: records.users.map((u) => [
+        u.id,
+        u.name,
+        u.nickname,
+        u.mobileNumber,
+        u.address,
+        formatDate(u.createdAt),
+      ]),
+    },
+    {
+      name: "Rehan",
+      fileName: "rehan.csv",
+      header: [
+        "Rehan No",
+        "Customer ID",
+        "Customer",
+        "Product",
+        "Opening Principal",
+        "Outstanding Today",
+        "Interest (% per month)",
+        "Interest Mode",
+        "Open Date",
+        "Status",
+        "Closed Date",
+      ],
+      rows: records.rehan.map((r) => [
+        r.id,
+        r.userId,
+        r.userName,
+        r.productName || null,
+        getOpeningPrincipal(r, historyByRehan[r.id] || []),
+        r.status === 0
+          ? calculateRehanInterest(r, historyByRehan[r.id] || []).total
+          : 0,
+        r.interestRate ?? 0,
+        r.interestMode === "compound" ? "Compound" : "Simple",
+        formatDate(r.openDate),
+        formatStatus(r.status),
+        formatDate(r.closedDate),
+      ]),
+    },
+    {
+      name: "Rehan Transactions",
+      fileName: "rehan_transactions.csv",
+      header: [
+        "Transaction ID",
+        "Rehan No",
+        "Customer ID",
+        "Customer",
+        "Date",
+        "Type",
+        "Amount",
+      ],
+      rows: records.rehanTransactions.map((t) => [
+        t.id,
+        t.rehanId,
+        t.userId,
+        t.userName,
+        formatDate(t.date),
+        t.type === "jama" ? "Jama" : "Diya",
+        t.amount,
+      ]),
+    },
+    {
+      name: "Len-Den",
+      fileName: "lenden.csv",
+      header: [
+        "Len-Den No",
+        "Customer ID",
+        "Customer",
+        "Date",
+        "Amount",
+        "Discount",
+        "Net Amount",
+        "Baki",
+        "Status",
+      ],
+      rows: records.lenden.map((l) => [
+        l.id,
+        l.userId,
+        l.userName,
+        formatDate(l.date),
+        l.amount ?? 0,
+        l.discount ?? 0,
+        l.remaining ?? 0,
+        l.baki ?? 0,
+        formatStatus(l.status),
+      ]),
+    },
+    {
+      name: "Jama Entries",
+      fileName: "jama_entries.csv",
+      header: [
+        "Jama ID",
+        "Len-Den No",
+        "Customer ID",
+        "Customer",
+        "Date",
+        "Amount",
+      ],
+      rows: records.jamaEntries.map((j) => [
+        j.id,
+        j.lendenId,
+        j.userId,
+        j.userName,
+        formatDate(j.date),
+        j.amount,
+      ]),
+    },
+    {
+      name: "Ledger",
+      fileName: "ledger.csv",
+      header: [
+        "Date",
+        "Customer ID",
+        "Customer",
+        "Mobile",
+        "Type",
+        "Reference",
+        "Debit",
+        "Credit",
+      ],
+      rows: [
+        ...records.ledger.map((e) => [
+          formatDate(e.date),
+          e.userId,
+          e.userName,
+          e.userMobileNumber,
+          LEDGER_TYPE_LABELS[e.type],
+          `${e.source === "rehan" ? "Rehan" : "Len-Den"} #${e.sourceId}`,
+          e.debit,
+          e.credit,
+        ]),
+        [null, null, "Total", null, null, null, totalDebit, totalCredit],
+      ],
+    },
+  ];
+};
+
+const buildGstSheets = (invoices: Invoice[]): ReportSheet[] => {
+  const summary = buildGstr1Summary(invoices);
+  const sum = (pick: (invoice: Invoice) => number) =>
+    Math.round(invoices.reduce((total, i) => total + pick(i), 0) * 100) / 100;
+
+  return [
+    {
+      name: "B2B",
+      fileName: "b2b.csv",
+      header: [
+        "GSTIN of Recipient",
+        "Receiver Name",
+        "Invoice Number",
+        "Invoice Date",
+        "Invoice Value",
+        "Place of Supply",
+        "Rate",
+        "Taxable Value",
+        "IGST",
+        "CGST",
+        "SGST",
+      ],
+      rows: summary.b2b.map((i) => [
+        i.customerGstin,
+        i.customerName,
+        formatInvoiceNumber(i),
+        formatDate(i.date),
+        i.total,
+        formatPlaceOfSupply(i.placeOfSupply),
+        GST_RATE_PERCENT,
+        i.taxableValue,
+        i.igst,
+        i.cgst,
+        i.sgst,
+      ]),
+    },
+    {
+      name: "B2CS",
+      fileName: "b2cs.csv",
+      header: [
+        "Type",
+        "Place of Supply",
+        "Rate",
+        "Invoices",
+        "Taxable Value",
+        "IGST",
+        "CGST",
+        "SGST",
+      ],
+      rows: summary.b2cs.map((row) => [
+        "OE", // Sales not made through an e-commerce operator
+        formatPlaceOfSupply(row.placeOfSupply),
+        GST_RATE_PERCENT,
+        row.invoices,
+        row.taxableValue,
+        row.igst,
+        row.cgst,
+        row.sgst,
+      ]),
+    },
+    {
+      name: "HSN",
+      fileName: "hsn.csv",
+      header: [
+        "HSN",
+        "Description",
+        "UQC",
+        "Total Quantity",
+        "Total Value",
+        "Taxable Value",
+        "IGST",
+        "CGST",
+        "SGST",
+      ],
+      rows:
+        invoices.length > 0
+          ? [
+              [
+                JEWELLERY_HSN,
+                "Articles of jewellery",
+                "GMS-GRAMMES",
+                summary.hsn.quantity,
+                summary.hsn.totalValue,
+                summary.hsn.taxableValue,
+                summary.hsn.igst,
+                summary.hsn.cgst,
+                summary.hsn.sgst,
+              ],
+            ]
+          : [],
+    },
+    {
+      name: "Documents",
+      fileName: "documents.csv",
+      header: ["Nature of Document", "From", "To", "Total Number", "Cancelled"],
+      rows: summary.documents
+        ? [
+            [
+              "Invoices for outward supply",
+              summary.documents.from,
+              summary.documents.to,
+              summary.documents.count,
+              0,
+            ],
+          ]
+        : [],
+    },
+    {
+      name: "Invoices",
+      fileName: "invoices.csv",
+      header: [
+        "Invoice Number",
+        "Date",
+        "Customer",
+        "GSTIN",
+        "PAN",
+        "Place of Supply",
+        "Taxable Value",
+        "CGST",
+        "SGST",
+        "IGST",
+        "Invoice Value",
+      ],
+      rows: [
+        ...invoices.map((i) => [
+          formatInvoiceNumber(i),
+          formatDate(i.date),
+          i.customerName,
+          i.customerGstin,
+          i.customerPan,
+          formatPlaceOfSupply(i.placeOfSupply),
+          i.taxableValue,
+          i.cgst,
+          i.sgst,
+          i.igst,
+          i.total,
+        ]),
+        [
+          "Total",
+          null,
+          null,
+          null,
+          null,
+          null,
+          sum((i) => i.taxableValue),
+          sum((i) => i.cgst),
+          sum((i) => i.sgst),
+          sum((i) => i.igst),
+          sum((i) => i.total),
+        ],
+      ],
+    },
+  ];
+};
+
+const toWorksheet = (sheet: ReportSheet) =>
+  XLSX.utils.aoa_to_sheet([sheet.header, ...sheet.rows]);
+
+// e.g. aj_report_2024-04-01_2025-03-31
+const getReportName = (range: ReportDateRange) =>
+  `aj_report_${formatDate(range.from)}_${formatDate(range.to)}`;
+
+// "xlsx" shares one workbook with a sheet per table; "csv" shares a zip with
+// one CSV file per table
+const shareSheets = async (
+  sheets: ReportSheet[],
+  name: string,
+  format: SpreadsheetFormat,
+): Promise<void> => {
+  const reportDir = `${FileSystem.documentDirectory}${REPORT_DIR_NAME}/`;
+
+  // Only the latest report is kept around
+  await FileSystem.deleteAsync(reportDir, { idempotent: true });
+  await FileSystem.makeDirectoryAsync(reportDir, { intermediates: true });
+
+  if (format === "xlsx") {
+    const workbook = XLSX.utils.book_new();
+    for (const sheet of sheets) {
+      XLSX.utils.book_append_sheet(workbook, toWorksheet(sheet), sheet.name);
+    }
+    const filePath = `${reportDir}${name}.xlsx`;
+    await FileSystem.writeAsStringAsync(
+      filePath,
+      XLSX.write(workbook, { type: "base64", bookType: "xlsx" }),
+      { encoding: FileSystem.EncodingType.Base64 },
+    );
+    await Sharing.shareAsync(filePath, { mimeType: XLSX_MIME_TYPE });
+    return;
+  }
+
+  // Sharing takes a single file, so the CSV files are zipped together
+  const csvDir = `${reportDir}${name}`;
+  await FileSystem.makeDirectoryAsync(csvDir, { intermediates: true });
+  for (const sheet of sheets) {
+    // The byte order mark makes Excel read names and ₹ as UTF-8
+    await FileSystem.writeAsStringAsync(
+      `${csvDir}/${sheet.fileName}`,
+      `\uFEFF${XLSX.utils.sheet_to_csv(toWorksheet(sheet))}`,
+    );
+  }
+  const zipPath = `${reportDir}${name}.zip`;
+  await zip(csvDir, zipPath);
+  await Sharing.shareAsync(zipPath, { mimeType: "application/zip" });
+};
+
+/**
+ * Build the accounts report for `range` and open the share sheet.
+ */
+export const exportSpreadsheet = async (
+  range: ReportDateRange,
+  format: SpreadsheetFormat,
+): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device");
+  }
+  const sheets = buildSheets(await getReportRecords(range));
+  await shareSheets(sheets, getReportName(range), format);
+};
+
+/**
+ * Build the GSTR-1 style summary of the GST invoices issued in `month`
+ * (B2B, B2CS, HSN and document sheets plus the invoice register) and open
+ * the share sheet.
+ */
+export const exportGstr1Summary = async (
+  month: Date,
+  format: SpreadsheetFormat,
+): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device");
+  }
+  const range = getMonthRange(month);
+  const invoices = await getInvoicesInRange(range);
+  if (invoices.length === 0) {
+    throw new Error("No GST invoices were issued in this month");
+  }
+  // e.g. aj_gstr1_2025-04
+  const name = `aj_gstr1_${formatDate(range.from)?.slice(0, 7)}`;
+  await shareSheets(buildGstSheets(invoices), name, format);
+};
@@ -0,0 +1,226 @@
+// StatementService.ts - Chronological khata statement of one customer
+
+import {
+  CustomerRecords,
+  ReportDateRange,
+  getCustomerRecords,
+} from "../database/entryDatabase";
+import { User } from "../types/entry";
+import { getOpeningPrincipal } from "./InterestService";
+
+export type StatementEventType =
+  | "lenden_opened"
+  | "lenden_discount"
+  | "lenden_jama"
+  | "rehan_opened"
+  | "rehan_diya"
+  | "rehan_jama"
+  | "rehan_closed"
+  | "rehan_renewed";
+
+export const STATEMENT_EVENT_LABELS: Record<StatementEventType, string> = {
+  lenden_opened: "Len-Den Bill",
+  lenden_discount: "Discount",
+  lenden_jama: "Len-Den Jama",
+  rehan_opened: "Rehan Given",
+  rehan_diya: "Rehan Diya",
+  rehan_jama: "Rehan Jama",
+  rehan_closed: "Rehan Closed",
+  rehan_renewed: "Rehan Renewed",
+};
+
+// One line on the statement; debit = customer owes more, credit = paid
+export interface StatementEvent {
+  date: string;
+  type: StatementEventType;
+  source: "rehan" | "lenden";
+  sourceId: number;
+  debit: number;
+  credit: number;
+  accountBalance: number; // Balance of this rehan / len-den after the event
+  balance: number; // Balance across all accounts after the event
+}
+
+// A rehan or len-den with its balance at the start and end of the range
+export interface StatementAccount {
+  source: "rehan" | "lenden";
+  sourceId: number;
+  opening: number;
+  closing: number;
+}
+
+export interface CustomerStatement {
+  user: User;
+  range: ReportDateRange;
+  openingBalance: number;
+  events: StatementEvent[];
+  accounts: StatementAccount[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+type RawEvent = Omit<StatementEvent, "accountBalance" | "balance">;
+
+// Every event on the khata, in the order it happened
+const collectEvents = (records: CustomerRecords): RawEvent[] => {
+  const events: RawEvent[] = [];
+
+  for (const rehan of records.rehan) {
+    const transactions = records.rehanTransactions.filter(
+      (t) => t.rehanId === rehan.id,
+    );
+    const base = { source: "rehan" as const, sourceId: rehan.id };
+    const openingPrincipal = getOpeningPrincipal(rehan, transactions);
+    events.push({
+      ...base,
+      date: rehan.openDate,
+      type: "rehan_opened",
+      debit: openingPrincipal,
+      credit: 0,
+    });
+    for (const transaction of transactions) {
+      const isJama = transaction.type === "jama";
+      events.push({
+        ...base,
+        date: transaction.date,
+        type: isJama ? "rehan_jama" : "rehan_diya",
+        debit: isJama ? 0 : transaction.amount,
+        credit: isJama ? transaction.amount : 0,
+      });
+    }
+    if (rehan.status === 1 && rehan.closedDate) {
+      // A settled Rehan ends at zero: the interest taken, what was waived
+      // or what a renewal moved over to the new Rehan squares the account
+      const isRenewed = records.rehan.some(
+        (r) => r.parentRehanId === rehan.id,
+      );
+      const isSettled = rehan.settlementPrincipal != null;
+      const balance = isSettled
+        ? transactions.reduce(
+            (sum, t) => (t.type === "diya" ? sum + t.amount : sum - t.amount),
+            openingPrincipal,
+          )
+        : 0;
+      events.push({
+        ...base,
+        date: rehan.closedDate,
+        type: isRenewed ? "rehan_renewed" : "rehan_closed",
+        debit: Math.max(-balance, 0),
+        credit: Math.max(balance, 0),
+      });
+    }
+  }
+
+  for (const lenden of records.lenden) {
+    const base = { source: "lenden" as const, sourceId: lenden.id };
+    events.push({
+      ...base,
+      date: lenden.date,
+      type: "lenden_opened",
+      debit: lenden.amount || 0,
+      credit: 0,
+    });
+    if (lenden.discount) {
+      events.push({
+        ...base,
+        date: lenden.date,
+        type: "lenden_discount",
+        debit: 0,
+        credit: lenden.discount,
+      });
+    }
+    for (const entry of records.jamaEntries) {
+      if (entry.lendenId !== lenden.id) continue;
+      events.push({
+        ...base,
+        date: entry.date,
+        type: "lenden_jama",
+        debit: 0,
+        credit: entry.amount,
+      });
+    }
+  }
+
+  // Stable sort keeps an account's events in the order they were added
+  return events
+    .map((event, index) => ({ event, index }))
+    .sort(
+      (a, b) =>
+        new Date(a.event.date).getTime() - new Date(b.event.date).getTime() ||
+        a.index - b.index,
+    )
+    .map(({ event }) => event);
+};
+
+/**
+ * Build the statement of one customer for a date range: the balance brought
+ * forward, every event in the range with running balances per account and
+ * overall, and where each account stands at the end.
+ */
+export const buildCustomerStatement = async (
+  userId: number,
+  range: ReportDateRange,
+): Promise<CustomerStatement> => {
+  const records = await getCustomerRecords(userId);
+  if (!records) {
+    throw new Error("Customer not found");
+  }
+
+  const from = new Date(range.from).getTime();
+  const to = new Date(range.to).getTime();
+  const accounts: Record<string, StatementAccount> = {};
+  const events: StatementEvent[] = [];
+  let openingBalance = 0;
+  let balance = 0;
+  let totalDebit = 0;
+  let totalCredit = 0;
+
+  for (const event of collectEvents(records)) {
+    const time = new Date(event.date).getTime();
+    if (time > to) break;
+
+    const key = `${event.source}-${event.sourceId}`;
+    if (!accounts[key]) {
+      accounts[key] = {
+        source: event.source,
+        sourceId: event.sourceId,
+        opening: 0,
+        closing: 0,
+      };
+    }
+    const account = accounts[key];
+    account.closing += event.debit - event.credit;
+    balance += event.debit - event.credit;
+
+    // Before the range only the balances brought forward matter
+    if (time < from) {
+      account.opening = account.closing;
+      openingBalance = balance;
+      continue;
+    }
+
+    totalDebit += event.debit;
+    totalCredit += event.credit;
+    events.push({ ...event, accountBalance: account.closing, balance });
+  }
+
+  return {
+    user: records.user,
+    range,
+    openingBalance,
+    events,
+    // Settled accounts with nothing in the range are left out
+    accounts: Object.values(accounts).filter(
+      (account) =>
+        account.opening !== 0 ||
+        events.some(
+          (e) =>
+            e.source === account.source && e.sourceId === account.sourceId,
+        ),
+    ),
+    totalDebit,
+    totalCredit,
+    closingBalance: openingBalance + totalDebit - totalCredit,
+  };
+};
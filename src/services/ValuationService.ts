@@ -0,0 +1,133 @@
+// ValuationService.ts - Collateral value and loan-to-value of Rehan entries
+
+import { BhavData, getBhavRates } from "./BhavService";
+import { Metal, RehanItem } from "../types/entry";
+
+// Bhav is quoted for fine metal: gold per 10 g, silver per kg
+const GOLD_RATE_GRAMS = 10;
+const SILVER_RATE_GRAMS = 1000;
+
+// Purity assumed for items saved without one
+const DEFAULT_PURITY: Record<Metal, number> = {
+  gold: 22 / 24,
+  silver: 0.8,
+};
+
+// Rates are reused for a few minutes instead of asking the server every time
+const BHAV_CACHE_MS = 5 * 60 * 1000;
+let cachedBhav: { data: BhavData; fetchedAt: number } | null = null;
+
+export interface CollateralValuation {
+  goldFineWeight: number; // Grams of pure gold in the pledged items
+  silverFineWeight: number; // Grams of pure silver
+  value: number; // What the fine metal is worth at the current bhav
+  weighedItems: number; // Items with a weight, the rest aren't counted
+  ratesUpdatedAt: string | null;
+}
+
+/**
+ * Get the current bhav rates, reusing the last ones fetched in the past
+ * few minutes.
+ */
+export const getLiveBhav = async (): Promise<BhavData> => {
+  if (cachedBhav && Date.now() - cachedBhav.fetchedAt < BHAV_CACHE_MS) {
+    return cachedBhav.data;
+  }
+  const response = await getBhavRates();
+  cachedBhav = { data: response.data, fetchedAt: Date.now() };
+  return response.data;
+};
+
+/**
+ * Fraction of pure metal for a purity as entered on an item:
+ * karats ("22K", or just "22"), fineness ("916", "925") or a percentage
+ * ("80%"). A bare number up to 24 is karats and 375 to 999 fineness.
+ * Anything unreadable falls back to the usual purity of that metal.
+ */
+export const getPurityFraction = (
+  metal: Metal,
+  purity: string | null,
+): number => {
+  const text = (purity || "").trim().toUpperCase();
+  const number = parseFloat(text);
+  if (!text || isNaN(number) || number <= 0) return DEFAULT_PURITY[metal];
+
+  if (text.endsWith("K") || text.endsWith("KT")) {
+    return Math.min(number, 24) / 24;
+  }
+  if (text.endsWith("%")) return Math.min(number, 100) / 100;
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    if (number <= 24) return number / 24;
+    if (number >= 375 && number <= 999.9) return number / 1000;
+    return DEFAULT_PURITY[metal];
+  }
+  if (number >= 100) return Math.min(number, 1000) / 1000;
+  return DEFAULT_PURITY[metal];
+};
+
+/**
+ * Price of one gram of metal at the given purity, from the fine metal bhav.
+ */
+export const getRatePerGram = (
+  metal: Metal,
+  purity: string | null,
+  rates: BhavData,
+): number => {
+  const fineRate =
+    metal === "gold"
+      ? (rates.gold_999_bhav?.value || 0) / GOLD_RATE_GRAMS
+      : (rates.silver_bhav?.value || 0) / SILVER_RATE_GRAMS;
+  return Math.round(fineRate * getPurityFraction(metal, purity) * 100) / 100;
+};
+
+/**
+ * Value pledged items at the given bhav. Weights are the net weight of the
+ * whole line (all its pieces), or the gross weight where net wasn't entered.
+ */
+export const valueCollateral = (
+  items: RehanItem[],
+  rates: BhavData,
+): CollateralValuation => {
+  let goldFineWeight = 0;
+  let silverFineWeight = 0;
+  let weighedItems = 0;
+
+  for (const item of items) {
+    const weight = item.netWeight ?? item.grossWeight;
+    if (!weight || weight <= 0) continue;
+
+    const fineWeight = weight * getPurityFraction(item.metal, item.purity);
+    if (item.metal === "gold") {
+      goldFineWeight += fineWeight;
+    } else {
+      silverFineWeight += fineWeight;
+    }
+    weighedItems += 1;
+  }
+
+  const goldRate = rates.gold_999_bhav?.value || 0;
+  const silverRate = rates.silver_bhav?.value || 0;
+  const value =
+    (goldFineWeight * goldRate) / GOLD_RATE_GRAMS +
+    (silverFineWeight * silverRate) / SILVER_RATE_GRAMS;
+
+  return {
+    goldFineWeight,
+    silverFineWeight,
+    value: Math.round(value),
+    weighedItems,
+    ratesUpdatedAt:
+      rates.gold_999_bhav?.updated_at || rates.silver_bhav?.updated_at || null,
+  };
+};
+
+/**
+ * Loan-to-value in percent, or null when the collateral has no value.
+ */
+export const calculateLtv = (
+  loanAmount: number,
+  collateralValue: number,
+): number | null => {
+  if (collateralValue <= 0) return null;
+  return (loanAmount / collateralValue) * 100;
+};
@@ -3,7 +3,10 @@ import {
   makeDirectoryAsync,
   copyAsync,
   deleteAsync,
+  readAsStringAsync,
+  EncodingType,
 } from "expo-file-system/legacy";
+import * as Crypto from "expo-crypto";
 
 // Get app's document directory for storing images
 const getImageDirectory = () => {
@@ -61,3 +64,20 @@ export const deleteImages = async (paths: string[]): Promise<void> => {
     await deleteImage(path);
   }
 };
+
+// SHA-256 of a file's contents, as a hex string
+export const getFileChecksum = async (path: string): Promise<string> => {
+  const base64 = await readAsStringAsync(path, {
+    encoding: EncodingType.Base64,
+  });
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  const hash = await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, bytes);
+  return Array.from(new Uint8Array(hash))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
@@ -0,0 +1,59 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const SETTINGS_KEY = "aj_settings";
+
+// App-wide preferences kept on the device
+export interface AppSettings {
+  recycleBinRetentionDays: number; // Deleted records are purged after this
+  autoBackupEnabled: boolean; // Take a local backup once a day
+  backupKeepDaily: number; // Most recent daily backups to keep
+  backupKeepMonthly: number; // Months to keep one backup for
+  backupStaleDays: number; // Warn when the newest backup is older than this
+  shopName: string; // Printed at the top of bills and receipts
+  shopAddress: string;
+  shopPhone: string;
+  shopGstin: string; // Needed to issue GST invoices
+  rehanTerms: string; // Printed on every pledge receipt
+  ltvLimitPercent: number; // Warn when a loan passes this % of its collateral
+}
+
+const DEFAULT_SETTINGS: AppSettings = {
+  recycleBinRetentionDays: 30,
+  autoBackupEnabled: true,
+  backupKeepDaily: 7,
+  backupKeepMonthly: 6,
+  backupStaleDays: 2,
+  shopName: "Asha Jewellers",
+  shopAddress: "",
+  shopPhone: "",
+  shopGstin: "",
+  rehanTerms: [
+    "1. Interest is charged monthly at the agreed rate, counted from the open date.",
+    "2. The pledged items are returned only against this receipt, after the full amount with interest is paid.",
+    "3. If the loan is not repaid or renewed within 12 months, the shop may recover the amount by selling the pledged items after giving notice.",
+    "4. The shop is not responsible for loss due to natural calamity, theft or other events beyond its control.",
+  ].join("\n"),
+  ltvLimitPercent: 75,
+};
+
+// Get saved settings (missing values fall back to the defaults)
+export const getSettings = async (): Promise<AppSettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+    return stored
+      ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) }
+      : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error("Error reading settings:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// Save some settings, keeping the rest unchanged
+export const updateSettings = async (
+  changes: Partial<AppSettings>,
+): Promise<AppSettings> => {
+  const settings = { ...(await getSettings()), ...changes };
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  return settings;
+};
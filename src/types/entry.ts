@@ -7,6 +7,7 @@ export interface User {
   mobileNumber: string | null;
   nickname: string | null;
   createdAt: string;
+  deletedAt?: string | null; // Set while in the recycle bin
 }
 
 export interface NewUser {
@@ -16,6 +17,9 @@ export interface NewUser {
   nickname?: string;
 }
 
+// Interest calculation mode for Rehan
+export type InterestMode = "simple" | "compound"; // compound = monthly compounding
+
 export interface Rehan {
   id: number;
   userId: number;
@@ -24,7 +28,20 @@ export interface Rehan {
   openDate: string;
   closedDate: string | null;
   productName?: string;
-  amount?: number;
+  amount?: number; // Running balance while open, 0 once closed
+  openingAmount?: number | null; // Principal the Rehan was opened with
+  interestRate?: number; // Monthly interest rate in percent
+  interestMode?: InterestMode;
+  parentRehanId?: number | null; // Rehan this one renewed
+  // Settlement, recorded when the Rehan is closed or renewed:
+  // principal + interest = paid + waived + carried forward
+  settlementPrincipal?: number | null;
+  settlementInterest?: number | null;
+  settlementPaid?: number | null;
+  settlementWaived?: number | null;
+  settlementCarriedForward?: number | null;
+  settlementNote?: string | null;
+  deletedAt?: string | null; // Set while in the recycle bin
 }
 
 export interface NewRehan {
@@ -33,6 +50,67 @@ export interface NewRehan {
   openDate?: string; // Optional - defaults to current date if not provided
   productName?: string;
   amount?: number; // Initial amount / Current balance
+  interestRate?: number; // Monthly interest rate in percent
+  interestMode?: InterestMode;
+  items?: NewRehanItem[]; // Pledged items, saved along with the Rehan
+  parentRehanId?: number; // Set when opened by renewing another Rehan
+}
+
+// Final settlement of an open Rehan when it is closed
+export interface NewRehanSettlement {
+  rehanId: number;
+  date: string; // Closing date, may be backdated
+  paid: number; // Final jama; 0 if none, whatever is left unpaid is waived
+  reason?: string; // Required when anything is waived
+}
+
+// Renewal of an open Rehan: it is settled and closed, and a new Rehan opens
+// with the principal carried forward
+export interface NewRehanRenewal {
+  rehanId: number;
+  date: string;
+  paid: number; // Cash received now, recorded as a jama; 0 if none
+  carriedForward: number; // Principal of the new Rehan
+  note?: string;
+  interestRate: number; // Terms of the new Rehan
+  interestMode: InterestMode;
+  itemIds: number[]; // Held items moved to the new Rehan, the rest returned
+  media: string[]; // Photos of the new Rehan
+}
+
+export type Metal = "gold" | "silver";
+
+// Rehan Item - one pledged ornament (or a set of identical pieces)
+export interface RehanItem {
+  id: number;
+  rehanId: number;
+  itemType: string; // chain, ring, payal, ...
+  metal: Metal;
+  purity: string | null; // Karat for gold (22K), fineness for silver (925)
+  grossWeight: number | null; // Grams, all pieces together
+  netWeight: number | null; // Grams, without stones / thread
+  pieces: number;
+  releasedAt?: string | null; // Returned to the customer before closing
+  releaseTransactionId?: number | null; // Jama it was released against
+  releaseMedia?: string | null; // JSON stringified array of image paths
+}
+
+export interface NewRehanItem {
+  itemType: string;
+  metal: Metal;
+  purity?: string;
+  grossWeight?: number;
+  netWeight?: number;
+  pieces?: number; // Defaults to 1
+}
+
+// Release of some pledged items, optionally against a jama
+export interface NewItemRelease {
+  rehanId: number;
+  itemIds: number[];
+  amount: number; // Jama received with the release; 0 if none
+  date: string;
+  media?: string[]; // Photo of the items being handed back
 }
 
 export interface RehanTransaction {
@@ -61,6 +139,10 @@ export interface Lenden {
   jama?: number;
   baki?: number;
   status: number; // 0 = open, 1 = closed
+  installmentCount?: number | null; // Set when paid by installments
+  installmentFrequency?: InstallmentFrequency | null;
+  firstDueDate?: string | null;
+  deletedAt?: string | null; // Set while in the recycle bin
 }
 
 export interface NewLenden {
@@ -73,6 +155,91 @@ export interface NewLenden {
   jama?: number; // Legacy - now jama entries are stored in separate table
   baki?: number;
   status?: number; // 0 = open, 1 = closed
+  items?: NewLendenItem[]; // Bill lines, saved along with the Lenden
+}
+
+// Lenden Item - one priced line of an itemised bill
+export type MakingChargeType = "perGram" | "percent";
+
+export interface LendenItem {
+  id: number;
+  lendenId: number;
+  description: string;
+  metal: Metal;
+  purity: string | null;
+  grossWeight: number | null; // Grams
+  netWeight: number | null; // Grams, the weight that is charged
+  rate: number; // Per gram of the item's purity
+  makingChargeType: MakingChargeType;
+  makingCharge: number; // Per gram, or percent of the metal value
+  wastagePercent: number; // Extra weight charged at the rate
+  stoneCharges: number;
+  amount: number; // Line total, rounded to rupees
+}
+
+export interface NewLendenItem {
+  description: string;
+  metal: Metal;
+  purity?: string;
+  grossWeight?: number;
+  netWeight?: number;
+  rate: number;
+  makingChargeType: MakingChargeType;
+  makingCharge?: number;
+  wastagePercent?: number;
+  stoneCharges?: number;
+  amount: number; // Line total, priced by BillingService
+}
+
+// Invoice - a GST tax invoice issued against a Lenden. The amounts and the
+// buyer's details are a snapshot, so the invoice reads the same even if the
+// bill is changed or purged later.
+export interface Invoice {
+  id: number;
+  lendenId: number | null; // Null once the Lenden is purged
+  financialYear: string; // e.g. "2025-26"
+  sequence: number; // Running number within the financial year
+  date: string;
+  customerName: string;
+  customerAddress: string | null;
+  customerGstin: string | null;
+  customerPan: string | null;
+  placeOfSupply: string; // Two-digit GST state code
+  isInterState: number; // 1 = IGST, 0 = CGST + SGST
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number; // Taxable value plus GST
+  totalWeight: number | null; // Grams, from the bill lines
+  createdAt: string;
+}
+
+export interface NewInvoice {
+  lendenId: number;
+  financialYear: string;
+  date: string;
+  customerName: string;
+  customerAddress?: string;
+  customerGstin?: string;
+  customerPan?: string;
+  placeOfSupply: string;
+  isInterState: boolean;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+  totalWeight?: number;
+}
+
+// Installment plan - the Lenden remaining split into equal dues
+export type InstallmentFrequency = "weekly" | "fortnightly" | "monthly";
+
+export interface InstallmentPlan {
+  count: number;
+  frequency: InstallmentFrequency;
+  firstDueDate: string;
 }
 
 // Jama Entry - multiple payments per Lenden
@@ -81,6 +248,7 @@ export interface JamaEntry {
   lendenId: number;
   amount: number;
   date: string;
+  deletedAt?: string | null; // Set while in the recycle bin
 }
 
 export interface NewJamaEntry {
@@ -89,9 +257,85 @@ export interface NewJamaEntry {
   date: string;
 }
 
+// Reminder - a payment reminder sent to a customer
+export type ReminderChannel = "sms" | "whatsapp";
+export type ReminderLanguage = "en" | "hi";
+
+export interface Reminder {
+  id: number;
+  userId: number;
+  channel: ReminderChannel;
+  language: ReminderLanguage;
+  message: string; // Text as it was sent, after any edits
+  lendenBaki: number; // What was due when the reminder went out
+  rehanAmount: number;
+  sentAt: string;
+}
+
+export interface NewReminder {
+  userId: number;
+  channel: ReminderChannel;
+  language: ReminderLanguage;
+  message: string;
+  lendenBaki: number;
+  rehanAmount: number;
+}
+
+// Audit Log - append-only record of every ledger change
+export type AuditEntity =
+  | "user"
+  | "rehan"
+  | "rehan_transaction"
+  | "rehan_item"
+  | "lenden"
+  | "lenden_item"
+  | "jama_entry"
+  | "invoice";
+
+export type AuditAction =
+  | "create"
+  | "update"
+  | "delete" // Moved to the recycle bin
+  | "close"
+  | "restore" // Brought back from the recycle bin
+  | "purge"; // Removed permanently
+
+export interface AuditLogEntry {
+  id: number;
+  entity: AuditEntity;
+  entityId: number;
+  action: AuditAction;
+  before: string | null; // JSON snapshot of the row before the change
+  after: string | null; // JSON snapshot of the row after the change
+  timestamp: string;
+  reason: string | null;
+}
+
+// Recycle Bin - soft-deleted records waiting to be restored or purged
+export type RecycleBinEntity = "user" | "rehan" | "lenden" | "jama_entry";
+
+export interface RecycleBinItem {
+  entity: RecycleBinEntity;
+  id: number;
+  deletedAt: string;
+  userName: string; // Customer the record belongs to
+  productName: string | null; // Only for Rehan
+  amount: number | null;
+}
+
 // Entry type selection
 export type EntryType = "rehan" | "lenden";
 
+// Home screen summary tiles, each opening the entries behind it
+export type DashboardTile =
+  | "lendenBaki"
+  | "rehanPrincipal"
+  | "openRehan"
+  | "openLenden"
+  | "collectedToday"
+  | "collectedThisMonth"
+  | "newLoansThisMonth";
+
 // Navigation types
 export type RootStackParamList = {
   Home: undefined;
@@ -112,6 +356,21 @@ export type RootStackParamList = {
     transactionType: "rehan" | "lenden";
   };
   UpdateBhav: undefined;
+  AuditLog: undefined;
+  RecycleBin: undefined;
+  Import: undefined;
+  Backups: undefined;
+  ReportExport: undefined;
+  ShopDetails: undefined;
+  RehanAging: undefined;
+  DashboardList: {
+    tile: DashboardTile;
+  };
+  CashBook: undefined;
+  CustomerStatement: {
+    userId: number;
+    userName: string;
+  };
   // Category management screens
   CategoryList: undefined;
   AddEditCategory: {